@@ -23,7 +23,19 @@ const editorHtml = readFileSync(join(ROOT, 'demo/editor.html'), 'utf-8');
 const exampleJson = readFileSync(join(ROOT, 'demo/configs/example.json'), 'utf-8');
 
 // dist/ is produced by tsc. Bail with a clear message if it's missing.
-const distFiles = ['dist/core/geometry.js', 'dist/core/types.js', 'dist/renderers/svg.js'];
+const distFiles = [
+  'dist/core/geometry.js',
+  'dist/core/color.js',
+  'dist/core/escape.js',
+  'dist/core/css.js',
+  'dist/core/types.js',
+  'dist/core/summary.js',
+  'dist/core/aggregate.js',
+  'dist/core/csv.js',
+  'dist/core/layout.js',
+  'dist/renderers/compact.js',
+  'dist/renderers/svg.js',
+];
 for (const f of distFiles) {
   if (!existsSync(join(ROOT, f))) {
     console.error(`Missing ${f}. Run \`npm run build\` (or \`tsc\`) first.`);
@@ -40,6 +52,9 @@ function readModule(relPath) {
     .replace(/^export\s+(class|function|const|let|var)/gm, '$1')
     // Strip bare `export {}` lines.
     .replace(/^export\s+\{[^}]*\};?\s*$/gm, '')
+    // `</script` in a string (the tooltip script) would end the page's own
+    // <script> element; `<\/script` reads the same in JS strings and regexes.
+    .replace(/<\/script/gi, '<\\/script')
     .trim();
 }
 
@@ -47,11 +62,7 @@ const inlinedRenderer = `
     // ============================================================
     // Inlined renderer (auto-generated from dist/ — do not edit)
     // ============================================================
-${readModule('dist/core/geometry.js')}
-
-${readModule('dist/core/types.js')}
-
-${readModule('dist/renderers/svg.js')}
+${distFiles.map(readModule).join('\n\n')}
 `;
 
 // Parse example config (drop the demo metadata keys for cleanliness).
@@ -85,14 +96,20 @@ html = html.replace(
   /import\s*\{\s*createConfig\s*\}\s*from\s*['"]\.\.\/dist\/core\/types\.js['"];\s*\n/,
   '',
 );
+html = html.replace(
+  /import\s*\{\s*configFromCsv,\s*configToCsv\s*\}\s*from\s*['"]\.\.\/dist\/core\/csv\.js['"];\s*\n/,
+  '',
+);
 
 // 3. Remove the type="module" attribute since we no longer use imports.
 html = html.replace(/<script type="module">/, '<script>');
 
-// 4. Inject inlined renderer at the top of the editor's script body.
+// 4. Inject inlined renderer at the top of the editor's script body. The
+//    replacements are functions so `$'` and `$\`` in the inlined code (e.g.
+//    regexes ending in `$`) are not read as replacement patterns.
 html = html.replace(
   /<script>(\s*\n)/,
-  `<script>$1${inlinedRenderer}\n`,
+  (_, space) => `<script>${space}${inlinedRenderer}\n`,
 );
 
 // 5. Replace the editor's hardcoded DEFAULT_CONFIG with the parsed example.json
@@ -107,7 +124,7 @@ if (!defaultConfigBlock.test(html)) {
   console.error('Could not find DEFAULT_CONFIG in editor.html — aborting.');
   process.exit(1);
 }
-html = html.replace(defaultConfigBlock, `const DEFAULT_CONFIG = ${exampleConfigJs};`);
+html = html.replace(defaultConfigBlock, () => `const DEFAULT_CONFIG = ${exampleConfigJs};`);
 
 // ---------- Write ----------
 writeFileSync(join(ROOT, 'demo/radial-diagram.html'), html);
@@ -0,0 +1,26 @@
+/**
+ * Radial Diagram Generator — browser entry point
+ * Everything from the main entry plus the DOM-bound drag-to-score editor.
+ *
+ * @license MIT
+ * @copyright 2026 CGA Management Ltd
+ * @see https://www.cgamanagement.co.uk/category/tools
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+export * from './index.js';
+
+// Drag-to-score editor (requires a DOM)
+export type { ScoreEditorOptions, ScoreChangeDetail } from './browser/score-editor.js';
+
+export { ScoreEditor, mountScoreEditor } from './browser/score-editor.js';
+
+// <radial-diagram> custom element
+export type { FacetEventDetail, DiagramErrorDetail } from './browser/element.js';
+
+export { RadialDiagramElement, defineRadialDiagram } from './browser/element.js';
+
+// Styled tooltip for SVG inserted where its inline script cannot run
+export { bindTooltip } from './browser/tooltip.js';
@@ -0,0 +1,194 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { polarToCartesian } from '../core/geometry.js';
+import { computeLayout } from '../core/layout.js';
+import type { DiagramConfig } from '../core/types.js';
+import type { FacetEventDetail, DiagramErrorDetail, RadialDiagramElement } from './element.js';
+
+const { bindTooltip } = vi.hoisted(() => ({ bindTooltip: vi.fn() }));
+vi.mock('./tooltip.js', () => ({ bindTooltip }));
+vi.mock('../core/layout.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../core/layout.js')>();
+  return { ...actual, computeLayout: vi.fn(actual.computeLayout) };
+});
+
+/**
+ * Headless stand-ins for the DOM pieces the element uses: an HTMLElement with
+ * attributes and a shadow root that just holds markup, laid out at 940px so
+ * pixels equal viewBox units (size 800 + 70 padding each side).
+ */
+class FakeElement extends EventTarget {
+  shadowRoot: { innerHTML: string; querySelector: (selector: string) => unknown } | null = null;
+  attachShadow() {
+    this.shadowRoot = { innerHTML: '', querySelector: () => null };
+    return this.shadowRoot;
+  }
+  getBoundingClientRect() {
+    return { left: 0, top: 0, width: 940, height: 940 };
+  }
+}
+
+const registry = new Map<string, unknown>();
+let Element: typeof RadialDiagramElement;
+let define: (tagName?: string) => void;
+
+beforeAll(async () => {
+  Object.assign(globalThis, {
+    HTMLElement: FakeElement,
+    customElements: {
+      get: (name: string) => registry.get(name),
+      define: (name: string, ctor: unknown) => registry.set(name, ctor),
+    },
+  });
+  ({ RadialDiagramElement: Element, defineRadialDiagram: define } = await import('./element.js'));
+});
+
+const config: Partial<DiagramConfig> = {
+  center: { label: 'Hub', radius: 100, color: '#333333' },
+  segments: [
+    { name: 'Strategy', color: '#ff0000', facets: [{ name: 'Vision', score: 4 }, { name: 'Planning', score: 3 }] },
+    { name: 'People', color: '#0000ff', facets: [{ name: 'Skills' }] },
+  ],
+};
+
+function mount() {
+  const el = new Element();
+  const events: Array<[string, unknown]> = [];
+  for (const type of ['facet-hover', 'facet-leave', 'facet-click', 'error']) {
+    el.addEventListener(type, (e) => events.push([type, (e as CustomEvent).detail]));
+  }
+  return { el, events, html: () => el.shadowRoot!.innerHTML };
+}
+
+const pointer = (type: string, radius: number, angle: number) => {
+  const p = polarToCartesian(400, 400, radius, angle);
+  return Object.assign(new Event(type), { clientX: p.x + 70, clientY: p.y + 70 });
+};
+
+describe('RadialDiagramElement', () => {
+  it('renders a config property into the shadow root, with defaults', () => {
+    const { el, html } = mount();
+    expect(html()).toBe('');
+    el.config = config;
+    expect(html()).toMatch(/^<style>[^<]*<\/style><svg/);
+    expect(html()).toContain('Vision');
+    expect(el.config?.size).toBe(800);
+    expect(el.config?.style.showRings).toBe(true);
+
+    el.config = { ...config, center: { ...config.center!, label: 'Updated' } };
+    expect(html()).toContain('Updated');
+    el.config = undefined;
+    expect(html()).toBe('');
+  });
+
+  it('parses the config attribute as JSON', () => {
+    const { el, html, events } = mount();
+    el.attributeChangedCallback('config', null, JSON.stringify(config));
+    expect(html()).toContain('Strategy');
+    expect(el.config?.segments).toHaveLength(2);
+    el.attributeChangedCallback('config', null, null);
+    expect(html()).toBe('');
+    expect(events).toEqual([]);
+    expect(Element.observedAttributes).toEqual(['config']);
+  });
+
+  it('reports bad JSON and invalid configs as error events', () => {
+    const { el, html, events } = mount();
+    el.config = config;
+    el.attributeChangedCallback('config', null, '{ nope');
+    expect(html()).toBe('');
+    expect(el.config).toBeUndefined();
+    expect((events[0][1] as DiagramErrorDetail).error.message).toMatch(/^Invalid config attribute/);
+
+    el.config = { ...config, size: -1 };
+    expect(events[1][0]).toBe('error');
+    expect((events[1][1] as DiagramErrorDetail).error.message).toMatch(/Invalid diagram configuration/);
+  });
+
+  it('dispatches facet-hover and facet-leave as the pointer crosses facets', () => {
+    const { el, events } = mount();
+    el.config = config;
+    el.dispatchEvent(pointer('pointermove', 200, -45));
+    el.dispatchEvent(pointer('pointermove', 210, -40)); // Same facet: no event
+    el.dispatchEvent(pointer('pointermove', 200, 45));
+    el.dispatchEvent(pointer('pointermove', 0, 0)); // Hub
+    expect(events.map(([type, d]) => [type, (d as FacetEventDetail).facet.name])).toEqual([
+      ['facet-hover', 'Vision'],
+      ['facet-leave', 'Vision'],
+      ['facet-hover', 'Planning'],
+      ['facet-leave', 'Planning'],
+    ]);
+    const detail = events[0][1] as FacetEventDetail;
+    expect(detail).toMatchObject({ segmentIndex: 0, facetIndex: 0, segment: { name: 'Strategy' } });
+    expect(detail.score).toBeCloseTo(100 / 52);
+
+    el.dispatchEvent(pointer('pointermove', 200, 180));
+    el.dispatchEvent(new Event('pointerleave'));
+    expect(events.slice(4).map(([type]) => type)).toEqual(['facet-hover', 'facet-leave']);
+  });
+
+  it('lays the diagram out once per render, not on every pointer event', () => {
+    const { el, events } = mount();
+    el.config = config;
+    const calls = vi.mocked(computeLayout).mock.calls.length;
+    for (let angle = -90; angle < 270; angle += 30) el.dispatchEvent(pointer('pointermove', 200, angle));
+    el.dispatchEvent(pointer('click', 200, 180));
+    expect(events.length).toBeGreaterThan(2);
+    expect(vi.mocked(computeLayout).mock.calls.length).toBe(calls);
+  });
+
+  it('dispatches facet-click with the facet under the pointer', () => {
+    const { el, events } = mount();
+    el.config = config;
+    el.dispatchEvent(pointer('click', 200, 180));
+    el.dispatchEvent(pointer('click', 380, 45)); // Label band
+    expect(events).toHaveLength(1);
+    expect(events[0][0]).toBe('facet-click');
+    expect(events[0][1]).toMatchObject({ segmentIndex: 1, facetIndex: 0, facet: { name: 'Skills' } });
+  });
+
+  it('names the sub-facet under the pointer in sunburst mode', () => {
+    const { el, events } = mount();
+    const [strategy, people] = config.segments!;
+    const vision = { name: 'Vision', children: [{ name: 'Clarity', score: 4 }, { name: 'Reach', score: 2 }] };
+    el.config = { ...config, segments: [{ ...strategy, facets: [vision, strategy.facets[1]] }, people] };
+    // Rings 100→230 (Vision) and 230→360 (its sub-facets, Clarity on the left)
+    el.dispatchEvent(pointer('pointermove', 300, -60));
+    el.dispatchEvent(pointer('pointermove', 300, -30));
+    el.dispatchEvent(pointer('click', 300, -30));
+    el.dispatchEvent(pointer('click', 150, -30));
+    expect(events.map(([type, d]) => [type, (d as FacetEventDetail).facet.name, (d as FacetEventDetail).childPath])).toEqual([
+      ['facet-hover', 'Clarity', [0]],
+      ['facet-leave', 'Clarity', [0]],
+      ['facet-hover', 'Reach', [1]],
+      ['facet-click', 'Reach', [1]],
+      ['facet-click', 'Vision', undefined],
+    ]);
+    expect(events[3][1]).toMatchObject({ segmentIndex: 0, facetIndex: 0 });
+    expect((events[3][1] as FacetEventDetail).score).toBeCloseTo((70 / 130) * 5);
+  });
+
+    it('binds the styled tooltip for hover output', () => {
+    const { el } = mount();
+    const svg = { getBoundingClientRect: () => ({ left: 0, top: 0, width: 940, height: 940 }) };
+    el.shadowRoot!.querySelector = (selector: string) => (selector === 'svg' ? svg : null);
+    el.config = config;
+    expect(bindTooltip).not.toHaveBeenCalled();
+    el.config = { ...config, style: { interactive: 'hover' } } as Partial<DiagramConfig>;
+    expect(bindTooltip).toHaveBeenCalledWith(svg);
+  });
+
+  it('picks up a config property set before upgrade', () => {
+    const el = new Element();
+    Object.defineProperty(el, 'config', { value: config, writable: true, configurable: true, enumerable: true });
+    el.connectedCallback();
+    expect(el.shadowRoot!.innerHTML).toContain('Vision');
+  });
+
+  it('registers the element once', () => {
+    define();
+    define();
+    define('my-wheel');
+    expect(registry.get('radial-diagram')).toBe(Element);
+    expect(registry.get('my-wheel')).toBe(Element);
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * `<radial-diagram>` custom element: a framework-agnostic wrapper that
+ * renders a config into shadow DOM and reports facet hover / click
+ *
+ * @license MIT
+ * @copyright 2026 CGA Management Ltd
+ * @see https://www.cgamanagement.co.uk/category/tools
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { createConfig } from '../core/types.js';
+import type { DiagramConfig, Facet, Segment } from '../core/types.js';
+import { hitTest } from '../core/hittest.js';
+import { computeLayout } from '../core/layout.js';
+import type { DiagramLayout } from '../core/layout.js';
+import { renderDiagram } from '../renderers/svg.js';
+import { bindTooltip } from './tooltip.js';
+
+/** `detail` of the `facet-hover`, `facet-leave` and `facet-click` events */
+export interface FacetEventDetail {
+  segmentIndex: number;
+  facetIndex: number;
+  /** In sunburst mode, the child indices below `facetIndex` of the sub-facet under the pointer */
+  childPath?: number[];
+  segment: Segment;
+  /** The facet, or the sub-facet at `childPath` */
+  facet: Facet;
+  /** Score at the pointer's radius within the (sub-)facet's ring, clamped to the scale */
+  score: number;
+}
+
+/** `detail` of the `error` event */
+export interface DiagramErrorDetail {
+  error: Error;
+}
+
+// Shadow styles: let the SVG shrink with its container
+const SHADOW_STYLE = ':host{display:inline-block}svg{display:block;max-width:100%;height:auto}';
+
+// Without a DOM (SSR, Node tests of other modules) the class still has to be
+// declarable; it is only usable once registered in a browser.
+const Base = (typeof HTMLElement === 'undefined' ? class {} : HTMLElement) as typeof HTMLElement;
+
+/**
+ * `<radial-diagram>` element. Set the config as JSON in the `config`
+ * attribute or as an object on the `config` property; either may be partial
+ * (missing fields take the `createConfig` defaults). Every change re-renders
+ * through `renderDiagram` into an open shadow root.
+ *
+ * Events (all bubble and cross the shadow boundary):
+ * - `facet-hover` when the pointer moves onto a facet, `facet-leave` when it
+ *   moves off, and `facet-click` on click, each with a `FacetEventDetail`;
+ * - `error` with a `DiagramErrorDetail` when the JSON or the config is
+ *   invalid (the element is then left empty).
+ *
+ * Register it once with `defineRadialDiagram()`.
+ */
+export class RadialDiagramElement extends Base {
+  static get observedAttributes(): string[] {
+    return ['config'];
+  }
+
+  private current: DiagramConfig | undefined;
+  /** Layout of `current`, computed once per render for hit-testing */
+  private layout: DiagramLayout | undefined;
+  private hovered: FacetEventDetail | undefined;
+
+  constructor() {
+    super();
+    this.attachShadow({ mode: 'open' });
+    this.addEventListener('pointermove', (e) => this.onPointerMove(e as PointerEvent));
+    this.addEventListener('pointerleave', () => this.setHovered(undefined));
+    this.addEventListener('click', (e) => this.onClick(e as MouseEvent));
+  }
+
+  /** The rendered config, with defaults applied (undefined until one is set) */
+  get config(): DiagramConfig | undefined {
+    return this.current;
+  }
+
+  set config(config: Partial<DiagramConfig> | undefined) {
+    this.update(config);
+  }
+
+  connectedCallback(): void {
+    // A `config` property set before the element was upgraded shadows the
+    // accessor; move it onto the accessor.
+    if (Object.prototype.hasOwnProperty.call(this, 'config')) {
+      const config = (this as { config?: Partial<DiagramConfig> }).config;
+      delete (this as { config?: Partial<DiagramConfig> }).config;
+      this.config = config;
+    }
+  }
+
+  attributeChangedCallback(name: string, _oldValue: string | null, value: string | null): void {
+    if (name !== 'config') return;
+    if (value === null) {
+      this.update(undefined);
+      return;
+    }
+    let parsed: Partial<DiagramConfig>;
+    try {
+      parsed = JSON.parse(value);
+    } catch (err) {
+      this.fail(new Error(`Invalid config attribute: ${(err as Error).message}`));
+      return;
+    }
+    this.update(parsed);
+  }
+
+  private update(config: Partial<DiagramConfig> | undefined): void {
+    this.setHovered(undefined);
+    const root = this.shadowRoot as ShadowRoot;
+    if (!config) {
+      this.current = undefined;
+      this.layout = undefined;
+      root.innerHTML = '';
+      return;
+    }
+    const resolved = createConfig(config);
+    let svg: string;
+    let layout: DiagramLayout;
+    try {
+      svg = renderDiagram(resolved);
+      layout = computeLayout(resolved);
+    } catch (err) {
+      this.fail(err as Error);
+      return;
+    }
+    this.current = resolved;
+    this.layout = layout;
+    root.innerHTML = `<style>${SHADOW_STYLE}</style>${svg}`;
+    // The SVG's inline tooltip script does not run inside a shadow root
+    const svgElement = root.querySelector('svg');
+    if (resolved.style.interactive === 'hover' && svgElement) bindTooltip(svgElement);
+  }
+
+  private fail(error: Error): void {
+    this.current = undefined;
+    this.layout = undefined;
+    (this.shadowRoot as ShadowRoot).innerHTML = '';
+    this.emit<DiagramErrorDetail>('error', { error });
+  }
+
+  private emit<T>(type: string, detail: T): void {
+    this.dispatchEvent(new CustomEvent<T>(type, { detail, bubbles: true, composed: true }));
+  }
+
+  // ---------- pointer ----------
+
+  /** Facet under a pointer event, if any. */
+  private facetAt(event: MouseEvent): FacetEventDetail | undefined {
+    const { current: config, layout } = this;
+    if (!config || !layout) return undefined;
+    const target = this.shadowRoot?.querySelector('svg') ?? this;
+    const rect = target.getBoundingClientRect();
+    const hit = hitTest(config, event.clientX - rect.left, event.clientY - rect.top, { width: rect.width, layout });
+    if (!hit || hit.facetIndex === undefined || hit.segmentIndex === undefined || hit.score === undefined) {
+      return undefined;
+    }
+    const segment = config.segments[hit.segmentIndex];
+    let facet: Facet | undefined = segment.facets[hit.facetIndex];
+    for (const k of hit.childPath ?? []) facet = facet?.children?.[k];
+    if (!facet) return undefined;
+    return {
+      segmentIndex: hit.segmentIndex,
+      facetIndex: hit.facetIndex,
+      ...(hit.childPath && { childPath: hit.childPath }),
+      segment,
+      facet,
+      score: hit.score,
+    };
+  }
+
+  private setHovered(next: FacetEventDetail | undefined): void {
+    const prev = this.hovered;
+    if (
+      prev?.segmentIndex === next?.segmentIndex
+      && prev?.facetIndex === next?.facetIndex
+      && prev?.childPath?.join('.') === next?.childPath?.join('.')
+    ) {
+      this.hovered = next;
+      return;
+    }
+    this.hovered = next;
+    if (prev) this.emit('facet-leave', prev);
+    if (next) this.emit('facet-hover', next);
+  }
+
+  private onPointerMove(event: PointerEvent): void {
+    this.setHovered(this.facetAt(event));
+  }
+
+  private onClick(event: MouseEvent): void {
+    const facet = this.facetAt(event);
+    if (facet) this.emit('facet-click', facet);
+  }
+}
+
+/**
+ * Register `RadialDiagramElement` as a custom element (once; later calls
+ * are no-ops)
+ * @param tagName Element name. Default `'radial-diagram'`.
+ */
+export function defineRadialDiagram(tagName = 'radial-diagram'): void {
+  if (!customElements.get(tagName)) {
+    customElements.define(tagName, RadialDiagramElement);
+  }
+}
@@ -0,0 +1,201 @@
+import { describe, it, expect } from 'vitest';
+import { ScoreEditor, ScoreChangeDetail } from './score-editor.js';
+import { polarToCartesian } from '../core/geometry.js';
+import { DEFAULT_STYLE, DEFAULT_SCALE, DiagramConfig } from '../core/types.js';
+
+const config: DiagramConfig = {
+  size: 800,
+  startAngle: -90,
+  center: { label: 'Hub', radius: 100, color: '#333333' },
+  scale: { ...DEFAULT_SCALE },
+  segments: [
+    {
+      name: 'Strategy',
+      color: '#ff0000',
+      facets: [
+        { name: 'Vision', score: 4 },
+        { name: 'Planning', score: 3 },
+      ],
+    },
+    { name: 'People', color: '#0000ff', facets: [{ name: 'Skills' }] },
+  ],
+  style: { ...DEFAULT_STYLE },
+};
+
+type Listener = (event: unknown) => void;
+
+/**
+ * Headless stand-in for the host element: stores attributes and listeners,
+ * and lays the diagram out at 940px so pixels equal viewBox units.
+ */
+function fakeElement() {
+  const attributes = new Map<string, string>();
+  const listeners = new Map<string, Listener>();
+  const element = {
+    innerHTML: '',
+    style: {} as Record<string, string>,
+    captured: undefined as number | undefined,
+    hasAttribute: (name: string) => attributes.has(name),
+    getAttribute: (name: string) => attributes.get(name) ?? null,
+    setAttribute: (name: string, value: string) => void attributes.set(name, value),
+    removeAttribute: (name: string) => void attributes.delete(name),
+    addEventListener: (type: string, listener: Listener) => void listeners.set(type, listener),
+    removeEventListener: (type: string) => void listeners.delete(type),
+    querySelector: () => null,
+    getBoundingClientRect: () => ({ left: 0, top: 0, width: 940, height: 940 }),
+    focus: () => undefined,
+    setPointerCapture: (id: number) => void (element.captured = id),
+    releasePointerCapture: () => void (element.captured = undefined),
+  };
+  const fire = (type: string, event: object) =>
+    listeners.get(type)?.({ pointerId: 1, button: 0, preventDefault: () => undefined, ...event });
+  return { element, listeners, fire };
+}
+
+/** Pointer event fields at a polar position on the fake element. */
+const at = (radius: number, angle: number) => {
+  const p = polarToCartesian(400, 400, radius, angle);
+  return { clientX: p.x + 70, clientY: p.y + 70 };
+};
+
+function mount(cfg = config, options = {}) {
+  const fake = fakeElement();
+  const editor = new ScoreEditor(fake.element as unknown as HTMLElement, cfg, options);
+  const changes: ScoreChangeDetail[] = [];
+  editor.addEventListener('change', (e) => changes.push((e as CustomEvent<ScoreChangeDetail>).detail));
+  return { ...fake, editor, changes };
+}
+
+describe('ScoreEditor', () => {
+  it('renders the diagram into the element as a focusable slider', () => {
+    const { element } = mount();
+    expect(element.innerHTML).toMatch(/^<svg/);
+    expect(element.getAttribute('tabindex')).toBe('0');
+    expect(element.getAttribute('role')).toBe('slider');
+  });
+
+  it('sets a score by dragging, snapped to whole steps', () => {
+    const { element, fire, changes, editor } = mount();
+    fire('pointerdown', at(300, -45));
+    expect(element.captured).toBe(1);
+    expect(changes).toEqual([]); // 300 snaps to 4, unchanged
+
+    fire('pointermove', at(180, -45));
+    fire('pointermove', at(185, -45)); // still 2: no second event
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({ segmentIndex: 0, facetIndex: 0, score: 2 });
+    expect(changes[0].config.segments[0].facets[0].score).toBe(2);
+    expect(editor.config).toBe(changes[0].config);
+    expect(config.segments[0].facets[0].score).toBe(4); // Input not mutated
+
+    // Dragging keeps the facet even past the wheel, clamped to the scale
+    fire('pointermove', at(450, 180));
+    expect(changes[1]).toMatchObject({ segmentIndex: 0, facetIndex: 0, score: 5 });
+
+    fire('pointerup', {});
+    expect(element.captured).toBeUndefined();
+    fire('pointermove', at(120, -45));
+    expect(changes).toHaveLength(2);
+  });
+
+  it('scores an unscored facet from its track', () => {
+    const { fire, changes } = mount();
+    fire('pointerdown', at(250, 180));
+    expect(changes[0]).toMatchObject({ segmentIndex: 1, facetIndex: 0, score: 3 });
+  });
+
+  it('ignores presses off the facets', () => {
+    const { fire, changes, element } = mount();
+    fire('pointerdown', at(50, 0));
+    fire('pointerdown', at(380, 45));
+    fire('pointermove', at(200, 45));
+    expect(changes).toEqual([]);
+    expect(element.captured).toBeUndefined();
+  });
+
+  it('snaps to a custom step and edits a named series', () => {
+    const cfg: DiagramConfig = {
+      ...config,
+      series: [{ key: 'now' }],
+      segments: [{ name: 'S', color: '#ff0000', facets: [{ name: 'F', scores: { now: 1 } }] }],
+    };
+    const { fire, changes } = mount(cfg, { step: 0.5, series: 'now' });
+    fire('pointerdown', at(100 + 52 * 2.6, 0));
+    expect(changes[0].score).toBe(2.5);
+    expect(changes[0].config.segments[0].facets[0].scores).toEqual({ now: 2.5 });
+  });
+
+  it('defaults the step to one ring of the scale', () => {
+    const scored = (score: number): DiagramConfig['segments'] => [
+      { name: 'S', color: '#ff0000', facets: [{ name: 'F', score }] },
+    ];
+    const ratio = mount({ ...config, scale: { min: 0, max: 1, rings: 4, mapping: 'linear' }, segments: scored(1) });
+    ratio.fire('keydown', { key: 'ArrowDown' });
+    ratio.fire('keydown', { key: 'ArrowDown' });
+    expect(ratio.changes.map((c) => c.score)).toEqual([0.75, 0.5]);
+
+    // 101 levels over 10 rings: 10 levels a step
+    const percent = mount({ ...config, scale: { min: 0, max: 100, rings: 10 }, segments: scored(40) });
+    percent.fire('keydown', { key: 'ArrowUp' });
+    percent.fire('keydown', { key: 'Home' });
+    percent.fire('keydown', { key: 'ArrowUp' });
+    expect(percent.changes.map((c) => c.score)).toEqual([50, 0, 10]);
+  });
+
+  it('rejects a series that is not in the config', () => {
+    expect(() => mount(config, { series: 'target' })).toThrow('series "target" is not in config.series');
+    const { editor } = mount({ ...config, series: [{ key: 'target' }] }, { series: 'target' });
+    expect(() => editor.setConfig(config)).toThrow('series "target" is not in config.series');
+  });
+
+  it('selects facets and changes scores with the keyboard', () => {
+    const { element, fire, changes } = mount();
+    fire('keydown', { key: 'ArrowRight' });
+    expect(element.getAttribute('aria-label')).toBe('Vision (Strategy)');
+    expect(element.getAttribute('aria-valuenow')).toBe('4');
+    expect(element.innerHTML).toContain('class="rd-focus"');
+
+    fire('keydown', { key: 'ArrowUp' });
+    fire('keydown', { key: 'ArrowUp' }); // Already at max
+    expect(changes.map((c) => c.score)).toEqual([5]);
+
+    fire('keydown', { key: 'ArrowLeft' }); // Wraps to the last facet
+    expect(element.getAttribute('aria-label')).toBe('Skills (People)');
+    expect(element.getAttribute('aria-valuetext')).toBe('not scored');
+    fire('keydown', { key: 'ArrowDown' });
+    fire('keydown', { key: 'End' });
+    expect(changes.slice(1).map((c) => [c.segmentIndex, c.score])).toEqual([[1, 1], [1, 5]]);
+    expect(element.getAttribute('aria-valuenow')).toBe('5');
+  });
+
+  it('edits sub-facets in their own ring', () => {
+    const cfg: DiagramConfig = {
+      ...config,
+      segments: [
+        { ...config.segments[0], facets: [{ name: 'Vision', children: [{ name: 'Clarity', score: 4 }, { name: 'Reach' }] }] },
+        config.segments[1],
+      ],
+    };
+    const { element, fire, changes } = mount(cfg);
+    // Rings 100→230 and 230→360: 26 units per level
+    fire('pointerdown', at(230 + 26 * 2, -45));
+    expect(changes[0]).toMatchObject({ segmentIndex: 0, facetIndex: 0, childPath: [0], score: 2 });
+    expect(changes[0].config.segments[0].facets[0].children?.[0].score).toBe(2);
+    fire('pointerup', {});
+
+    // Arrow keys walk sub-facets straight after their parent
+    fire('keydown', { key: 'ArrowRight' });
+    expect(element.getAttribute('aria-label')).toBe('Reach (Strategy)');
+    fire('keydown', { key: 'End' });
+    expect(changes[1]).toMatchObject({ childPath: [1], score: 5 });
+  });
+
+  it('replaces the config without a change event, and detaches on destroy', () => {
+    const { editor, listeners, changes, element } = mount();
+    editor.setConfig({ ...config, center: { ...config.center, label: 'New hub' } });
+    expect(element.innerHTML).toContain('New hub');
+    expect(changes).toEqual([]);
+    editor.destroy();
+    expect(listeners.size).toBe(0);
+  });
+});
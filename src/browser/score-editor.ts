@@ -0,0 +1,374 @@
+/**
+ * Drag-to-score editing: mounts a rendered diagram into a DOM element and
+ * lets users set facet scores on the wheel itself
+ *
+ * @license MIT
+ * @copyright 2026 CGA Management Ltd
+ * @see https://www.cgamanagement.co.uk/category/tools
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import type { DiagramConfig, Facet, ScaleConfig } from '../core/types.js';
+import { cartesianToPolar, radiusToScore, segmentPath } from '../core/geometry.js';
+import { computeLayout } from '../core/layout.js';
+import type { DiagramLayout } from '../core/layout.js';
+import { hitTest } from '../core/hittest.js';
+import { escapeXml } from '../core/escape.js';
+import { SVGRenderer } from '../renderers/svg.js';
+
+/** Options for `ScoreEditor` */
+export interface ScoreEditorOptions {
+  /**
+   * Score increment that drags and arrow keys snap to. Defaults to one ring
+   * of `config.scale`: `(max - min) / rings`, or with the `'level'` mapping
+   * the whole number of levels per ring (1 on a 1-5 scale with 5 rings).
+   */
+  step?: number;
+  /**
+   * Key of the score series to edit (`facet.scores[key]`); must be one of
+   * `config.series`. Defaults to `facet.score`.
+   */
+  series?: string;
+  /** Outline colour of the facet selected for keyboard editing. Default `'#1d4ed8'`. */
+  focusColor?: string;
+}
+
+/** `detail` of the `change` event */
+export interface ScoreChangeDetail {
+  /** The whole updated configuration (a new object; the input is not mutated) */
+  config: DiagramConfig;
+  segmentIndex: number;
+  facetIndex: number;
+  /** Child indices below `facetIndex` when a sub-facet was edited */
+  childPath?: number[];
+  score: number;
+}
+
+interface FacetRef {
+  segmentIndex: number;
+  facetIndex: number;
+  childPath?: number[];
+}
+
+/** Every facet and sub-facet of a config, depth first. */
+function facetRefs(config: DiagramConfig): FacetRef[] {
+  const refs: FacetRef[] = [];
+  const visit = (ref: FacetRef, facet: Facet): void => {
+    refs.push(ref);
+    facet.children?.forEach((child, k) =>
+      visit({ segmentIndex: ref.segmentIndex, facetIndex: ref.facetIndex, childPath: [...(ref.childPath ?? []), k] }, child)
+    );
+  };
+  config.segments.forEach((segment, segmentIndex) =>
+    segment.facets.forEach((facet, facetIndex) => visit({ segmentIndex, facetIndex }, facet))
+  );
+  return refs;
+}
+
+/** Score between two rings of `scale`, the default `step`; 1 when the scale is flat. */
+function ringStep({ min, max, rings, mapping }: ScaleConfig): number {
+  const step = (mapping ?? 'level') === 'level'
+    ? Math.max(1, Math.round((max - min + 1) / rings))
+    : (max - min) / rings;
+  return step > 0 ? step : 1;
+}
+
+/** True when two refs name the same facet or sub-facet. */
+function sameRef(a: FacetRef, b: FacetRef): boolean {
+  return a.segmentIndex === b.segmentIndex && a.facetIndex === b.facetIndex
+    && (a.childPath ?? []).join('.') === (b.childPath ?? []).join('.');
+}
+
+/** A copy of `facet` with `update` applied to the sub-facet at `path` (or to itself). */
+function updateFacet(facet: Facet, path: number[], update: (facet: Facet) => Facet): Facet {
+  if (path.length === 0) return update(facet);
+  const [k, ...rest] = path;
+  return { ...facet, children: facet.children?.map((child, i) => (i === k ? updateFacet(child, rest, update) : child)) };
+}
+
+/**
+ * Renders a diagram into `element` and makes its facets (and sub-facets) editable:
+ *
+ * - drag a facet's fill edge outward or inward (or press anywhere on its
+ *   track) to set its score, snapped to `options.step`;
+ * - with the element focused, Left/Right arrows select the previous/next
+ *   facet, Up/Down raise/lower its score by one step and Home/End set the
+ *   scale minimum/maximum.
+ *
+ * Every score change re-renders the diagram and dispatches a `change`
+ * `CustomEvent` whose `detail` is a `ScoreChangeDetail`. The element is
+ * exposed to assistive technology as a slider for the selected facet.
+ */
+export class ScoreEditor extends EventTarget {
+  private element: HTMLElement;
+  private options: ScoreEditorOptions;
+  private current: DiagramConfig;
+  private layout: DiagramLayout;
+  private selected: FacetRef | undefined;
+  private dragging: { ref: FacetRef; pointerId: number } | undefined;
+  private listeners: Array<[string, (event: Event) => void]>;
+
+  constructor(element: HTMLElement, config: DiagramConfig, options: ScoreEditorOptions = {}) {
+    super();
+    this.element = element;
+    this.options = options;
+    this.checkSeries(config);
+    this.current = config;
+    this.layout = computeLayout(config);
+
+    if (!element.hasAttribute('tabindex')) element.setAttribute('tabindex', '0');
+    element.setAttribute('role', 'slider');
+    element.style.touchAction = 'none'; // Keep touch drags from scrolling the page
+
+    this.listeners = [
+      ['pointerdown', (e) => this.onPointerDown(e as PointerEvent)],
+      ['pointermove', (e) => this.onPointerMove(e as PointerEvent)],
+      ['pointerup', (e) => this.onPointerUp(e as PointerEvent)],
+      ['pointercancel', (e) => this.onPointerUp(e as PointerEvent)],
+      ['keydown', (e) => this.onKeyDown(e as KeyboardEvent)],
+    ];
+    this.listeners.forEach(([type, listener]) => element.addEventListener(type, listener));
+    this.render();
+  }
+
+  /** The configuration currently shown */
+  get config(): DiagramConfig {
+    return this.current;
+  }
+
+  /** Replace the configuration (e.g. after a form edit) and re-render. No `change` event is sent. */
+  setConfig(config: DiagramConfig): void {
+    this.checkSeries(config);
+    this.layout = computeLayout(config);
+    this.current = config;
+    if (this.selected && !this.facetAt(this.selected)) this.selected = undefined;
+    this.render();
+  }
+
+  /** Remove the event listeners. The rendered diagram stays in place. */
+  destroy(): void {
+    this.listeners.forEach(([type, listener]) => this.element.removeEventListener(type, listener));
+    this.listeners = [];
+  }
+
+  // ---------- scores ----------
+
+  /** Throw when `options.series` names no series of `config`. */
+  private checkSeries(config: DiagramConfig): void {
+    const key = this.options.series;
+    if (key && !config.series?.some((series) => series.key === key)) {
+      throw new Error(`series "${key}" is not in config.series`);
+    }
+  }
+
+  /** The snapping increment: `options.step`, or one ring of the scale. */
+  private get step(): number {
+    return this.options.step ?? ringStep(this.current.scale);
+  }
+
+  private facetAt({ segmentIndex, facetIndex, childPath }: FacetRef): Facet | undefined {
+    let facet: Facet | undefined = this.current.segments[segmentIndex]?.facets[facetIndex];
+    childPath?.forEach((k) => {
+      facet = facet?.children?.[k];
+    });
+    return facet;
+  }
+
+  private scoreOf(ref: FacetRef): number | undefined {
+    const facet = this.facetAt(ref);
+    const key = this.options.series;
+    return key ? facet?.scores?.[key] : facet?.score;
+  }
+
+  /** Round to the nearest step from the scale minimum, within the scale. */
+  private snap(score: number): number {
+    const { min, max } = this.current.scale;
+    const step = this.step;
+    const snapped = min + Math.round((score - min) / step) * step;
+    // Strip float noise from fractional steps (e.g. 0.1 + 0.2)
+    return Math.min(max, Math.max(min, Number(snapped.toFixed(10))));
+  }
+
+  /** Set a facet's score, re-render and dispatch `change`; nothing happens when it is unchanged. */
+  private setScore(ref: FacetRef, score: number): void {
+    const value = this.snap(score);
+    if (this.scoreOf(ref) === value) return;
+    const key = this.options.series;
+    const config: DiagramConfig = {
+      ...this.current,
+      segments: this.current.segments.map((segment, s) =>
+        s !== ref.segmentIndex
+          ? segment
+          : {
+              ...segment,
+              facets: segment.facets.map((facet, f) => {
+                if (f !== ref.facetIndex) return facet;
+                return updateFacet(facet, ref.childPath ?? [], (target) =>
+                  key ? { ...target, scores: { ...target.scores, [key]: value } } : { ...target, score: value }
+                );
+              }),
+            }
+      ),
+    };
+    this.setConfig(config);
+    const detail: ScoreChangeDetail = { config, ...ref, score: value };
+    this.dispatchEvent(new CustomEvent<ScoreChangeDetail>('change', { detail }));
+  }
+
+  // ---------- pointer and keyboard ----------
+
+  /** Pointer position in pixels from the rendered diagram's top-left corner, and its width. */
+  private localPoint(event: PointerEvent): { x: number; y: number; width: number } {
+    const target = this.element.querySelector('svg') ?? this.element;
+    const rect = target.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top, width: rect.width };
+  }
+
+  /** Inner and outer radius of the ring a facet is scored in (the whole wheel without sub-facets). */
+  private ringOf(ref: FacetRef): [number, number] {
+    const { levels, innerRadius, outerRadius } = this.layout;
+    if (!levels) return [innerRadius, outerRadius];
+    const depth = ref.childPath?.length ?? 0;
+    return [levels[depth], levels[depth + 1]];
+  }
+
+  /** Score for `ref` from the pointer's distance to the centre, wherever it is. */
+  private scoreAtPointer(event: PointerEvent, ref: FacetRef): number {
+    const { x, y, width } = this.localPoint(event);
+    const { center, padding, viewSize } = this.layout;
+    const toView = viewSize / width;
+    const { radius } = cartesianToPolar(center.x, center.y, x * toView - padding, y * toView - padding);
+    const { min, max, mapping } = this.current.scale;
+    const [innerRadius, outerRadius] = this.ringOf(ref);
+    return radiusToScore(radius, min, max, innerRadius, outerRadius, mapping);
+  }
+
+  private onPointerDown(event: PointerEvent): void {
+    if (event.button !== undefined && event.button !== 0) return;
+    const { x, y, width } = this.localPoint(event);
+    const hit = hitTest(this.current, x, y, { width, layout: this.layout });
+    if (!hit || hit.facetIndex === undefined || (hit.region !== 'fill' && hit.region !== 'track')) return;
+    const ref: FacetRef = { segmentIndex: hit.segmentIndex as number, facetIndex: hit.facetIndex };
+    if (hit.childPath) ref.childPath = hit.childPath;
+    event.preventDefault();
+    this.element.focus?.();
+    this.element.setPointerCapture?.(event.pointerId);
+    this.dragging = { ref, pointerId: event.pointerId };
+    this.selected = ref;
+    this.element.style.cursor = 'grabbing';
+    this.render();
+    this.setScore(ref, this.scoreAtPointer(event, ref));
+  }
+
+  private onPointerMove(event: PointerEvent): void {
+    if (this.dragging && event.pointerId === this.dragging.pointerId) {
+      this.setScore(this.dragging.ref, this.scoreAtPointer(event, this.dragging.ref));
+      return;
+    }
+    // Hint at draggable facets
+    const { x, y, width } = this.localPoint(event);
+    const hit = hitTest(this.current, x, y, { width, layout: this.layout });
+    const region = hit?.facetIndex === undefined ? undefined : hit.region;
+    this.element.style.cursor = region === 'fill' || region === 'track' ? 'grab' : '';
+  }
+
+  private onPointerUp(event: PointerEvent): void {
+    if (!this.dragging || event.pointerId !== this.dragging.pointerId) return;
+    this.element.releasePointerCapture?.(event.pointerId);
+    this.dragging = undefined;
+    this.element.style.cursor = '';
+  }
+
+  private onKeyDown(event: KeyboardEvent): void {
+    const facets = facetRefs(this.current);
+    if (facets.length === 0) return;
+    const selected = this.selected;
+    const index = selected ? facets.findIndex((r) => sameRef(r, selected)) : -1;
+    const ref = facets[Math.max(0, index)];
+    const { min, max } = this.current.scale;
+    const step = this.step;
+    const score = this.scoreOf(ref);
+
+    switch (event.key) {
+      case 'ArrowRight':
+      case 'ArrowLeft': {
+        const delta = event.key === 'ArrowRight' ? 1 : -1;
+        this.selected = index === -1 ? facets[0] : facets[(index + delta + facets.length) % facets.length];
+        this.render();
+        break;
+      }
+      case 'ArrowUp':
+      case 'ArrowDown':
+      case 'Home':
+      case 'End': {
+        const target = {
+          ArrowUp: score === undefined ? min : score + step,
+          ArrowDown: score === undefined ? min : score - step,
+          Home: min,
+          End: max,
+        }[event.key];
+        this.selected = ref;
+        this.render();
+        this.setScore(ref, target);
+        break;
+      }
+      default:
+        return;
+    }
+    event.preventDefault();
+  }
+
+  // ---------- output ----------
+
+  /** Render the SVG with an outline around the selected facet, and update the slider ARIA state. */
+  private render(): void {
+    let svg = new SVGRenderer(this.current).render();
+    const ref = this.selected;
+    const el = this.element;
+    if (!ref) {
+      el.setAttribute('aria-label', 'Select a facet with the arrow keys');
+      el.removeAttribute('aria-valuenow');
+      el.removeAttribute('aria-valuetext');
+      el.innerHTML = svg;
+      return;
+    }
+
+    const { center, spans } = this.layout;
+    let span = spans[ref.segmentIndex].facets[ref.facetIndex];
+    ref.childPath?.forEach((k) => {
+      span = span.children[k];
+    });
+    const [innerRadius, outerRadius] = this.ringOf(ref);
+    const d = segmentPath(center.x, center.y, innerRadius, outerRadius, span.startAngle, span.endAngle);
+    const outline = `<path class="rd-focus" d="${d}" fill="none" stroke="${escapeXml(this.options.focusColor ?? '#1d4ed8')}" stroke-width="3" pointer-events="none" />`;
+    svg = svg.replace(/<\/svg>$/, `${outline}\n</svg>`);
+
+    const facet = this.facetAt(ref) as Facet;
+    const segment = this.current.segments[ref.segmentIndex];
+    const score = this.scoreOf(ref);
+    el.setAttribute('aria-label', `${facet.name.replace(/\n/g, ' ')} (${segment.name.replace(/\n/g, ' ')})`);
+    el.setAttribute('aria-valuemin', String(this.current.scale.min));
+    el.setAttribute('aria-valuemax', String(this.current.scale.max));
+    if (score === undefined || score === null) {
+      el.removeAttribute('aria-valuenow');
+      el.setAttribute('aria-valuetext', 'not scored');
+    } else {
+      el.setAttribute('aria-valuenow', String(score));
+      el.removeAttribute('aria-valuetext');
+    }
+    el.innerHTML = svg;
+  }
+}
+
+/**
+ * Convenience function to mount an editable diagram into an element
+ */
+export function mountScoreEditor(
+  element: HTMLElement,
+  config: DiagramConfig,
+  options?: ScoreEditorOptions
+): ScoreEditor {
+  return new ScoreEditor(element, config, options);
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { bindTooltip } from './tooltip.js';
+
+/** Just enough of an SVG DOM tree for `bindTooltip`: classes, children and attributes. */
+class FakeNode extends EventTarget {
+  attributes: Record<string, string> = {};
+  children: FakeNode[] = [];
+  textContent = '';
+  constructor(readonly tagName: string, readonly className = '') {
+    super();
+  }
+  get firstChild() {
+    return this.children[0] ?? null;
+  }
+  setAttribute(name: string, value: string) {
+    this.attributes[name] = value;
+  }
+  appendChild(child: FakeNode) {
+    this.children.push(child);
+    return child;
+  }
+  removeChild(child: FakeNode) {
+    this.children = this.children.filter((c) => c !== child);
+    return child;
+  }
+  querySelector(selector: string) {
+    return this.querySelectorAll(selector)[0] ?? null;
+  }
+  querySelectorAll(selector: string) {
+    const wanted = selector.split(',').map((s) => s.trim());
+    const found: FakeNode[] = [];
+    const walk = (node: FakeNode) =>
+      node.children.forEach((child) => {
+        if (wanted.some((s) => s === child.tagName || s === `.${child.className}`)) found.push(child);
+        walk(child);
+      });
+    walk(this);
+    return found;
+  }
+  getBBox() {
+    return { width: 60, height: 30 };
+  }
+}
+
+class FakeSvg extends FakeNode {
+  ownerDocument = { createElementNS: (_ns: string, tag: string) => new FakeNode(tag) };
+  constructor() {
+    super('svg');
+  }
+  createSVGPoint() {
+    return { x: 0, y: 0, matrixTransform(this: { x: number; y: number }) { return { x: this.x - 70, y: this.y - 70 }; } };
+  }
+  getScreenCTM() {
+    return { inverse: () => ({}) };
+  }
+}
+
+function diagram(withTooltip = true) {
+  const svg = new FakeSvg();
+  const hotspot = svg.appendChild(new FakeNode('path', 'facet-hotspot'));
+  hotspot.appendChild(new FakeNode('title')).textContent = 'Vision\nScore: 4 / 5';
+  const tip = new FakeNode('g', 'rd-tooltip');
+  tip.appendChild(new FakeNode('rect'));
+  tip.appendChild(new FakeNode('text'));
+  if (withTooltip) svg.appendChild(tip);
+  return { svg, hotspot, tip };
+}
+
+const mouse = (type: string, x: number, y: number) => Object.assign(new Event(type), { clientX: x, clientY: y });
+
+describe('bindTooltip', () => {
+  it('moves titles to aria-labels and fills the tooltip on hover', () => {
+    const { svg, hotspot, tip } = diagram();
+    bindTooltip(svg as unknown as SVGSVGElement);
+    expect(hotspot.attributes['aria-label']).toBe('Vision. Score: 4 / 5');
+    expect(hotspot.querySelector('title')).toBeNull();
+
+    hotspot.dispatchEvent(mouse('mousemove', 170, 120));
+    const text = tip.querySelector('text')!;
+    expect(text.children.map((t) => t.textContent)).toEqual(['Vision', 'Score: 4 / 5']);
+    expect(text.children[0].attributes.class).toBe('rd-tooltip-title');
+    expect(tip.attributes).toMatchObject({ visibility: 'visible', transform: 'translate(114,64)' });
+    expect(tip.querySelector('rect')!.attributes).toEqual({ width: '76', height: '40' });
+
+    hotspot.dispatchEvent(new Event('mouseleave'));
+    expect(tip.attributes.visibility).toBe('hidden');
+  });
+
+  it('leaves an SVG without a tooltip group alone', () => {
+    const { svg, hotspot } = diagram(false);
+    bindTooltip(svg as unknown as SVGSVGElement);
+    expect(hotspot.attributes['aria-label']).toBeUndefined();
+    expect(hotspot.querySelector('title')).not.toBeNull();
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Styled hover tooltip for SVG rendered with `style.interactive: 'hover'`,
+ * bound from script for embeds where the SVG's own inline script cannot run
+ *
+ * @license MIT
+ * @copyright 2026 CGA Management Ltd
+ * @see https://www.cgamanagement.co.uk/category/tools
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+/**
+ * Wire up the `.rd-tooltip` group of a rendered diagram: each hotspot's
+ * `<title>` lines become an `aria-label` and fill the tooltip while the
+ * pointer is over it. Does the same as the inline script `SVGRenderer`
+ * writes, which does not run when the SVG is inserted with `innerHTML` or
+ * into a shadow root (as `<radial-diagram>` does). Does nothing when the SVG
+ * has no tooltip group.
+ * @param svg The rendered `<svg>` element
+ */
+export function bindTooltip(svg: SVGSVGElement): void {
+  const tip = svg.querySelector('.rd-tooltip');
+  const box = tip?.querySelector('rect');
+  const text = tip?.querySelector('text');
+  if (!tip || !box || !text) return;
+
+  const show = (lines: string[], event: MouseEvent) => {
+    while (text.firstChild) text.removeChild(text.firstChild);
+    lines.forEach((line, i) => {
+      const tspan = svg.ownerDocument.createElementNS(SVG_NS, 'tspan');
+      tspan.setAttribute('x', '8');
+      tspan.setAttribute('dy', i === 0 ? '1.1em' : '1.3em');
+      if (i === 0) tspan.setAttribute('class', 'rd-tooltip-title');
+      tspan.textContent = line;
+      text.appendChild(tspan);
+    });
+    tip.setAttribute('visibility', 'visible');
+    const bb = text.getBBox();
+    box.setAttribute('width', String(bb.width + 16));
+    box.setAttribute('height', String(bb.height + 10));
+    const point = svg.createSVGPoint();
+    point.x = event.clientX;
+    point.y = event.clientY;
+    const p = point.matrixTransform(svg.getScreenCTM()?.inverse());
+    tip.setAttribute('transform', `translate(${p.x + 14},${p.y + 14})`);
+  };
+
+  svg.querySelectorAll('.facet-hotspot, .segment-hotspot').forEach((el) => {
+    const title = el.querySelector('title');
+    if (!title) return;
+    const lines = (title.textContent ?? '').split('\n');
+    el.setAttribute('aria-label', lines.join('. '));
+    el.removeChild(title);
+    el.addEventListener('mousemove', (event) => show(lines, event as MouseEvent));
+    el.addEventListener('mouseleave', () => tip.setAttribute('visibility', 'hidden'));
+  });
+}
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { scoreStats, segmentStats, diagramStats, formatStats, segmentSubLabel, facetFigure, centerSubtitle } from './aggregate.js';
+import { DEFAULT_STYLE, DEFAULT_SCALE, DiagramConfig } from './types.js';
+
+const config: DiagramConfig = {
+  size: 800,
+  startAngle: -90,
+  center: { label: 'Hub', radius: 100, color: '#333333', subtitle: 'Overall {mean:0.1}' },
+  scale: { ...DEFAULT_SCALE },
+  segments: [
+    {
+      name: 'Strategy',
+      color: '#ff0000',
+      subLabel: '{mean:0.0}',
+      facets: [
+        { name: 'Vision', score: 4, figure: '{pct}%' },
+        { name: 'Planning', score: 3 },
+        { name: 'Delivery', score: 2.5 },
+      ],
+    },
+    { name: 'People', color: '#0000ff', subLabel: '{pct}% of scale', facets: [{ name: 'Skills' }] },
+  ],
+  style: { ...DEFAULT_STYLE },
+};
+
+describe('scoreStats', () => {
+  it('computes mean, median, min, max, percentage of the scale and count', () => {
+    expect(scoreStats([4, undefined, 1, 2, null, 5], DEFAULT_SCALE)).toEqual({
+      mean: 3,
+      median: 3,
+      min: 1,
+      max: 5,
+      pct: 50,
+      count: 4,
+    });
+    expect(scoreStats([3, 1, 2], DEFAULT_SCALE).median).toBe(2);
+  });
+
+  it('measures pct from scale.min, including on diverging scales', () => {
+    expect(scoreStats([1, 3], { min: 1, max: 5, rings: 4 }).pct).toBe(25);
+    expect(scoreStats([1], { min: 1, max: 5, rings: 4 }).pct).toBe(0);
+    expect(scoreStats([0], { min: -2, max: 2, rings: 4 }).pct).toBe(50);
+    expect(scoreStats([-2, -1], { min: -2, max: 2, rings: 4 }).pct).toBe(12.5);
+    expect(scoreStats([3], { min: 3, max: 3, rings: 1 })).toEqual({ mean: 3, median: 3, min: 3, max: 3, count: 1 });
+  });
+
+    it('leaves everything but the count unset without scores', () => {
+    expect(scoreStats([undefined], DEFAULT_SCALE)).toEqual({ count: 0 });
+  });
+});
+
+describe('segmentStats / diagramStats', () => {
+  it('aggregate facet scores per segment and overall', () => {
+    expect(segmentStats(config, 0)).toMatchObject({ mean: 3.1666666666666665, median: 3, count: 3 });
+    const stats = diagramStats(config);
+    expect(stats.overall).toMatchObject({ mean: 3.1666666666666665, min: 2.5, max: 4, count: 3 });
+    expect(stats.segments[1]).toEqual({ count: 0 });
+  });
+
+  it('reads rolled-up scores of facets with sub-facets', () => {
+    const nested: DiagramConfig = {
+      ...config,
+      segments: [{ ...config.segments[0], facets: [{ name: 'Vision', children: [{ name: 'A', score: 2 }, { name: 'B', score: 4 }] }] }],
+    };
+    expect(segmentStats(nested, 0)).toMatchObject({ mean: 3, count: 1 });
+  });
+});
+
+describe('formatStats', () => {
+  const stats = scoreStats([3.25, 4], DEFAULT_SCALE);
+
+  it('fills tokens with the given decimal places', () => {
+    expect(formatStats('{mean:0.0} / {mean:0.00} / {mean:0} / {mean:0.1}', stats)).toBe('3.6 / 3.63 / 4 / 3.6');
+  });
+
+  it('rounds pct to a whole number and others to two decimals by default', () => {
+    expect(formatStats('{pct}% ({count}, median {median})', stats)).toBe('66% (2, median 3.63)');
+  });
+
+  it('keeps other text and marks missing values', () => {
+    expect(formatStats('{total} {mean}', { count: 0 })).toBe('{total} –');
+    expect(formatStats('3.7', stats)).toBe('3.7');
+  });
+
+  it('passes unknown and malformed braces through unchanged', () => {
+    const text = '{total} {Mean} { pct } {mean:} {mean:x} {pct:0.0.0} {} {{count}}';
+    expect(formatStats(text, stats)).toBe('{total} {Mean} { pct } {mean:} {mean:x} {pct:0.0.0} {} {2}');
+  });
+});
+
+describe('template fields', () => {
+  it('resolve sub-labels, figures and the hub subtitle', () => {
+    expect(segmentSubLabel(config, 0)).toBe('3.2');
+    expect(segmentSubLabel(config, 1)).toBe('–% of scale');
+    expect(segmentSubLabel({ ...config, segments: [{ ...config.segments[0], subLabel: undefined }] }, 0)).toBeUndefined();
+    expect(facetFigure(config, config.segments[0].facets[0])).toBe('75%');
+    expect(facetFigure(config, config.segments[0].facets[1])).toBeUndefined();
+    expect(centerSubtitle(config)).toBe('Overall 3.2');
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Score statistics per segment and for the whole diagram, and the
+ * `{stat:format}` templates that put them into labels
+ *
+ * @license MIT
+ * @copyright 2026 CGA Management Ltd
+ * @see https://www.cgamanagement.co.uk/category/tools
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import type { DiagramConfig, Facet, ScaleConfig } from './types.js';
+import { primaryScore } from './summary.js';
+
+/**
+ * Statistics over a set of scores. Everything but `count` is undefined when
+ * no score is set.
+ */
+export interface ScoreStats {
+  mean?: number;
+  median?: number;
+  min?: number;
+  max?: number;
+  /**
+   * How far the mean is from `scale.min` to `scale.max`, in percent (so 0 at
+   * min and 100 at max, also on scales not starting at 0). Undefined when
+   * min equals max.
+   */
+  pct?: number;
+  /** Number of scored facets */
+  count: number;
+}
+
+/** Statistics of a whole diagram, for reporting */
+export interface DiagramStats {
+  /** Over every top-level facet */
+  overall: ScoreStats;
+  /** One entry per segment, over its facets */
+  segments: ScoreStats[];
+}
+
+/** Names a template can use, as in `{mean:0.0}` */
+export type ScoreStatName = keyof ScoreStats;
+
+/** `{name}` or `{name:0.00}` */
+const STAT_TOKEN = /\{(mean|median|min|max|pct|count)(?::(\d+(?:\.\d+)?))?\}/g;
+
+/** Shown for a statistic that has no value (nothing scored) */
+const NO_VALUE = '–';
+
+/**
+ * Statistics over a list of scores.
+ * @param scores The scores; undefined and null entries are not counted
+ * @param scale The diagram's scale, for `pct`
+ */
+export function scoreStats(scores: Array<number | undefined | null>, scale: ScaleConfig): ScoreStats {
+  const values = scores.filter((s): s is number => s !== undefined && s !== null).sort((a, b) => a - b);
+  const count = values.length;
+  if (count === 0) return { count };
+  const mean = values.reduce((sum, s) => sum + s, 0) / count;
+  const middle = Math.floor(count / 2);
+  const span = scale.max - scale.min;
+  return {
+    mean,
+    median: count % 2 === 1 ? values[middle] : (values[middle - 1] + values[middle]) / 2,
+    min: values[0],
+    max: values[count - 1],
+    ...(span > 0 && { pct: ((mean - scale.min) / span) * 100 }),
+    count,
+  };
+}
+
+/** Statistics over facets' primary scores (sub-facets rolled up). */
+function facetStats(config: DiagramConfig, facets: Facet[]): ScoreStats {
+  return scoreStats(facets.map((f) => primaryScore(f, config.series, config.scale.rollup)), config.scale);
+}
+
+/**
+ * Statistics over one segment's facets (see `primaryScore`).
+ * @param config The diagram configuration
+ * @param segIndex Index of the segment
+ */
+export function segmentStats(config: DiagramConfig, segIndex: number): ScoreStats {
+  return facetStats(config, config.segments[segIndex].facets);
+}
+
+/**
+ * Statistics over every facet of the diagram, and per segment.
+ * @param config The diagram configuration
+ */
+export function diagramStats(config: DiagramConfig): DiagramStats {
+  return {
+    overall: facetStats(config, config.segments.flatMap((s) => s.facets)),
+    segments: config.segments.map((_, i) => segmentStats(config, i)),
+  };
+}
+
+/**
+ * Replace `{stat}` / `{stat:0.0}` tokens with values from `stats`. The
+ * number of digits after the format's point gives the decimal places
+ * (`0.0` and `0.1` one, `0.00` two, `0` a whole number); without a format,
+ * `pct` is rounded to a whole number and the others to two decimals with
+ * trailing zeros dropped. A statistic without a value prints "–". Other
+ * text, including unknown `{...}` tokens, is kept.
+ * @param template Text such as `'Overall {mean:0.1}'` or `'{pct}%'`
+ * @param stats The statistics to insert
+ */
+export function formatStats(template: string, stats: ScoreStats): string {
+  return template.replace(STAT_TOKEN, (_, name: ScoreStatName, format?: string) => {
+    const value = stats[name];
+    if (value === undefined) return NO_VALUE;
+    if (format !== undefined) return value.toFixed(format.split('.')[1]?.length ?? 0);
+    return String(name === 'pct' ? Math.round(value) : Number(value.toFixed(2)));
+  });
+}
+
+/**
+ * A segment's `subLabel` with its statistics filled in (see `formatStats`),
+ * or undefined when it has none.
+ * @param config The diagram configuration
+ * @param segIndex Index of the segment
+ */
+export function segmentSubLabel(config: DiagramConfig, segIndex: number): string | undefined {
+  const subLabel = config.segments[segIndex].subLabel;
+  if (subLabel === undefined || subLabel === null) return undefined;
+  return formatStats(subLabel, segmentStats(config, segIndex));
+}
+
+/**
+ * A facet's `figure` with its own score's statistics filled in, so
+ * `'{pct}%'` gives how far the score is along the scale.
+ * @param config The diagram configuration
+ * @param facet The facet
+ */
+export function facetFigure(config: DiagramConfig, facet: Facet): string | undefined {
+  if (facet.figure === undefined || facet.figure === null) return undefined;
+  return formatStats(String(facet.figure), facetStats(config, [facet]));
+}
+
+/**
+ * `center.subtitle` with the diagram's overall statistics filled in, or
+ * undefined when it has none.
+ * @param config The diagram configuration
+ */
+export function centerSubtitle(config: DiagramConfig): string | undefined {
+  const subtitle = config.center.subtitle;
+  if (subtitle === undefined || subtitle === null) return undefined;
+  return formatStats(subtitle, facetStats(config, config.segments.flatMap((s) => s.facets)));
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { parseColor, formatColor, interpolateColor, scoreColor } from './color.js';
+import type { ScoreColorScale } from './types.js';
+
+describe('parseColor', () => {
+  it('parses long and short hex colours', () => {
+    expect(parseColor('#ff8000')).toEqual({ r: 255, g: 128, b: 0, a: 1 });
+    expect(parseColor('#F80')).toEqual({ r: 255, g: 136, b: 0, a: 1 });
+  });
+
+  it('parses hex alpha', () => {
+    expect(parseColor('#00000080')?.a).toBeCloseTo(0.502, 3);
+  });
+
+  it('parses rgb() and rgba()', () => {
+    expect(parseColor('rgb(10, 20, 30)')).toEqual({ r: 10, g: 20, b: 30, a: 1 });
+    expect(parseColor('rgba(255,255,255,0.7)')).toEqual({ r: 255, g: 255, b: 255, a: 0.7 });
+  });
+
+  it('returns null for named or malformed colours', () => {
+    expect(parseColor('red')).toBeNull();
+    expect(parseColor('#12345')).toBeNull();
+    expect(parseColor('rgb(300, 0, 0)')).toBeNull();
+  });
+});
+
+describe('formatColor', () => {
+  it('formats opaque colours as hex and translucent ones as rgba()', () => {
+    expect(formatColor({ r: 255, g: 0, b: 127.6, a: 1 })).toBe('#ff0080');
+    expect(formatColor({ r: 0, g: 0, b: 0, a: 0.5 })).toBe('rgba(0, 0, 0, 0.5)');
+  });
+});
+
+describe('interpolateColor', () => {
+  it('blends channel by channel', () => {
+    expect(interpolateColor('#000000', '#ffffff', 0.5)).toBe('#808080');
+    expect(interpolateColor('#ff0000', '#00ff00', 0)).toBe('#ff0000');
+  });
+
+  it('clamps t to 0-1', () => {
+    expect(interpolateColor('#000000', '#ffffff', 2)).toBe('#ffffff');
+  });
+
+  it('throws on colours it cannot parse', () => {
+    expect(() => interpolateColor('red', '#ffffff', 0.5)).toThrow('cannot interpolate');
+  });
+});
+
+describe('scoreColor', () => {
+  const rag: ScoreColorScale = {
+    type: 'threshold',
+    stops: [
+      { score: 2, color: 'red' },
+      { score: 3.5, color: 'orange' },
+    ],
+    above: 'green',
+  };
+
+  it('picks the first threshold band the score is below', () => {
+    expect(scoreColor(rag, 1.5)).toBe('red');
+    expect(scoreColor(rag, 2)).toBe('orange');
+    expect(scoreColor(rag, 3.4)).toBe('orange');
+    expect(scoreColor(rag, 3.5)).toBe('green');
+  });
+
+  it('falls back to the last stop colour when above is unset', () => {
+    expect(scoreColor({ ...rag, above: undefined }, 5)).toBe('orange');
+  });
+
+  it('interpolates a gradient between the surrounding stops', () => {
+    const ramp: ScoreColorScale = {
+      type: 'gradient',
+      stops: [
+        { score: 1, color: '#ff0000' },
+        { score: 3, color: '#ffff00' },
+        { score: 5, color: '#00ff00' },
+      ],
+    };
+    expect(scoreColor(ramp, 2)).toBe('#ff8000');
+    expect(scoreColor(ramp, 3)).toBe('#ffff00');
+    expect(scoreColor(ramp, 4)).toBe('#80ff00');
+    expect(scoreColor(ramp, 0)).toBe('#ff0000');
+    expect(scoreColor(ramp, 9)).toBe('#00ff00');
+  });
+});
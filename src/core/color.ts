@@ -0,0 +1,107 @@
+/**
+ * Score-driven colour scales for the Radial Diagram Generator
+ *
+ * @license MIT
+ * @copyright 2026 CGA Management Ltd
+ * @see https://www.cgamanagement.co.uk/category/tools
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import type { ScoreColorScale } from './types.js';
+
+/** An RGBA colour with 0-255 channels and 0-1 alpha */
+export interface RGBA {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+/**
+ * Parse a hex (`#rgb`, `#rgba`, `#rrggbb`, `#rrggbbaa`) or `rgb()`/`rgba()`
+ * colour string. Named colours are not supported.
+ * @returns The parsed colour, or null when the string is not recognised
+ */
+export function parseColor(color: string): RGBA | null {
+  const value = color.trim().toLowerCase();
+  const hex = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/.exec(value);
+  if (hex) {
+    let digits = hex[1];
+    if (digits.length <= 4) {
+      digits = digits.split('').map((d) => d + d).join('');
+    }
+    return {
+      r: parseInt(digits.slice(0, 2), 16),
+      g: parseInt(digits.slice(2, 4), 16),
+      b: parseInt(digits.slice(4, 6), 16),
+      a: digits.length === 8 ? parseInt(digits.slice(6, 8), 16) / 255 : 1,
+    };
+  }
+  const fn = /^rgba?\(\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)\s*(?:,\s*([\d.]+)\s*)?\)$/.exec(value);
+  if (fn) {
+    const [r, g, b] = [fn[1], fn[2], fn[3]].map(Number);
+    const a = fn[4] === undefined ? 1 : Number(fn[4]);
+    if ([r, g, b].some((c) => c > 255) || a > 1) return null;
+    return { r, g, b, a };
+  }
+  return null;
+}
+
+/** Format a colour as `#rrggbb`, or `rgba()` when it is not fully opaque. */
+export function formatColor({ r, g, b, a }: RGBA): string {
+  const channels = [r, g, b].map((c) => Math.round(c));
+  if (a < 1) {
+    return `rgba(${channels.join(', ')}, ${Math.round(a * 1000) / 1000})`;
+  }
+  return `#${channels.map((c) => c.toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * Linearly interpolate between two colours in RGB space
+ * @param from Colour at t = 0
+ * @param to Colour at t = 1
+ * @param t Position between the two (clamped to 0-1)
+ * @throws Error if either colour cannot be parsed
+ */
+export function interpolateColor(from: string, to: string, t: number): string {
+  const a = parseColor(from);
+  const b = parseColor(to);
+  if (!a || !b) {
+    throw new Error(`cannot interpolate between "${from}" and "${to}"`);
+  }
+  const k = Math.max(0, Math.min(1, t));
+  return formatColor({
+    r: a.r + (b.r - a.r) * k,
+    g: a.g + (b.g - a.g) * k,
+    b: a.b + (b.b - a.b) * k,
+    a: a.a + (b.a - a.a) * k,
+  });
+}
+
+/**
+ * Resolve the colour for a score on a colour scale.
+ * - `'threshold'`: the colour of the first stop whose `score` the value is
+ *   below, else `scale.above` (or the last stop's colour when unset).
+ * - `'gradient'`: interpolated between the two surrounding stops, clamped to
+ *   the first and last stop.
+ * @param scale The colour scale (stops in ascending score order)
+ * @param score The score to colour
+ */
+export function scoreColor(scale: ScoreColorScale, score: number): string {
+  const { stops } = scale;
+  if (scale.type === 'threshold') {
+    const band = stops.find((stop) => score < stop.score);
+    return band ? band.color : scale.above ?? stops[stops.length - 1].color;
+  }
+  if (score <= stops[0].score) return stops[0].color;
+  for (let i = 1; i < stops.length; i++) {
+    if (score <= stops[i].score) {
+      const lo = stops[i - 1];
+      const hi = stops[i];
+      return interpolateColor(lo.color, hi.color, (score - lo.score) / (hi.score - lo.score));
+    }
+  }
+  return stops[stops.length - 1].color;
+}
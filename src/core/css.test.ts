@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { isSafeCssValue, isStrictCssValue } from './css.js';
+
+describe('isSafeCssValue', () => {
+  it('accepts ordinary values, including quoted font names and functions', () => {
+    ['#ff0000', 'rgba(0,0,0,0.5)', 'var(--brand)', '"Open Sans", Arial', '0.04em', 'currentColor'].forEach((v) =>
+      expect(isSafeCssValue(v)).toBe(true)
+    );
+  });
+
+  it('rejects declaration and markup breakers, comments, escapes and resource loads', () => {
+    [
+      'red; fill: blue',
+      'Arial } svg { display: none',
+      '1px /* x */',
+      'red\\3b',
+      '</style><script>',
+      'url(https://evil.example)',
+      'URL (x)',
+      'image-set("x.png" 1x)',
+      'expression(alert(1))',
+      '@import "x"',
+      'red\nfill: blue',
+    ].forEach((v) => expect(isSafeCssValue(v)).toBe(false));
+  });
+});
+
+describe('isStrictCssValue', () => {
+  it('allows hex, functional and keyword colours only', () => {
+    ['#abc', '#aabbccdd', 'rgb(1, 2, 3)', 'rgba(1 2 3 / 50%)', 'hsl(120deg, 50%, 40%)', 'Transparent'].forEach((v) =>
+      expect(isStrictCssValue(v, 'color')).toBe(true)
+    );
+    ['#abcde', 'var(--x)', 'rgb(1, 2)', 'red blue', 'color-mix(in srgb, red, blue)'].forEach((v) =>
+      expect(isStrictCssValue(v, 'color')).toBe(false)
+    );
+  });
+
+  it('allows numbers with known units for lengths', () => {
+    ['0', '0.04em', '-1px', '2', 'normal', 0.5].forEach((v) => expect(isStrictCssValue(v, 'length')).toBe(true));
+    ['1furlong', 'calc(1px + 1em)', '', Infinity].forEach((v) => expect(isStrictCssValue(v, 'length')).toBe(false));
+  });
+
+  it('allows plain or quoted family names', () => {
+    expect(isStrictCssValue('"Open Sans", Arial, sans-serif', 'fontFamily')).toBe(true);
+    expect(isStrictCssValue("'Century Gothic'", 'fontFamily')).toBe(true);
+    expect(isStrictCssValue('Arial,', 'fontFamily')).toBe(false);
+    expect(isStrictCssValue('"Open Sans\', Arial', 'fontFamily')).toBe(false);
+    expect(isStrictCssValue('Arial!important', 'fontFamily')).toBe(false);
+  });
+
+  it('checks dash arrays and font weights', () => {
+    expect(isStrictCssValue('6,3', 'dashArray')).toBe(true);
+    expect(isStrictCssValue('6 3 1.5', 'dashArray')).toBe(true);
+    expect(isStrictCssValue('6,,3', 'dashArray')).toBe(false);
+    expect(isStrictCssValue(700, 'fontWeight')).toBe(true);
+    expect(isStrictCssValue('bold', 'fontWeight')).toBe(true);
+    expect(isStrictCssValue(1200, 'fontWeight')).toBe(false);
+    expect(isStrictCssValue('heavy', 'fontWeight')).toBe(false);
+  });
+});
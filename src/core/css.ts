@@ -0,0 +1,70 @@
+/**
+ * CSS value checks used by `validateConfig` for configs from untrusted sources
+ *
+ * @license MIT
+ * @copyright 2026 CGA Management Ltd
+ * @see https://www.cgamanagement.co.uk/category/tools
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+/** Kind of CSS value a config field is written out as */
+export type CssValueKind = 'color' | 'length' | 'fontFamily' | 'dashArray' | 'fontWeight';
+
+// Characters and tokens that can end a declaration or rule, open a comment,
+// load a resource, escape out of a value, or break out of the markup
+const UNSAFE = /[<>;{}\\`\n\r]|\/\*|url\s*\(|image\s*\(|image-set\s*\(|expression\s*\(|@import|javascript:/i;
+
+const NUMBER = '[+-]?(?:\\d+\\.?\\d*|\\.\\d+)';
+const HEX_COLOR = /^#(?:[0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const FUNCTION_COLOR = new RegExp(
+  `^(?:rgba?|hsla?)\\(\\s*${NUMBER}(?:deg|%)?(?:\\s*[,\\s/]\\s*${NUMBER}%?){2,3}\\s*\\)$`,
+  'i'
+);
+const KEYWORD = /^[a-z]+$/i;
+const LENGTH = new RegExp(`^(?:${NUMBER}(?:px|em|rem|ex|ch|pt|pc|cm|mm|in|vw|vh|vmin|vmax|%)?|normal)$`, 'i');
+const DASH_ARRAY = new RegExp(`^${NUMBER}(?:\\s*[,\\s]\\s*${NUMBER})*$`);
+const FONT_NAME = /^(?:[a-z0-9 _-]+|"[a-z0-9 _-]+"|'[a-z0-9 _-]+')$/i;
+const FONT_WEIGHT = /^(?:[1-9]\d{0,2}|1000|normal|bold|bolder|lighter)$/i;
+
+/**
+ * True when a string cannot break out of the CSS value (or the markup) it is
+ * written into: no `;`, braces, comments, backslash escapes, angle brackets,
+ * line breaks, `url()` / `image()` / `expression()` or `@import`. Quotes are
+ * allowed; the renderer escapes them.
+ */
+export function isSafeCssValue(value: string): boolean {
+  return !UNSAFE.test(value);
+}
+
+/**
+ * Strict allowlist check for a CSS value of the given kind:
+ * - `color`: hex, `rgb[a]()` / `hsl[a]()` with numeric arguments, or a
+ *   single keyword (`red`, `transparent`, `currentColor`)
+ * - `length`: a number with an optional unit, or `normal`
+ * - `fontFamily`: comma-separated family names of letters, digits, spaces,
+ *   `-` and `_`, optionally quoted
+ * - `dashArray`: numbers separated by commas or spaces
+ * - `fontWeight`: 1-1000, `normal`, `bold`, `bolder` or `lighter`
+ * @param value Value as written in the config (numbers allowed for lengths and weights)
+ * @param kind What the value is used as
+ */
+export function isStrictCssValue(value: string | number, kind: CssValueKind): boolean {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && (kind === 'length' || (kind === 'fontWeight' && value >= 1 && value <= 1000));
+  }
+  const text = value.trim();
+  switch (kind) {
+    case 'color':
+      return HEX_COLOR.test(text) || FUNCTION_COLOR.test(text) || KEYWORD.test(text);
+    case 'length':
+      return LENGTH.test(text);
+    case 'fontFamily':
+      return text.split(',').every((name) => FONT_NAME.test(name.trim()));
+    case 'dashArray':
+      return DASH_ARRAY.test(text);
+    case 'fontWeight':
+      return FONT_WEIGHT.test(text);
+  }
+}
@@ -0,0 +1,202 @@
+import { describe, it, expect } from 'vitest';
+import { parseCsv, configFromCsv, configToCsv } from './csv.js';
+import { DEFAULT_STYLE, DEFAULT_SCALE, DiagramConfig } from './types.js';
+
+describe('parseCsv', () => {
+  it('splits quoted fields, doubled quotes and line breaks inside quotes', () => {
+    const rows = parseCsv('\uFEFFa,b\r\n"x, y","say ""hi"""\n\n"two\nlines",z\n');
+    expect(rows).toEqual([
+      { line: 1, cells: ['a', 'b'] },
+      { line: 2, cells: ['x, y', 'say "hi"'] },
+      { line: 4, cells: ['two\nlines', 'z'] },
+    ]);
+  });
+
+  it('uses the given delimiter', () => {
+    expect(parseCsv('a;b,c\n1;2')).toEqual([
+      { line: 1, cells: ['a;b', 'c'] },
+      { line: 2, cells: ['1;2'] },
+    ]);
+    expect(parseCsv('a;b,c\n1;2', ';')[0].cells).toEqual(['a', 'b,c']);
+  });
+
+  it('rejects a delimiter that cannot separate fields', () => {
+    for (const delimiter of ['', '"', ';"', '\n', '\r\n']) {
+      expect(() => parseCsv('a,b', delimiter)).toThrow(`delimiter ${JSON.stringify(delimiter)} must be non-empty`);
+    }
+    expect(() => configToCsv({ segments: [] }, { delimiter: '' })).toThrow('must be non-empty');
+    expect(configFromCsv('Segment,Facet', { delimiter: '' }).errors).toEqual([
+      'delimiter "" must be non-empty and hold no quote or line break',
+    ]);
+  });
+
+  it('throws on an unterminated quoted field', () => {
+    expect(() => parseCsv('a,b\n1,"open\n')).toThrow('line 2: unterminated quoted field');
+  });
+});
+
+describe('configFromCsv', () => {
+  const csv = [
+    'Segment,Facet,Score,Target,Description,Colour',
+    'Strategy,Vision,4,4.5,Where we are heading,#ff0000',
+    'Strategy,Planning,3,,,',
+    'People,Skills,2.5,,"Training, hiring",',
+  ].join('\n');
+
+  it('builds segments and facets in row order, filling defaults', () => {
+    const { config, errors } = configFromCsv(csv);
+    expect(errors).toEqual([]);
+    expect(config.scale).toEqual(DEFAULT_SCALE);
+    expect(config.segments).toEqual([
+      {
+        name: 'Strategy',
+        color: '#ff0000',
+        facets: [
+          { name: 'Vision', score: 4, target: 4.5, description: 'Where we are heading' },
+          { name: 'Planning', score: 3 },
+        ],
+      },
+      { name: 'People', color: '#8B5CF6', facets: [{ name: 'Skills', score: 2.5, description: 'Training, hiring' }] },
+    ]);
+  });
+
+  it('merges into a base config, keeping its order, colours and other fields', () => {
+    const base: Partial<DiagramConfig> = {
+      center: { label: 'Hub', radius: 80, color: '#333333' },
+      scale: { min: 0, max: 10, rings: 10 },
+      segments: [
+        { name: 'People', color: '#0000ff', facets: [{ name: 'Skills', score: 9, weight: 2 }] },
+        { name: 'Strategy', color: '#00ff00', subLabel: '{mean}', facets: [{ name: 'Planning', score: 8 }] },
+      ],
+    };
+    const { config, errors } = configFromCsv('segment,facet,score\nStrategy,Vision,7\nPeople,Skills,\n', { base });
+    expect(errors).toEqual([]);
+    expect(config.center.label).toBe('Hub');
+    expect(config.segments).toEqual([
+      { name: 'People', color: '#0000ff', facets: [{ name: 'Skills', weight: 2 }] },
+      {
+        name: 'Strategy',
+        color: '#00ff00',
+        subLabel: '{mean}',
+        facets: [{ name: 'Planning', score: 8 }, { name: 'Vision', score: 7 }],
+      },
+    ]);
+    expect(base.segments?.[0].facets[0].score).toBe(9);
+  });
+
+  it('maps custom column names and accepts "color" for the default colour column', () => {
+    const mapped = configFromCsv('Area;Item;Rating\nOps;Speed;2', {
+      delimiter: ';',
+      columns: { segment: 'area', facet: 'item', score: 'rating' },
+    });
+    expect(mapped.errors).toEqual([]);
+    expect(mapped.config.segments[0]).toMatchObject({ name: 'Ops', facets: [{ name: 'Speed', score: 2 }] });
+    expect(configFromCsv('segment,facet,color\nOps,Speed,teal').config.segments[0].color).toBe('teal');
+  });
+
+  it('reports row errors with line numbers and skips those rows', () => {
+    const { config, errors } = configFromCsv(
+      [
+        'segment,facet,score,target,colour',
+        'Strategy,Vision,abc,,',
+        ',Planning,3,,',
+        'Strategy,Delivery,7,0,',
+        'Strategy,Risk,2,,red;x:y',
+        'Strategy,Risk,2,,#111111',
+        'Strategy,Risk,3,,',
+        'Strategy,Scope,3,,#222222',
+      ].join('\n')
+    );
+    expect(errors).toEqual([
+      'line 2: score "abc" is not a number',
+      'line 3: segment is empty',
+      'line 4: score (7) must be between 1 and 5',
+      'line 4: target (0) must be between 1 and 5',
+      'line 5: colour "red;x:y" is not a safe CSS value',
+      'line 7: facet "Risk" is repeated in segment "Strategy"',
+      'line 8: colour "#222222" conflicts with "#111111" given earlier for segment "Strategy"',
+    ]);
+    expect(config.segments).toEqual([{ name: 'Strategy', color: '#111111', facets: [{ name: 'Risk', score: 2 }] }]);
+  });
+
+  it('reports a missing required column, an empty file and no data rows', () => {
+    expect(configFromCsv('segment,score\nA,1').errors).toEqual(['line 1: missing column "facet"']);
+    expect(configFromCsv('').errors).toEqual(['no header row']);
+    expect(configFromCsv('segment,facet\n').errors).toEqual(['no data rows']);
+    expect(configFromCsv('segment,facet\n"A,B').errors).toEqual(['line 2: unterminated quoted field']);
+  });
+});
+
+describe('configToCsv', () => {
+  const config: DiagramConfig = {
+    size: 800,
+    startAngle: -90,
+    center: { label: 'Hub', radius: 100, color: '#333333' },
+    scale: { ...DEFAULT_SCALE },
+    segments: [
+      {
+        name: 'Strategy\n& Vision',
+        color: '#ff0000',
+        facets: [
+          { name: 'Vision', score: 4, target: 4.5, description: 'Say "where", then how' },
+          { name: 'Planning', children: [{ name: 'Budget', score: 2 }] },
+        ],
+      },
+      { name: 'Empty', color: '#00ff00', facets: [] },
+    ],
+    style: { ...DEFAULT_STYLE },
+  };
+
+  it('writes one row per top-level facet, quoting where needed', () => {
+    expect(configToCsv(config)).toBe(
+      [
+        'segment,facet,score,target,description,colour',
+        '"Strategy\n& Vision",Vision,4,4.5,"Say ""where"", then how",#ff0000',
+        '"Strategy\n& Vision",Planning,,,,#ff0000',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('uses custom column names and delimiter', () => {
+    const csv = configToCsv(config, { delimiter: ';', columns: { color: 'color', score: 'Rating' } });
+    expect(csv.split('\n')[0]).toBe('segment;facet;Rating;target;description;color');
+  });
+
+  it('guards text that spreadsheets would run as a formula, but not negative scores', () => {
+    const risky: DiagramConfig = {
+      ...config,
+      scale: { min: -2, max: 2, rings: 4 },
+      segments: [
+        {
+          name: '=HYPERLINK("x")',
+          color: '#ff0000',
+          facets: [
+            { name: '+1 Growth', score: -1.5, description: '@SUM(A1)' },
+            { name: '-Costs', score: 1, description: "'=kept as written" },
+          ],
+        },
+      ],
+    };
+    const csv = configToCsv(risky);
+    expect(csv.split('\n').slice(1, 3)).toEqual([
+      `"'=HYPERLINK(""x"")",'+1 Growth,-1.5,,'@SUM(A1),#ff0000`,
+      `"'=HYPERLINK(""x"")",'-Costs,1,,''=kept as written,#ff0000`,
+    ]);
+    const { config: back, errors } = configFromCsv(csv, { base: { scale: risky.scale } });
+    expect(errors).toEqual([]);
+    expect(back.segments).toEqual(risky.segments);
+  });
+
+    it('round-trips through configFromCsv', () => {
+    const { config: back, errors } = configFromCsv(configToCsv(config));
+    expect(errors).toEqual([]);
+    expect(back.segments).toEqual([
+      {
+        name: 'Strategy\n& Vision',
+        color: '#ff0000',
+        facets: [{ name: 'Vision', score: 4, target: 4.5, description: 'Say "where", then how' }, { name: 'Planning' }],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,320 @@
+/**
+ * CSV import and export of diagram configs: one row per facet, with columns
+ * for segment, facet, score, target, description and colour
+ *
+ * @license MIT
+ * @copyright 2026 CGA Management Ltd
+ * @see https://www.cgamanagement.co.uk/category/tools
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import type { DiagramConfig, Facet, Segment } from './types.js';
+import { DEFAULT_SCALE, createConfig } from './types.js';
+import { isSafeCssValue } from './css.js';
+
+/** Header name of each column. Matched case-insensitively, ignoring surrounding spaces. */
+export interface CsvColumns {
+  segment: string;
+  facet: string;
+  score: string;
+  target: string;
+  description: string;
+  color: string;
+}
+
+/** Default header names; `color` is also accepted for `colour` unless `columns.color` is set */
+export const DEFAULT_CSV_COLUMNS: CsvColumns = {
+  segment: 'segment',
+  facet: 'facet',
+  score: 'score',
+  target: 'target',
+  description: 'description',
+  color: 'colour',
+};
+
+export interface CsvOptions {
+  /** Header names to use instead of `DEFAULT_CSV_COLUMNS` */
+  columns?: Partial<CsvColumns>;
+  /** Field separator: not empty, and without `"` or line breaks. Default `','`. */
+  delimiter?: string;
+}
+
+export interface CsvImportOptions extends CsvOptions {
+  /**
+   * Config the rows are merged into: its segments and facets are matched by
+   * name and keep their order and other settings; new ones follow in row
+   * order. Everything else (scale, style, centre) is taken from it.
+   */
+  base?: Partial<DiagramConfig>;
+}
+
+export interface CsvImportResult {
+  /** Complete config (see `createConfig`), built from the rows without errors */
+  config: DiagramConfig;
+  /** One message per problem, e.g. `'line 4: score "abc" is not a number'` */
+  errors: string[];
+}
+
+/** One parsed record and the line it starts on (1 = header) */
+export interface CsvRow {
+  line: number;
+  cells: string[];
+}
+
+/** Segment colours used in turn when neither the CSV nor the base config gives one */
+const CSV_PALETTE = ['#3B82F6', '#8B5CF6', '#EC4899', '#F97316', '#22C55E', '#06B6D4', '#475569'];
+
+/** Throw unless `delimiter` can separate fields: non-empty, without quotes or line breaks. */
+function checkDelimiter(delimiter: string): void {
+  if (delimiter === '' || /["\r\n]/.test(delimiter)) {
+    throw new Error(`delimiter ${JSON.stringify(delimiter)} must be non-empty and hold no quote or line break`);
+  }
+}
+
+/**
+ * Split CSV text into records (RFC 4180): fields may be quoted with `"`,
+ * with `""` for a literal quote, and quoted fields may hold the delimiter
+ * and line breaks. Accepts LF or CRLF line ends and a leading byte-order
+ * mark; blank lines are skipped.
+ * @param text The CSV text
+ * @param delimiter Field separator. Default `','`.
+ * @throws Error when the delimiter is empty or holds a quote or line break,
+ * or when a quoted field is not closed
+ */
+export function parseCsv(text: string, delimiter = ','): CsvRow[] {
+  checkDelimiter(delimiter);
+  const rows: CsvRow[] = [];
+  let cells: string[] = [];
+  let field = '';
+  let line = 1;
+  let rowLine = 1;
+  let quoted = false;
+  let quoteLine = 1;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRow = () => {
+    cells.push(field);
+    if (cells.length > 1 || cells[0] !== '') rows.push({ line: rowLine, cells });
+    cells = [];
+    field = '';
+  };
+
+  for (; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        if (ch === '\n') line++;
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+      quoteLine = line;
+    } else if (text.startsWith(delimiter, i)) {
+      cells.push(field);
+      field = '';
+      i += delimiter.length - 1;
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      field += ch;
+    }
+  }
+  if (quoted) throw new Error(`line ${quoteLine}: unterminated quoted field`);
+  endRow();
+  return rows;
+}
+
+// Spreadsheets evaluate cells starting with `=`, `+`, `-`, `@`, a tab or a
+// carriage return as formulas (CSV injection). Text already starting with
+// `'` before one of those is guarded too, so reading it back is lossless.
+const FORMULA_START = /^'*[=+\-@\t\r]/;
+
+/** Prefix text that would open as a formula with `'`, which spreadsheets show as text. */
+function guardText(value: string): string {
+  return FORMULA_START.test(value) ? `'${value}` : value;
+}
+
+/** Undo `guardText`. */
+function unguardText(value: string): string {
+  return value.startsWith("'") && FORMULA_START.test(value) ? value.slice(1) : value;
+}
+
+/** Quote a field when it holds the delimiter, a quote or a line break. */
+function csvField(value: string, delimiter: string): string {
+  if (!value.includes(delimiter) && !/["\r\n]/.test(value)) return value;
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Build a config from CSV rows, one per facet, e.g.
+ *
+ *     segment,facet,score,target,description,colour
+ *     Strategy,Vision,4,4.5,Where we are heading,#3B82F6
+ *
+ * Only `segment` and `facet` columns are required. A facet's score, target
+ * and description are set from the columns that are present (an empty cell
+ * clears them); a segment's colour comes from its first non-empty colour
+ * cell, else the base config, else a default palette. A `'` that
+ * `configToCsv` put before formula-like text is removed. Rows with errors
+ * are skipped and reported with their line number.
+ * @param text The CSV text, with a header row
+ * @param options Column names, delimiter and the base config
+ */
+export function configFromCsv(text: string, options: CsvImportOptions = {}): CsvImportResult {
+  const base = options.base ?? {};
+  const errors: string[] = [];
+  const segments: Segment[] = (base.segments ?? []).map((s) => ({ ...s, facets: s.facets.map((f) => ({ ...f })) }));
+  const result = () => ({ config: createConfig({ ...base, segments }), errors });
+
+  let rows: CsvRow[];
+  try {
+    rows = parseCsv(text, options.delimiter);
+  } catch (e) {
+    errors.push((e as Error).message);
+    return result();
+  }
+  if (rows.length === 0) {
+    errors.push('no header row');
+    return result();
+  }
+
+  const columns = { ...DEFAULT_CSV_COLUMNS, ...options.columns };
+  const header = rows[0].cells.map((name) => name.trim().toLowerCase());
+  const column = (key: keyof CsvColumns): number => {
+    const index = header.indexOf(columns[key].trim().toLowerCase());
+    return index < 0 && key === 'color' && options.columns?.color === undefined ? header.indexOf('color') : index;
+  };
+  const at = {
+    segment: column('segment'),
+    facet: column('facet'),
+    score: column('score'),
+    target: column('target'),
+    description: column('description'),
+    color: column('color'),
+  };
+  for (const key of ['segment', 'facet'] as const) {
+    if (at[key] < 0) errors.push(`line ${rows[0].line}: missing column "${columns[key]}"`);
+  }
+  if (errors.length > 0) return result();
+  if (rows.length === 1) {
+    errors.push('no data rows');
+    return result();
+  }
+
+  const scale = { ...DEFAULT_SCALE, ...base.scale };
+  const rowColors = new Map<Segment, string>();
+  const rowFacets = new Set<Facet>();
+
+  for (const row of rows.slice(1)) {
+    const cell = (index: number) => (index < 0 ? undefined : unguardText((row.cells[index] ?? '').trim()));
+    const rowErrors: string[] = [];
+    const numberCell = (key: 'score' | 'target'): number | undefined => {
+      const value = cell(at[key]);
+      if (value === undefined || value === '') return undefined;
+      const n = Number(value);
+      if (!Number.isFinite(n)) {
+        rowErrors.push(`${columns[key]} "${value}" is not a number`);
+      } else if (n < scale.min || n > scale.max) {
+        rowErrors.push(`${columns[key]} (${n}) must be between ${scale.min} and ${scale.max}`);
+      }
+      return n;
+    };
+
+    const segmentName = cell(at.segment) ?? '';
+    const facetName = cell(at.facet) ?? '';
+    if (segmentName === '') rowErrors.push(`${columns.segment} is empty`);
+    if (facetName === '') rowErrors.push(`${columns.facet} is empty`);
+    const score = numberCell('score');
+    const target = numberCell('target');
+    const description = cell(at.description);
+    const color = cell(at.color);
+    if (color && !isSafeCssValue(color)) rowErrors.push(`${columns.color} "${color}" is not a safe CSS value`);
+
+    let segment = segments.find((s) => s.name === segmentName);
+    let facet = segment?.facets.find((f) => f.name === facetName);
+    if (facet && rowFacets.has(facet)) rowErrors.push(`facet "${facetName}" is repeated in segment "${segmentName}"`);
+    const known = segment && rowColors.get(segment);
+    if (color && known && known !== color) {
+      rowErrors.push(`${columns.color} "${color}" conflicts with "${known}" given earlier for segment "${segmentName}"`);
+    }
+    if (rowErrors.length > 0) {
+      errors.push(...rowErrors.map((message) => `line ${row.line}: ${message}`));
+      continue;
+    }
+
+    if (!segment) {
+      segment = { name: segmentName, color: '', facets: [] };
+      segments.push(segment);
+    }
+    if (!facet) {
+      facet = { name: facetName };
+      segment.facets.push(facet);
+    }
+    rowFacets.add(facet);
+    if (color) {
+      segment.color = color;
+      rowColors.set(segment, color);
+    }
+    if (at.score >= 0) {
+      if (score === undefined) delete facet.score;
+      else facet.score = score;
+    }
+    if (at.target >= 0) {
+      if (target === undefined) delete facet.target;
+      else facet.target = target;
+    }
+    if (description !== undefined) {
+      if (description === '') delete facet.description;
+      else facet.description = description;
+    }
+  }
+
+  segments.forEach((segment, i) => {
+    if (!segment.color) segment.color = CSV_PALETTE[i % CSV_PALETTE.length];
+  });
+  return result();
+}
+
+/**
+ * Write a config as CSV with a header row and one row per top-level facet,
+ * repeating the segment's colour on each, so `configFromCsv` reads it back.
+ * Sub-facets, series scores, ranges and segments without facets are not
+ * written; merge the CSV back into the original config to keep them. Text
+ * starting with `=`, `+`, `-`, `@`, a tab or a carriage return is written
+ * with a leading `'` so spreadsheets do not run it as a formula;
+ * `configFromCsv` removes it again. Scores are written as plain numbers.
+ * @param config The diagram configuration
+ * @param options Column names and delimiter
+ * @throws Error when the delimiter is empty or holds a quote or line break
+ */
+export function configToCsv(config: Pick<DiagramConfig, 'segments'>, options: CsvOptions = {}): string {
+  const columns = { ...DEFAULT_CSV_COLUMNS, ...options.columns };
+  const delimiter = options.delimiter ?? ',';
+  checkDelimiter(delimiter);
+  const keys: Array<keyof CsvColumns> = ['segment', 'facet', 'score', 'target', 'description', 'color'];
+  const lines = [keys.map((key) => csvField(guardText(columns[key]), delimiter)).join(delimiter)];
+  for (const segment of config.segments) {
+    for (const facet of segment.facets) {
+      const values = [
+        guardText(segment.name),
+        guardText(facet.name),
+        String(facet.score ?? ''),
+        String(facet.target ?? ''),
+        guardText(facet.description ?? ''),
+        guardText(segment.color ?? ''),
+      ];
+      lines.push(values.map((value) => csvField(value, delimiter)).join(delimiter));
+    }
+  }
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,23 @@
+/**
+ * Markup escaping helpers
+ *
+ * @license MIT
+ * @copyright 2026 CGA Management Ltd
+ * @see https://www.cgamanagement.co.uk/category/tools
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+/**
+ * Escape text for XML/HTML content and double-quoted attribute values.
+ * Accepts any config value, stringified as a template literal would.
+ * @param text Raw text
+ */
+export function escapeXml(text: string | number | undefined): string {
+  return String(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -1,11 +1,17 @@
 import { describe, it, expect } from 'vitest';
 import {
   polarToCartesian,
+  cartesianToPolar,
   describeArc,
   segmentPath,
+  polygonPath,
+  smoothClosedPath,
   segmentAngle,
+  segmentAngles,
   facetAngles,
+  nestedAngles,
   scoreToRadius,
+  radiusToScore,
   ringRadii,
   labelOrientation,
 } from './geometry.js';
@@ -36,6 +42,22 @@ describe('polarToCartesian', () => {
   });
 });
 
+describe('cartesianToPolar', () => {
+  it('inverts polarToCartesian', () => {
+    [0, 45, 90, 179, -90, -135].forEach((angle) => {
+      const point = polarToCartesian(100, 100, 50, angle);
+      const polar = cartesianToPolar(100, 100, point.x, point.y);
+      expect(polar.radius).toBeCloseTo(50);
+      expect(polar.angle).toBeCloseTo(angle);
+    });
+  });
+
+  it('returns angles in (-180, 180]', () => {
+    expect(cartesianToPolar(100, 100, 50, 100).angle).toBeCloseTo(180);
+    expect(cartesianToPolar(100, 100, 100, 50).angle).toBeCloseTo(-90);
+  });
+});
+
 describe('segmentAngle', () => {
   it('calculates angle for 4 segments', () => {
     expect(segmentAngle(4)).toBe(90);
@@ -67,6 +89,55 @@ describe('facetAngles', () => {
   it('throws on zero facets', () => {
     expect(() => facetAngles(0, 90, 0)).toThrow('facetCount must be greater than 0');
   });
+
+  it('splits a segment proportionally to facet weights', () => {
+    const angles = facetAngles(0, 90, [2, 1]);
+    expect(angles[0].endAngle).toBeCloseTo(60);
+    expect(angles[1].startAngle).toBeCloseTo(60);
+    expect(angles[1].endAngle).toBe(90);
+  });
+
+  it('matches the count-based split for equal weights', () => {
+    expect(facetAngles(10, 100, [1, 1, 1])).toEqual(facetAngles(10, 100, 3));
+  });
+
+  it('throws on an empty weight list', () => {
+    expect(() => facetAngles(0, 90, [])).toThrow('facetCount must be greater than 0');
+  });
+});
+
+describe('nestedAngles', () => {
+  it('splits each node like facetAngles and recurses into its children', () => {
+    const spans = nestedAngles(0, 90, [{ children: [{}, { weight: 2 }] }, { weight: 2 }]);
+    expect(spans.map((s) => [s.startAngle, s.endAngle])).toEqual([[0, 30], [30, 90]]);
+    expect(spans[0].children.map((s) => [s.startAngle, s.endAngle])).toEqual([[0, 10], [10, 30]]);
+    expect(spans[1].children).toEqual([]);
+  });
+});
+
+describe('segmentAngles', () => {
+  it('splits the circle evenly for equal weights', () => {
+    const spans = segmentAngles(-90, [1, 1, 1, 1]);
+    expect(spans.map((s) => s.startAngle)).toEqual([-90, 0, 90, 180]);
+    expect(spans[3].endAngle).toBe(270);
+  });
+
+  it('splits the circle proportionally to weights', () => {
+    const spans = segmentAngles(0, [1, 2, 1]);
+    expect(spans[0].endAngle).toBeCloseTo(90);
+    expect(spans[1].startAngle).toBe(spans[0].endAngle);
+    expect(spans[1].endAngle).toBeCloseTo(270);
+    expect(spans[1].midAngle).toBeCloseTo(180);
+    expect(spans[2].endAngle).toBe(360);
+  });
+
+  it('throws on no segments', () => {
+    expect(() => segmentAngles(0, [])).toThrow('segmentCount must be greater than 0');
+  });
+
+  it('throws on non-positive weights', () => {
+    expect(() => segmentAngles(0, [1, 0])).toThrow('weights must be greater than 0');
+  });
 });
 
 describe('scoreToRadius', () => {
@@ -104,6 +175,51 @@ describe('scoreToRadius', () => {
   it('throws on invalid radii', () => {
     expect(() => scoreToRadius(3, 1, 5, 150, 50)).toThrow('innerRadius must be less than outerRadius');
   });
+
+  it('starts at the hub for the linear, area and sqrt mappings', () => {
+    expect(scoreToRadius(1, 1, 5, 50, 150, 'linear')).toBe(50);
+    expect(scoreToRadius(3, 1, 5, 50, 150, 'linear')).toBe(100);
+    expect(scoreToRadius(2, 1, 5, 50, 150, 'sqrt')).toBe(100); // sqrt(1/4) of the range
+    expect(scoreToRadius(1, 1, 5, 50, 150, 'area')).toBe(50);
+    expect(scoreToRadius(5, 1, 5, 50, 150, 'area')).toBe(150);
+  });
+
+  it('makes wedge area proportional to the score position with the area mapping', () => {
+    const area = (score: number) => scoreToRadius(score, 1, 5, 50, 150, 'area') ** 2 - 50 ** 2;
+    expect(area(3) / area(5)).toBeCloseTo(0.5);
+    expect(area(2) / area(5)).toBeCloseTo(0.25);
+  });
+});
+
+describe('radiusToScore', () => {
+  it('inverts scoreToRadius', () => {
+    [1, 2.5, 4, 5].forEach((score) => {
+      expect(radiusToScore(scoreToRadius(score, 1, 5, 50, 150), 1, 5, 50, 150)).toBeCloseTo(score);
+    });
+  });
+
+  it('maps the hub edge to one below the minimum, without clamping', () => {
+    expect(radiusToScore(50, 1, 5, 50, 150)).toBeCloseTo(0);
+    expect(radiusToScore(170, 1, 5, 50, 150)).toBeCloseTo(6);
+  });
+
+  it('inverts every mapping', () => {
+    (['linear', 'area', 'sqrt'] as const).forEach((mapping) => {
+      [1, 2.5, 4, 5].forEach((score) => {
+        expect(radiusToScore(scoreToRadius(score, 1, 5, 50, 150, mapping), 1, 5, 50, 150, mapping)).toBeCloseTo(score);
+      });
+      expect(radiusToScore(40, 1, 5, 50, 150, mapping)).toBeLessThan(1);
+    });
+  });
+
+  it('handles equal min and max (flat scale)', () => {
+    expect(radiusToScore(80, 3, 3, 50, 150)).toBe(3);
+  });
+
+  it('throws on invalid scale or radii', () => {
+    expect(() => radiusToScore(80, 5, 1, 50, 150)).toThrow('minScore must be less than or equal to maxScore');
+    expect(() => radiusToScore(80, 1, 5, 150, 50)).toThrow('innerRadius must be less than outerRadius');
+  });
 });
 
 describe('ringRadii', () => {
@@ -164,3 +280,31 @@ describe('labelOrientation', () => {
     expect(orient.textAnchor).toBeDefined();
   });
 });
+
+describe('polygonPath', () => {
+  it('joins the points with straight edges and closes the shape', () => {
+    expect(polygonPath([{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }])).toBe(
+      'M 0 0 L 10 0 L 10 10 Z'
+    );
+  });
+
+  it('returns an empty path for no points', () => {
+    expect(polygonPath([])).toBe('');
+  });
+});
+
+describe('smoothClosedPath', () => {
+  it('draws one cubic segment per vertex through every point', () => {
+    const points = [{ x: 0, y: -10 }, { x: 10, y: 0 }, { x: 0, y: 10 }, { x: -10, y: 0 }];
+    const path = smoothClosedPath(points);
+    expect(path.startsWith('M 0 -10')).toBe(true);
+    expect(path.match(/C /g)).toHaveLength(4);
+    expect(path).toContain(' 10 0 C');
+    expect(path.endsWith('0 -10 Z')).toBe(true);
+  });
+
+  it('falls back to a polygon for fewer than three points', () => {
+    const points = [{ x: 0, y: 0 }, { x: 5, y: 5 }];
+    expect(smoothClosedPath(points)).toBe(polygonPath(points));
+  });
+});
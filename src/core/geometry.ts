@@ -34,6 +34,28 @@ export function polarToCartesian(
   };
 }
 
+/**
+ * Convert Cartesian (SVG) coordinates to polar, the inverse of `polarToCartesian`
+ * @param cx Center X
+ * @param cy Center Y
+ * @param x Point X
+ * @param y Point Y
+ * @returns Distance from center, and angle in degrees in (-180, 180]
+ */
+export function cartesianToPolar(
+  cx: number,
+  cy: number,
+  x: number,
+  y: number
+): { radius: number; angle: number } {
+  const dx = x - cx;
+  const dy = y - cy;
+  return {
+    radius: Math.sqrt(dx * dx + dy * dy),
+    angle: (Math.atan2(dy, dx) * 180) / Math.PI,
+  };
+}
+
 /**
  * Generate SVG arc path data
  * @param cx Center X
@@ -130,6 +152,64 @@ export function facetScorePath(
   return segmentPath(cx, cy, innerRadius, outerRadius, startAngle, endAngle);
 }
 
+/**
+ * Generate SVG path for a closed straight-edged polygon through the points
+ * @param points Vertices in drawing order (at least one)
+ * @returns SVG path d attribute, or '' when there are no points
+ */
+export function polygonPath(points: Point[]): string {
+  if (points.length === 0) return '';
+  const [first, ...rest] = points;
+  return [`M ${first.x} ${first.y}`, ...rest.map((p) => `L ${p.x} ${p.y}`), 'Z'].join(' ');
+}
+
+/** A cubic Bézier segment: two control points and the end point */
+export interface CubicSegment {
+  c1: Point;
+  c2: Point;
+  to: Point;
+}
+
+/**
+ * Cubic Bézier segments of a smooth closed curve through the points, using a
+ * uniform Catmull-Rom spline. Segment i runs from points[i] to points[i + 1]
+ * (wrapping), so the curve starts and ends at points[0].
+ * @param points Vertices in drawing order (at least three)
+ * @returns One segment per vertex
+ */
+export function smoothClosedCurve(points: Point[]): CubicSegment[] {
+  const n = points.length;
+  const at = (i: number) => points[(i + n) % n];
+  const segments: CubicSegment[] = [];
+  for (let i = 0; i < n; i++) {
+    const p0 = at(i - 1);
+    const p1 = at(i);
+    const p2 = at(i + 1);
+    const p3 = at(i + 2);
+    const c1 = { x: p1.x + (p2.x - p0.x) / 6, y: p1.y + (p2.y - p0.y) / 6 };
+    const c2 = { x: p2.x - (p3.x - p1.x) / 6, y: p2.y - (p3.y - p1.y) / 6 };
+    segments.push({ c1, c2, to: p2 });
+  }
+  return segments;
+}
+
+/**
+ * Generate SVG path for a smooth closed curve through the points, using a
+ * uniform Catmull-Rom spline converted to cubic Bézier segments. Falls back
+ * to `polygonPath` for fewer than three points.
+ * @param points Vertices in drawing order
+ * @returns SVG path d attribute, or '' when there are no points
+ */
+export function smoothClosedPath(points: Point[]): string {
+  if (points.length < 3) return polygonPath(points);
+  const parts = [`M ${points[0].x} ${points[0].y}`];
+  for (const { c1, c2, to } of smoothClosedCurve(points)) {
+    parts.push(`C ${c1.x} ${c1.y} ${c2.x} ${c2.y} ${to.x} ${to.y}`);
+  }
+  parts.push('Z');
+  return parts.join(' ');
+}
+
 /**
  * Calculate the angle span for each segment
  * @param segmentCount Number of segments (must be > 0)
@@ -143,23 +223,77 @@ export function segmentAngle(segmentCount: number): number {
   return 360 / segmentCount;
 }
 
+/** Angular extent of a segment or facet, in degrees */
+export interface AngleSpan {
+  startAngle: number;
+  endAngle: number;
+  midAngle: number;
+}
+
+/**
+ * Split `totalAngle` into consecutive spans proportional to `weights`.
+ * Equal weights take the same even split as `segmentAngle`/`facetAngles`, so
+ * unweighted diagrams keep identical coordinates.
+ */
+function weightedSpans(startAngle: number, totalAngle: number, weights: number[]): AngleSpan[] {
+  if (weights.some((w) => !(w > 0))) {
+    throw new Error('weights must be greater than 0');
+  }
+  if (weights.every((w) => w === weights[0])) {
+    const span = totalAngle / weights.length;
+    return weights.map((_, i) => {
+      const start = startAngle + i * span;
+      const end = start + span;
+      return { startAngle: start, endAngle: end, midAngle: (start + end) / 2 };
+    });
+  }
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  let cumulative = 0;
+  return weights.map((w) => {
+    const start = startAngle + (totalAngle * cumulative) / total;
+    cumulative += w;
+    const end = startAngle + (totalAngle * cumulative) / total;
+    return { startAngle: start, endAngle: end, midAngle: (start + end) / 2 };
+  });
+}
+
+/**
+ * Calculate angles for every segment around the wheel
+ * @param startAngle Angle of the first segment's leading edge
+ * @param weights Relative angular weight per segment (all > 0)
+ * @returns Array of { startAngle, endAngle, midAngle } for each segment
+ * @throws Error if weights is empty or any weight is not greater than 0
+ */
+export function segmentAngles(startAngle: number, weights: number[]): AngleSpan[] {
+  if (weights.length === 0) {
+    throw new Error('segmentCount must be greater than 0');
+  }
+  return weightedSpans(startAngle, 360, weights);
+}
+
 /**
  * Calculate angles for facets within a segment
  * @param segmentStartAngle Start angle of the segment
  * @param segmentEndAngle End angle of the segment
- * @param facetCount Number of facets in segment (must be > 0)
+ * @param facets Number of facets in segment (must be > 0), or one relative
+ *   weight per facet for uneven widths
  * @returns Array of { startAngle, endAngle, midAngle } for each facet
- * @throws Error if facetCount is not greater than 0
+ * @throws Error if the facet count is not greater than 0 or a weight is not greater than 0
  */
 export function facetAngles(
   segmentStartAngle: number,
   segmentEndAngle: number,
-  facetCount: number
-): Array<{ startAngle: number; endAngle: number; midAngle: number }> {
+  facets: number | number[]
+): AngleSpan[] {
+  const weights = typeof facets === 'number' ? null : facets;
+  const facetCount = weights ? weights.length : (facets as number);
   if (facetCount <= 0) {
     throw new Error('facetCount must be greater than 0');
   }
   const totalAngle = segmentEndAngle - segmentStartAngle;
+  if (weights) {
+    return weightedSpans(segmentStartAngle, totalAngle, weights);
+  }
   const facetAngleSpan = totalAngle / facetCount;
 
   return Array.from({ length: facetCount }, (_, i) => {
@@ -170,14 +304,54 @@ export function facetAngles(
   });
 }
 
+/** Something `nestedAngles` divides: a relative weight (default 1) and optional children */
+export interface AngleTreeNode {
+  weight?: number;
+  children?: AngleTreeNode[];
+}
+
+/** A node's angular extent plus those of its children (empty for a leaf) */
+export interface NestedAngleSpan extends AngleSpan {
+  children: NestedAngleSpan[];
+}
+
 /**
- * Calculate radius for a given score level
- * Uses level-based calculation where score 1 = 1/5, score 5 = 5/5 (for 1-5 scale)
+ * `facetAngles` applied recursively: split `startAngle`..`endAngle` between
+ * the nodes by weight, then each node's span between its own children
+ * @param startAngle Start angle of the span being divided
+ * @param endAngle End angle of the span being divided
+ * @param nodes The nodes (must be non-empty), e.g. facets with sub-facets
+ * @returns One span per node, with `children` spans nested inside it
+ * @throws Error if `nodes` is empty or a weight is not greater than 0
+ */
+export function nestedAngles(startAngle: number, endAngle: number, nodes: AngleTreeNode[]): NestedAngleSpan[] {
+  return facetAngles(startAngle, endAngle, nodes.map((n) => n.weight ?? 1)).map((span, i) => {
+    const children = nodes[i].children;
+    return { ...span, children: children && children.length > 0 ? nestedAngles(span.startAngle, span.endAngle, children) : [] };
+  });
+}
+
+/**
+ * How scores map to radii between the hub and the outer edge:
+ * - `'level'`: one equal band per score level, so the lowest score already
+ *   fills the first band (score 1 = 1/5 of the radius range on a 1-5 scale)
+ * - `'linear'`: radius grows linearly from the hub at `min` to the edge at `max`
+ * - `'area'`: the wedge's area, measured from the hub, grows linearly from
+ *   `min` to `max`, so a score twice as far up the scale covers twice the area
+ * - `'sqrt'`: radius grows with the square root of the score's position
+ *   between `min` and `max` (the same as `'area'` for a zero-radius hub)
+ */
+export type ScaleMapping = 'level' | 'linear' | 'area' | 'sqrt';
+
+/**
+ * Calculate radius for a given score
+ * Uses level-based calculation by default, where score 1 = 1/5, score 5 = 5/5 (for 1-5 scale)
  * @param score The score value (will be clamped to valid range)
  * @param minScore Minimum score in scale
  * @param maxScore Maximum score in scale
  * @param innerRadius Radius of center hub
  * @param outerRadius Maximum outer radius
+ * @param mapping Score-to-radius mapping. Default `'level'`.
  * @throws Error if minScore > maxScore or innerRadius >= outerRadius
  */
 export function scoreToRadius(
@@ -185,7 +359,8 @@ export function scoreToRadius(
   minScore: number,
   maxScore: number,
   innerRadius: number,
-  outerRadius: number
+  outerRadius: number,
+  mapping: ScaleMapping = 'level'
 ): number {
   if (minScore > maxScore) {
     throw new Error('minScore must be less than or equal to maxScore');
@@ -199,10 +374,70 @@ export function scoreToRadius(
   }
   // Clamp score to valid range
   const clampedScore = Math.max(minScore, Math.min(maxScore, score));
-  const levels = maxScore - minScore + 1; // 5 levels for 1-5 scale
   const radiusRange = outerRadius - innerRadius;
-  const normalizedScore = (clampedScore - minScore + 1) / levels;
-  return innerRadius + normalizedScore * radiusRange;
+  const fraction = (clampedScore - minScore) / (maxScore - minScore); // 0 at min, 1 at max
+  switch (mapping) {
+    case 'linear':
+      return innerRadius + fraction * radiusRange;
+    case 'area':
+      return Math.sqrt(innerRadius * innerRadius + fraction * (outerRadius * outerRadius - innerRadius * innerRadius));
+    case 'sqrt':
+      return innerRadius + Math.sqrt(fraction) * radiusRange;
+    default: {
+      const levels = maxScore - minScore + 1; // 5 levels for 1-5 scale
+      const normalizedScore = (clampedScore - minScore + 1) / levels;
+      return innerRadius + normalizedScore * radiusRange;
+    }
+  }
+}
+
+/**
+ * Score at a given radius, the inverse of `scoreToRadius`. With the `'level'`
+ * mapping the hub edge is `minScore - 1`; with the others it is `minScore`.
+ * The outer edge is `maxScore`. Not clamped.
+ * @param radius Distance from center
+ * @param minScore Minimum score in scale
+ * @param maxScore Maximum score in scale
+ * @param innerRadius Radius of center hub
+ * @param outerRadius Maximum outer radius
+ * @param mapping Score-to-radius mapping. Default `'level'`.
+ * @throws Error if minScore > maxScore or innerRadius >= outerRadius
+ */
+export function radiusToScore(
+  radius: number,
+  minScore: number,
+  maxScore: number,
+  innerRadius: number,
+  outerRadius: number,
+  mapping: ScaleMapping = 'level'
+): number {
+  if (minScore > maxScore) {
+    throw new Error('minScore must be less than or equal to maxScore');
+  }
+  if (innerRadius >= outerRadius) {
+    throw new Error('innerRadius must be less than outerRadius');
+  }
+  // A flat diagram (min === max) has a single score
+  if (minScore === maxScore) {
+    return maxScore;
+  }
+  const normalizedRadius = (radius - innerRadius) / (outerRadius - innerRadius);
+  const range = maxScore - minScore;
+  switch (mapping) {
+    case 'linear':
+      return minScore + normalizedRadius * range;
+    case 'area': {
+      const inner2 = innerRadius * innerRadius;
+      return minScore + ((radius * radius - inner2) / (outerRadius * outerRadius - inner2)) * range;
+    }
+    case 'sqrt':
+      // Sign kept so radii inside the hub still give scores below min
+      return minScore + normalizedRadius * Math.abs(normalizedRadius) * range;
+    default: {
+      const levels = maxScore - minScore + 1;
+      return normalizedRadius * levels + minScore - 1;
+    }
+  }
 }
 
 /**
@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest';
+import { hitTest } from './hittest.js';
+import { polarToCartesian } from './geometry.js';
+import { computeLayout } from './layout.js';
+import { DEFAULT_STYLE, DEFAULT_SCALE, DiagramConfig } from './types.js';
+
+const config: DiagramConfig = {
+  size: 800,
+  startAngle: -90,
+  center: { label: 'Hub', radius: 100, color: '#333333' },
+  scale: { ...DEFAULT_SCALE },
+  segments: [
+    {
+      name: 'Strategy',
+      color: '#ff0000',
+      facets: [
+        { name: 'Vision', score: 4 },
+        { name: 'Planning', score: 3, figure: '60%' },
+      ],
+    },
+    { name: 'People', color: '#0000ff', facets: [{ name: 'Skills' }] },
+  ],
+  style: { ...DEFAULT_STYLE },
+};
+
+const withStyle = (style: DiagramConfig['style']): DiagramConfig => ({ ...config, style: { ...config.style, ...style } });
+
+/** Two levels: Vision split into two sub-facets, so rings 100→230 and 230→360 */
+const sunburst: DiagramConfig = {
+  ...config,
+  segments: [
+    {
+      ...config.segments[0],
+      facets: [
+        { name: 'Vision', children: [{ name: 'Clarity', score: 4 }, { name: 'Reach', score: 2 }] },
+        config.segments[0].facets[1],
+      ],
+    },
+    config.segments[1],
+  ],
+};
+
+/** Hit-test at a polar position, in a 940px render where pixels equal viewBox units (+70 padding). */
+const at = (cfg: DiagramConfig, radius: number, angle: number) => {
+  const p = polarToCartesian(400, 400, radius, angle);
+  return hitTest(cfg, p.x + 70, p.y + 70, { width: 940 });
+};
+
+describe('hitTest', () => {
+  it('finds the hub at the centre', () => {
+    expect(at(config, 0, 0)?.region).toBe('hub');
+    expect(at({ ...config, center: { ...config.center, visible: false } }, 0, 0)).toBeUndefined();
+  });
+
+  it('reports the facet, region and score under a point', () => {
+    const fill = at(config, 200, -45);
+    expect(fill).toMatchObject({ region: 'fill', segmentIndex: 0, facetIndex: 0 });
+    expect(fill?.score).toBeCloseTo(100 / 260 * 5);
+    expect(fill?.radius).toBeCloseTo(200);
+    expect(fill?.angle).toBeCloseTo(-45);
+
+    const track = at(config, 330, -45);
+    expect(track).toMatchObject({ region: 'track', segmentIndex: 0, facetIndex: 0 });
+    expect(track?.score).toBeCloseTo(230 / 260 * 5);
+
+    expect(at(config, 200, 180)).toMatchObject({ region: 'track', segmentIndex: 1, facetIndex: 0 });
+  });
+
+  it('reads the score through scale.mapping', () => {
+    const cfg = { ...config, scale: { ...DEFAULT_SCALE, mapping: 'linear' as const } };
+    expect(at(cfg, 295, -45)?.score).toBeCloseTo(4);
+  });
+
+  it('clamps the score to the scale', () => {
+    expect(at(config, 110, -45)?.score).toBe(1);
+  });
+
+  it('hits the label band outside the wheel, and nothing beyond it', () => {
+    const band = at(config, 380, 45);
+    expect(band).toMatchObject({ region: 'label-band', segmentIndex: 0 });
+    expect(band?.facetIndex).toBeUndefined();
+    expect(band?.score).toBeUndefined();
+    expect(at(config, 460, 45)).toBeUndefined();
+  });
+
+  it('hits the group band outside the segment label band', () => {
+    const grouped: DiagramConfig = {
+      ...config,
+      groups: [{ name: 'Pillar', color: '#222222' }],
+      segments: [{ ...config.segments[0], group: 'Pillar' }, config.segments[1]],
+    };
+    const { padding, viewSize, groupLabels } = computeLayout(grouped);
+    const radius = (groupLabels!.innerRadius + groupLabels!.outerRadius) / 2;
+    const near = (r: number, angle: number) => {
+      const p = polarToCartesian(400, 400, r, angle);
+      return hitTest(grouped, p.x + padding, p.y + padding, { width: viewSize });
+    };
+    const hit = near(radius, 45);
+    expect(hit).toMatchObject({ region: 'group', groupIndex: 0 });
+    expect(hit?.segmentIndex).toBeUndefined();
+    expect(near(radius, 135)).toBeUndefined();
+    expect(near(380, 45)).toMatchObject({ region: 'label-band', segmentIndex: 0 });
+  });
+
+    it('hits the inner label band over the facet area', () => {
+    const cfg = withStyle({ segmentLabelPosition: 'inner' });
+    expect(at(cfg, 150, -45)).toMatchObject({ region: 'label-band', segmentIndex: 0 });
+    expect(at(cfg, 250, -45)).toMatchObject({ region: 'fill', segmentIndex: 0, facetIndex: 0 });
+  });
+
+  it('hits the figure ring only where a facet has a figure', () => {
+    expect(at(config, 112, 45)).toMatchObject({ region: 'figure-ring', segmentIndex: 0, facetIndex: 1 });
+    expect(at(config, 112, -45)?.region).toBe('fill');
+  });
+
+  it('follows startAngle', () => {
+    const cfg = { ...config, startAngle: 0 };
+    expect(at(cfg, 200, 45)).toMatchObject({ segmentIndex: 0, facetIndex: 0 });
+    expect(at(cfg, 200, -45)).toMatchObject({ segmentIndex: 1, angle: expect.closeTo(315) });
+  });
+
+  it('misses the facet padding gaps', () => {
+    const cfg = withStyle({ facetPadding: 5 });
+    expect(at(cfg, 200, 2)).toBeUndefined();
+    expect(at(cfg, 200, 10)).toMatchObject({ region: 'fill', segmentIndex: 0, facetIndex: 1 });
+  });
+
+  it('tests radar fills against the score shape', () => {
+    const cfg: DiagramConfig = {
+      ...withStyle({ scoreShape: 'polygon' }),
+      segments: [config.segments[0], { ...config.segments[1], facets: [{ name: 'Skills', score: 2 }] }],
+    };
+    expect(at(cfg, 120, 45)?.region).toBe('fill');
+    expect(at(cfg, 300, 45)?.region).toBe('track');
+  });
+
+  it('validates in strict mode when asked', () => {
+    const brand = { ...config, center: { ...config.center, color: 'var(--brand)' } };
+    expect(hitTest(brand, 470, 470, { width: 940 })?.region).toBe('hub');
+    expect(() => hitTest(brand, 470, 470, { width: 940, strict: true })).toThrow('is not an allowed CSS colour');
+  });
+
+  it('reuses a precomputed layout instead of laying out again', () => {
+    const layout = computeLayout(config);
+    const p = polarToCartesian(400, 400, 300, 45);
+    const hit = hitTest(config, p.x + 70, p.y + 70, { width: 940, layout });
+    expect(hit).toEqual(at(config, 300, 45));
+    // An invalid config is not re-validated when its layout is given
+    const invalid = { ...config, scale: { ...config.scale, rings: 0 } };
+    expect(() => at(invalid, 300, 45)).toThrow('Invalid diagram configuration');
+    expect(hitTest(invalid, p.x + 70, p.y + 70, { width: 940, layout })?.region).toBe(hit?.region);
+  });
+
+  it('maps element pixels through the viewBox padding', () => {
+    // Default width is config.size, so 800px spans the 940-unit viewBox
+    expect(hitTest(config, 400, 400)?.region).toBe('hub');
+    expect(hitTest(config, 520 / 1.175, 270 / 1.175)).toMatchObject({ region: 'fill', segmentIndex: 0, facetIndex: 0 });
+    expect(hitTest(config, 0, 0)).toBeUndefined();
+  });
+
+  it('finds sub-facets by ring in sunburst mode', () => {
+    expect(at(sunburst, 150, -60)).toMatchObject({ region: 'fill', facetIndex: 0, score: expect.closeTo(1.92) });
+    expect(at(sunburst, 150, -60)?.childPath).toBeUndefined();
+    expect(at(sunburst, 256, -60)).toMatchObject({ region: 'fill', facetIndex: 0, childPath: [0], score: 1 });
+    expect(at(sunburst, 300, -30)).toMatchObject({ region: 'track', facetIndex: 0, childPath: [1] });
+    // Planning has no sub-facets, so its outer ring is bare track
+    const bare = at(sunburst, 300, 45);
+    expect(bare).toMatchObject({ region: 'track', segmentIndex: 0 });
+    expect(bare?.facetIndex).toBeUndefined();
+  });
+});
+
@@ -0,0 +1,215 @@
+/**
+ * Hit-testing: map a pointer position on a rendered diagram back to the
+ * segment, facet and score under it
+ *
+ * @license MIT
+ * @copyright 2026 CGA Management Ltd
+ * @see https://www.cgamanagement.co.uk/category/tools
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import type { DiagramConfig, ValidateOptions } from './types.js';
+import { cartesianToPolar, radiusToScore } from './geometry.js';
+import type { Point } from './geometry.js';
+import { computeLayout } from './layout.js';
+import type { DiagramLayout, Wedge } from './layout.js';
+
+/**
+ * Part of the diagram under the pointer, topmost first: the group label band,
+ * the segment label band, the facet figure ring, a score fill, an unscored
+ * track, or the hub.
+ */
+export type HitRegion = 'group' | 'label-band' | 'figure-ring' | 'fill' | 'track' | 'hub';
+
+/** Options for `hitTest`; `strict` validates as in `computeLayout`. */
+export interface HitTestOptions extends ValidateOptions {
+  /**
+   * Rendered width of the diagram in pixels, the space `x` / `y` are in.
+   * Defaults to `config.size` (the SVG `width` attribute); pass the element's
+   * client width when CSS scales it, or the `width` given to `CanvasRenderer`.
+   */
+  width?: number;
+  /**
+   * `computeLayout(config)`, when the caller already has it: saves laying the
+   * diagram out again on every pointer event. Must be the layout of `config`.
+   */
+  layout?: DiagramLayout;
+}
+
+/** What `hitTest` found under a point */
+export interface HitResult {
+  region: HitRegion;
+  /** Group under the point (the `'group'` region only) */
+  groupIndex?: number;
+  /** Segment under the point (undefined on the hub and the group band) */
+  segmentIndex?: number;
+  /**
+   * Facet under the point (undefined on the hub and the label band, and in
+   * sunburst mode outside any facet's ring)
+   */
+  facetIndex?: number;
+  /** In sunburst mode, the child indices below `facetIndex` of the sub-facet under the point */
+  childPath?: number[];
+  /**
+   * Score at the point's radius (inverse of `scoreToRadius`) within the
+   * facet's ring, clamped to the scale. Set for the `'fill'`, `'track'` and
+   * `'figure-ring'` regions whenever `facetIndex` is.
+   */
+  score?: number;
+  /** The point in diagram (viewBox) coordinates */
+  point: Point;
+  /** Distance from the diagram centre */
+  radius: number;
+  /** Angle in degrees, normalised into `[startAngle, startAngle + 360)` */
+  angle: number;
+}
+
+/** True when a point at `radius` / normalised `angle` lies inside `wedge`. */
+function inWedge(wedge: Wedge, radius: number, angle: number): boolean {
+  return radius >= wedge.innerRadius && radius <= wedge.outerRadius
+    && angle >= wedge.startAngle && angle < wedge.endAngle;
+}
+
+/** True when `point` lies inside the closed polygon through `points` (even-odd rule). */
+function inPolygon(point: Point, points: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i];
+    const b = points[j];
+    if ((a.y > point.y) !== (b.y > point.y)
+      && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/** Segment and facet whose angular span contains `angle`. */
+function spanAt(layout: DiagramLayout, angle: number): { segmentIndex: number; facetIndex: number } | undefined {
+  for (let segmentIndex = 0; segmentIndex < layout.spans.length; segmentIndex++) {
+    const span = layout.spans[segmentIndex];
+    if (angle < span.startAngle || angle >= span.endAngle) continue;
+    const facetIndex = span.facets.findIndex((f) => angle >= f.startAngle && angle < f.endAngle);
+    return { segmentIndex, facetIndex: facetIndex === -1 ? span.facets.length - 1 : facetIndex };
+  }
+  return undefined;
+}
+
+/**
+ * In sunburst mode, the sub-facet of a top-level facet whose ring contains
+ * `radius` at `angle`, with that ring's radii; undefined when the facet does
+ * not reach that level. Without sub-facets, the facet itself across the wheel.
+ */
+function nodeAt(
+  config: DiagramConfig,
+  layout: DiagramLayout,
+  at: { segmentIndex: number; facetIndex: number },
+  radius: number,
+  angle: number
+): { childPath?: number[]; innerRadius: number; outerRadius: number } | undefined {
+  const levels = layout.levels ?? [layout.innerRadius, layout.outerRadius];
+  let depth = levels.findIndex((r, i) => i > 0 && radius <= r) - 1;
+  if (depth < 0) depth = 0;
+  let facet = config.segments[at.segmentIndex].facets[at.facetIndex];
+  let span = layout.spans[at.segmentIndex].facets[at.facetIndex];
+  const childPath: number[] = [];
+  while (childPath.length < depth) {
+    const children = facet.children ?? [];
+    if (children.length === 0) return undefined;
+    const k = span.children.findIndex((c) => angle >= c.startAngle && angle < c.endAngle);
+    const index = k === -1 ? span.children.length - 1 : k;
+    childPath.push(index);
+    facet = children[index];
+    span = span.children[index];
+  }
+  return {
+    ...(childPath.length > 0 && { childPath }),
+    innerRadius: levels[depth],
+    outerRadius: levels[depth + 1],
+  };
+}
+
+/** True when two child paths name the same facet (undefined for a top-level facet). */
+function samePath(a: number[] | undefined, b: number[] | undefined): boolean {
+  return (a ?? []).join('.') === (b ?? []).join('.');
+}
+
+/**
+ * Find what is drawn under a pointer position: the inverse of the renderers'
+ * layout. Respects `startAngle`, weighted widths, facet padding (the gaps hit
+ * nothing), the label band position, the group band and the viewBox padding
+ * around the wheel.
+ * In radar mode a facet counts as `'fill'` when the point is inside a score
+ * shape (smooth shapes are tested against their polygon). In sunburst mode
+ * the hit names the sub-facet in the ring under the point.
+ * @param config Diagram configuration
+ * @param x Pointer X, in pixels from the left edge of the rendered diagram
+ * @param y Pointer Y, in pixels from the top edge
+ * @param options Rendered width, validation options and an optional precomputed layout
+ * @returns The hit, or undefined when the point is outside the diagram
+ * @throws Error when the config is invalid
+ */
+export function hitTest(config: DiagramConfig, x: number, y: number, options: HitTestOptions = {}): HitResult | undefined {
+  const layout = options.layout ?? computeLayout(config, { strict: options.strict });
+  const { scale, startAngle } = config;
+  const toView = layout.viewSize / (options.width ?? config.size);
+  const point = { x: x * toView - layout.padding, y: y * toView - layout.padding };
+  const polar = cartesianToPolar(layout.center.x, layout.center.y, point.x, point.y);
+  const radius = polar.radius;
+  const angle = startAngle + ((((polar.angle - startAngle) % 360) + 360) % 360);
+  const base = { point, radius, angle };
+  const at = spanAt(layout, angle);
+
+  const group = layout.groupLabels?.bands.find((b) => inWedge(b, radius, angle));
+  if (group) {
+    return { ...base, region: 'group', groupIndex: group.groupIndex };
+  }
+
+  // Segment label band next: in 'inner' position it is painted over the facet area
+  const band = layout.segmentLabels.bands.find((b) => inWedge(b, radius, angle));
+  if (band) {
+    return { ...base, region: 'label-band', segmentIndex: band.segmentIndex };
+  }
+
+  if (radius <= layout.innerRadius) {
+    return layout.hub ? { ...base, region: 'hub' } : undefined;
+  }
+  if (radius > layout.outerRadius || !at) return undefined;
+
+  const node = nodeAt(config, layout, at, radius, angle);
+  if (!node) {
+    // Beyond a shallower facet's last ring: only its segment's track is there
+    const track = layout.tracks.some((t) => t.facetIndex === undefined && inWedge(t, radius, angle));
+    return track ? { ...base, region: 'track', segmentIndex: at.segmentIndex } : undefined;
+  }
+  const { childPath } = node;
+  const score = Math.max(
+    scale.min,
+    Math.min(scale.max, radiusToScore(radius, scale.min, scale.max, node.innerRadius, node.outerRadius, scale.mapping))
+  );
+  const hit = { ...base, ...at, ...(childPath && { childPath }), score };
+
+  const figures = layout.figures;
+  if (figures && !childPath && Math.abs(radius - figures.radius) <= figures.fontSize / 2
+    && figures.figures.some((f) => f.segmentIndex === at.segmentIndex && f.facetIndex === at.facetIndex)) {
+    return { ...hit, region: 'figure-ring' };
+  }
+
+  const { scores } = layout;
+  const filled = scores.shape === 'wedge'
+    ? scores.layers.some((l) => l.wedges.some((w) =>
+      w.segmentIndex === at.segmentIndex && w.facetIndex === at.facetIndex && samePath(w.childPath, childPath)
+      && inWedge(w, radius, angle)))
+    : scores.shapes.some((s) => s.points.length >= 3 && inPolygon(point, s.points));
+  if (filled) {
+    return { ...hit, region: 'fill' };
+  }
+
+  // Tracks carry the facet padding, so the gaps between facets miss
+  if (layout.tracks.some((t) => inWedge(t, radius, angle))) {
+    return { ...hit, region: 'track' };
+  }
+  return undefined;
+}
@@ -0,0 +1,322 @@
+import { describe, it, expect } from 'vitest';
+import { computeLayout } from './layout.js';
+import { DEFAULT_STYLE, DEFAULT_SCALE, DiagramConfig } from './types.js';
+
+const config: DiagramConfig = {
+  size: 800,
+  startAngle: -90,
+  center: { label: 'Hub', radius: 100, color: '#333333' },
+  scale: { ...DEFAULT_SCALE },
+  segments: [
+    {
+      name: 'Strategy',
+      color: '#ff0000',
+      facets: [
+        { name: 'Vision', score: 4 },
+        { name: 'Planning', score: 3, figure: '60%' },
+      ],
+    },
+    { name: 'People', color: '#0000ff', facets: [{ name: 'Skills' }] },
+  ],
+  style: { ...DEFAULT_STYLE },
+};
+
+const withStyle = (style: DiagramConfig['style']): DiagramConfig => ({ ...config, style: { ...config.style, ...style } });
+
+/** Two levels: Vision split into two sub-facets, so rings 100→230 and 230→360 */
+const sunburst: DiagramConfig = {
+  ...config,
+  segments: [
+    {
+      ...config.segments[0],
+      facets: [
+        { name: 'Vision', children: [{ name: 'Clarity', score: 4 }, { name: 'Reach', score: 2 }] },
+        config.segments[0].facets[1],
+      ],
+    },
+    config.segments[1],
+  ],
+};
+
+describe('computeLayout', () => {
+  it('throws on invalid config', () => {
+    expect(() => computeLayout({ ...config, size: 0 })).toThrow('Invalid diagram configuration');
+  });
+
+  it('places the wheel in the padded view square', () => {
+    const layout = computeLayout(config);
+    expect(layout.center).toEqual({ x: 400, y: 400 });
+    expect(layout.outerRadius).toBe(360);
+    expect(layout.innerRadius).toBe(100);
+    expect(layout.viewSize).toBe(800 + layout.padding * 2);
+    expect(layout.spans.map((s) => [s.startAngle, s.endAngle])).toEqual([[-90, 90], [90, 270]]);
+  });
+
+  it('sizes score wedges from the hub edge to the score radius, skipping unscored facets', () => {
+    const { scores } = computeLayout(config);
+    expect(scores.shape).toBe('wedge');
+    expect(scores.layers).toHaveLength(1);
+    expect(scores.layers[0].series).toBeUndefined();
+    expect(scores.layers[0].wedges).toEqual([
+      { segmentIndex: 0, facetIndex: 0, score: 4, color: '#ff0000', innerRadius: 100, outerRadius: 308, startAngle: -90, endAngle: 0 },
+      { segmentIndex: 0, facetIndex: 1, score: 3, color: '#ff0000', innerRadius: 100, outerRadius: 256, startAngle: 0, endAngle: 90 },
+    ]);
+  });
+
+  it('lists one wedge layer per score series', () => {
+    const layout = computeLayout({
+      ...config,
+      series: [{ key: 'current' }, { key: 'target', style: 'outline', color: '#000000' }],
+      segments: [{ name: 'S', color: '#ff0000', facets: [{ name: 'F', scores: { current: 2, target: 5 } }] }],
+    });
+    expect(layout.scores.layers.map((l) => [l.series?.key, l.mode, l.wedges[0].color])).toEqual([
+      ['current', 'filled', '#ff0000'],
+      ['target', 'outline', '#000000'],
+    ]);
+  });
+
+  it('traces radar shapes through facet mid-angles', () => {
+    const { scores } = computeLayout(withStyle({ scoreShape: 'polygon' }));
+    expect(scores.layers).toEqual([]);
+    expect(scores.shapes).toHaveLength(1);
+    expect(scores.shapes[0].points).toHaveLength(2);
+    expect(scores.shapes[0].markers.map((m) => m.color)).toEqual(['#ff0000', '#ff0000']);
+  });
+
+  it('skips the hub boundary in ring radii', () => {
+    expect(computeLayout(config).rings?.radii).toEqual([152, 204, 256, 308, 360]);
+  });
+
+  it('places fills, rings and score labels by scale.mapping', () => {
+    const layout = computeLayout({
+      ...withStyle({ showScoreLabels: true }),
+      scale: { ...DEFAULT_SCALE, rings: 4, mapping: 'linear' },
+    });
+    expect(layout.scores.layers[0].wedges.map((w) => w.outerRadius)).toEqual([295, 230]);
+    expect(layout.rings?.radii).toEqual([165, 230, 295, 360]);
+    expect(layout.scoreLabels?.labels.map((l) => [l.text, l.radius])).toEqual([
+      ['2', 132.5],
+      ['3', 197.5],
+      ['4', 262.5],
+      ['5', 327.5],
+    ]);
+
+    const area = computeLayout({ ...config, scale: { ...DEFAULT_SCALE, mapping: 'area' } });
+    expect(area.scores.layers[0].wedges[1].outerRadius).toBeCloseTo(Math.sqrt(100 ** 2 + (360 ** 2 - 100 ** 2) / 2));
+    expect(area.rings?.radii[4]).toBe(360);
+  });
+
+  it('grows diverging fills both ways from the baseline ring', () => {
+    const layout = computeLayout({
+      ...withStyle({ positiveColor: '#00aa00', negativeColor: '#aa0000' }),
+      scale: { min: -5, max: 5, rings: 10, mapping: 'linear', baseline: 0 },
+      segments: [{ name: 'S', color: '#0000ff', facets: [{ name: 'Up', score: 4 }, { name: 'Down', score: -3 }] }],
+    });
+    expect(layout.baseline).toEqual({ radius: 230, color: '#333333', width: 2 });
+    expect(layout.scores.layers[0].wedges.map((w) => [w.innerRadius, w.outerRadius, w.color])).toEqual([
+      [230, 334, '#00aa00'],
+      [152, 230, '#aa0000'],
+    ]);
+    expect(computeLayout(config).baseline).toBeUndefined();
+  });
+
+  it('lays out range marks over the padded facet span, with style defaults', () => {
+    const ranged: DiagramConfig = {
+      ...config,
+      segments: [{ ...config.segments[0], facets: [{ name: 'Vision', score: 4, range: { low: 3, high: 5 } }, config.segments[0].facets[1]] }, config.segments[1]],
+    };
+    const layout = computeLayout(ranged);
+    const [fill, planning] = layout.scores.layers[0].wedges;
+    expect(layout.ranges).toMatchObject({ style: 'band', color: '#000000', opacity: 0.25, strokeWidth: 2 });
+    expect(layout.ranges?.marks).toEqual([
+      {
+        segmentIndex: 0,
+        facetIndex: 0,
+        low: 3,
+        high: 5,
+        innerRadius: planning.outerRadius,
+        outerRadius: 360,
+        startAngle: fill.startAngle,
+        endAngle: fill.endAngle,
+        midAngle: (fill.startAngle + fill.endAngle) / 2,
+      },
+    ]);
+    expect(computeLayout(config).ranges).toBeUndefined();
+  });
+
+  it('lays out target ticks, gap shading and gap figures', () => {
+    const targeted: DiagramConfig = {
+      ...withStyle({ facetPadding: 1, showTargetGap: true, targetGapFigures: true, targetGapOverColor: '#00aa00' }),
+      segments: [
+        {
+          ...config.segments[0],
+          facets: [
+            { name: 'Vision', score: 3.2, target: 4.7 },
+            { name: 'Planning', score: 3, target: 2, figure: '60%' },
+          ],
+        },
+        { name: 'People', color: '#0000ff', facets: [{ name: 'Skills', target: 4 }] },
+      ],
+    };
+    const layout = computeLayout(targeted);
+    const [vision, planning] = layout.scores.layers[0].wedges;
+    const targets = layout.targets!;
+    expect(targets).toMatchObject({ color: '#222222', width: 3, gapOpacity: 0.35 });
+    expect(targets.marks.map((m) => [m.target, m.startAngle, m.endAngle])).toEqual([
+      [4.7, vision.startAngle, vision.endAngle],
+      [2, planning.startAngle, planning.endAngle],
+      [4, 91, 269],
+    ]);
+    expect(targets.gaps?.map((g) => [g.gap, g.color, g.innerRadius, g.outerRadius])).toEqual([
+      [-1.5, '#d32f2f', vision.outerRadius, targets.marks[0].radius],
+      [1, '#00aa00', targets.marks[1].radius, planning.outerRadius],
+    ]);
+    expect(layout.figures?.figures.map((f) => [f.text, f.color])).toEqual([
+      ['-1.5', '#d32f2f'],
+      ['+1', '#00aa00'],
+    ]);
+
+    const plain = computeLayout({ ...targeted, style: config.style });
+    expect(plain.targets?.gaps).toBeUndefined();
+    expect(plain.figures?.figures.map((f) => f.text)).toEqual(['60%']);
+    expect(computeLayout(config).targets).toBeUndefined();
+  });
+
+  it('lays out a hatched track and text for insufficient facets', () => {
+    const sparse: DiagramConfig = {
+      ...withStyle({ insufficientText: 'Too few' }),
+      segments: [config.segments[0], { ...config.segments[1], facets: [{ name: 'Skills', insufficient: true }] }],
+    };
+    const layout = computeLayout(sparse);
+    const insufficient = layout.insufficient!;
+    expect(insufficient).toMatchObject({ color: '#888888', text: 'Too few', fontSize: 11 });
+    expect(insufficient.marks).toHaveLength(1);
+    const [mark] = insufficient.marks;
+    const track = layout.tracks.find((t) => t.segmentIndex === 1)!;
+    expect(mark).toMatchObject({ segmentIndex: 1, facetIndex: 0, innerRadius: 100, outerRadius: 360, rotation: 360 });
+    expect([mark.startAngle, mark.endAngle]).toEqual([track.startAngle, track.endAngle]);
+    expect(mark.position.x).toBeCloseTo(400 - (100 + 260 / 3));
+    expect(mark.position.y).toBeCloseTo(400);
+    expect(computeLayout(config).insufficient).toBeUndefined();
+  });
+
+    it('stacks a group band outside the segment band and widens the view', () => {
+    const grouped: DiagramConfig = {
+      ...withStyle({ groupAverageSubLabels: true }),
+      groups: [{ name: 'Pillar', color: '#222222' }],
+      segments: [
+        { ...config.segments[0], group: 'Pillar' },
+        config.segments[1],
+        { name: 'Tech', color: '#00ff00', facets: [{ name: 'Data', score: 2 }] },
+      ],
+    };
+    const plain = computeLayout({ ...grouped, groups: undefined, segments: grouped.segments.map((s) => ({ ...s, group: undefined })) });
+    const layout = computeLayout(grouped);
+    const groups = layout.groupLabels!;
+    const span = layout.spans[0];
+    expect(groups.innerRadius).toBe(layout.segmentLabels.outerRadius + 2);
+    expect(layout.padding).toBeCloseTo(70 + groups.outerRadius - layout.segmentLabels.outerRadius);
+    expect(layout.viewSize).toBe(800 + layout.padding * 2);
+    expect(groups.bands).toEqual([
+      { groupIndex: 0, innerRadius: groups.innerRadius, outerRadius: groups.outerRadius, startAngle: span.startAngle, endAngle: span.endAngle, color: '#222222' },
+    ]);
+    expect(groups.labels[0].rows.map((r) => [r.text, r.isSub])).toEqual([['Pillar', false], ['3.5', true]]);
+    expect(groups.rings).toEqual([{ radius: layout.segmentLabels.outerRadius, color: '#ffffff', width: 4 }]);
+    expect(groups.dividers.map((d) => d.width)).toEqual([4, 4]);
+
+    // Heavier dividers where the group starts and ends
+    expect(layout.segmentDividers?.map((d) => d.width)).toEqual([4, 4, 2]);
+    expect(layout.segmentLabels.dividers.map((d) => d.width)).toEqual([4, 4, 2]);
+    expect(plain.segmentDividers?.map((d) => d.width)).toEqual([2, 2, 2]);
+    expect(plain.groupLabels).toBeUndefined();
+    expect(plain.padding).toBe(70);
+  });
+
+  it('puts the group band just outside the wheel with inner segment labels', () => {
+    const layout = computeLayout({
+      ...withStyle({ segmentLabelPosition: 'inner' }),
+      groups: [{ name: 'Pillar' }],
+      segments: config.segments.map((s) => ({ ...s, group: 'Pillar' })),
+    });
+    expect(layout.groupLabels?.innerRadius).toBe(360 + 2);
+    expect(layout.groupLabels?.bands[0].color).toBe('#555555');
+    expect(layout.padding).toBe(70);
+  });
+
+  it('leaves opt-in layers undefined', () => {
+    const layout = computeLayout(withStyle({ showRings: false, showSegmentDividers: false }));
+    expect(layout.rings).toBeUndefined();
+    expect(layout.scoreLabels).toBeUndefined();
+    expect(layout.flow).toBeUndefined();
+    expect(layout.segmentDividers).toBeUndefined();
+    expect(layout.segmentLabels.rings).toEqual([]);
+    expect(layout.figures?.figures.map((f) => f.text)).toEqual(['60%']);
+  });
+
+  it('scales the hub font to the label and stacks its lines', () => {
+    const { hub } = computeLayout({ ...config, center: { ...config.center, label: 'Two\nLines' } });
+    expect(hub?.fontSize).toBe(53);
+    expect(hub?.lines.map((l) => l.text)).toEqual(['Two', 'Lines']);
+    expect(hub!.lines[0].position.y).toBeLessThan(400);
+    expect(hub!.lines[1].position.y).toBeGreaterThan(400);
+    expect(hub?.subtitle).toBeUndefined();
+  });
+
+  it('adds the hub subtitle below the label, statistics filled in', () => {
+    const { hub } = computeLayout({ ...config, center: { ...config.center, subtitle: 'Overall {mean:0.1}' } });
+    // Half the 88px label size would not fit the hub, so it shrinks to fit
+    expect(hub?.subtitle).toMatchObject({ text: 'Overall 3.5', fontSize: 24 });
+    // The label moves up so the pair stays centred
+    expect(hub!.lines[0].position.y).toBeCloseTo(400 - 24 * 0.6);
+    expect(hub!.subtitle!.position.y).toBeCloseTo(400 + 88 * 0.6);
+  });
+
+  it('exposes the computed segment label font size and rows', () => {
+    const { segmentLabels } = computeLayout(config);
+    expect(segmentLabels.position).toBe('outer');
+    expect(segmentLabels.innerRadius).toBe(361);
+    expect(segmentLabels.fontSize).toBe(28);
+    expect(segmentLabels.labels[0].rows).toHaveLength(1);
+    expect(segmentLabels.labels[0].rows[0]).toMatchObject({ text: 'Strategy', size: 28, clockwise: true });
+  });
+
+  it('orients facet labels by segment and wraps outer-edge labels', () => {
+    const layout = computeLayout(withStyle({ facetLabelPlacement: 'outer-edge' }));
+    const [vision, planning, skills] = layout.facetLabels.labels;
+    expect(layout.facetLabels.placement).toBe('outer-edge');
+    expect(vision).toMatchObject({ lines: ['VISION'], rotation: -45, anchor: 'end' });
+    expect(planning.anchor).toBe('end');
+    expect(skills).toMatchObject({ rotation: 360, anchor: 'start' });
+  });
+
+  it('adds one flow arrow per boundary', () => {
+    const layout = computeLayout(withStyle({ flowDirection: 'clockwise' }));
+    expect(layout.flow?.arrows).toHaveLength(1);
+    expect(layout.flow?.arrows[0].fill).toBe('#ff0000');
+    // The divider under the arrow is dropped
+    expect(layout.segmentDividers).toHaveLength(1);
+  });
+
+  it('draws each level of sub-facets in its own ring, rolling scores up to parents', () => {
+    expect(computeLayout(config).levels).toBeUndefined();
+    const layout = computeLayout(sunburst);
+    expect(layout.levels).toEqual([100, 230, 360]);
+    expect(layout.spans[0].facets[0].children.map((s) => [s.startAngle, s.endAngle])).toEqual([[-90, -45], [-45, 0]]);
+    expect(layout.scores.layers[0].wedges.map((w) => [w.facetIndex, w.childPath, w.score, w.innerRadius, w.outerRadius])).toEqual([
+      [0, undefined, 3, 100, 178],
+      [0, [0], 4, 230, 334],
+      [0, [1], 2, 230, 282],
+      [1, undefined, 3, 100, 178],
+    ]);
+    // Rings repeat across each level; the baseline ring has no single radius
+    expect(layout.rings?.radii).toEqual([126, 152, 178, 204, 230, 256, 282, 308, 334, 360]);
+    expect(computeLayout({ ...sunburst, scale: { ...sunburst.scale, baseline: 3 } }).baseline).toBeUndefined();
+    const reach = layout.facetLabels.labels.find((l) => l.lines[0] === 'Reach');
+    expect(reach?.childPath).toEqual([1]);
+    expect(layout.facetLabels.labels.find((l) => l.lines[0] === 'Vision')?.position.y).toBeCloseTo(400 - 210 * Math.SQRT1_2);
+    // The sub-facet divider starts at its ring
+    const { from } = layout.facetDividers[0].lines[1];
+    expect(from.x).toBeCloseTo(400 + 230 * Math.SQRT1_2);
+    expect(from.y).toBeCloseTo(400 - 230 * Math.SQRT1_2);
+  });
+});
@@ -0,0 +1,1680 @@
+/**
+ * Renderer-independent layout model: every wedge, line, label position,
+ * font size and arrow of a diagram, computed once from its config
+ *
+ * @license MIT
+ * @copyright 2026 CGA Management Ltd
+ * @see https://www.cgamanagement.co.uk/category/tools
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import type { DiagramConfig, Facet, ScoreSeries, Segment, StyleConfig, ValidateOptions } from './types.js';
+import { validateConfig } from './types.js';
+import { scoreColor } from './color.js';
+import { primaryScore, rolledUpScore, targetGap, formatGap, groupAverage } from './summary.js';
+import { segmentSubLabel, facetFigure, centerSubtitle } from './aggregate.js';
+import { polarToCartesian, nestedAngles, segmentAngles, scoreToRadius, ringRadii } from './geometry.js';
+import type { AngleSpan, NestedAngleSpan, Point } from './geometry.js';
+
+/** Extra space around the wheel (viewBox padding) for labels outside it; a group band adds to it */
+const VIEW_PADDING = 70;
+
+/** A segment's angular span plus the spans of its facets (and their `children`) */
+export interface SegmentSpan extends AngleSpan {
+  facets: NestedAngleSpan[];
+}
+
+/** An annular wedge around the diagram centre (angles in degrees) */
+export interface Wedge {
+  innerRadius: number;
+  outerRadius: number;
+  startAngle: number;
+  endAngle: number;
+}
+
+/** A straight stroke. An unset colour draws nothing visible. */
+export interface LineMark {
+  from: Point;
+  to: Point;
+  color?: string;
+  width?: number;
+  opacity?: number;
+}
+
+/** A circle around the diagram centre, stroked only */
+export interface RingMark {
+  radius: number;
+  color?: string;
+  width: number;
+}
+
+/** Unscored track behind a segment (or, with `style.facetPadding`, a facet) */
+export interface TrackWedge extends Wedge {
+  segmentIndex: number;
+  /** Set when tracks are drawn per facet */
+  facetIndex?: number;
+  /** Set for a sub-facet's track (see `ScoreWedge.childPath`) */
+  childPath?: number[];
+  color: string;
+  opacity: number;
+}
+
+/**
+ * A facet's score wedge, from the hub edge (in sunburst mode, its level's
+ * inner edge) out to its score radius
+ */
+export interface ScoreWedge extends Wedge {
+  segmentIndex: number;
+  facetIndex: number;
+  /** Child indices from `facetIndex` down to a sub-facet; undefined for top-level facets */
+  childPath?: number[];
+  /** The facet's score, rolled up from its children when it has none of its own */
+  score: number;
+  color: string;
+}
+
+/** How a score layer is painted; plain `facet.score` layers are always `'filled'` */
+export type ScoreLayerMode = 'filled' | 'outline' | 'hatched';
+
+/**
+ * One layer of score wedges: the plain `facet.score` layer, or one layer per
+ * entry of `config.series`, in paint order.
+ */
+export interface ScoreWedgeLayer {
+  /** The series drawn, or undefined for the plain `facet.score` layer */
+  series?: ScoreSeries;
+  mode: ScoreLayerMode;
+  /** Opacity of the whole layer; the plain layer applies it to each wedge */
+  opacity?: number;
+  strokeWidth: number;
+  strokeDasharray?: string;
+  wedges: ScoreWedge[];
+}
+
+/** Vertex marker on a radar shape */
+export interface ScoreMarker {
+  point: Point;
+  radius: number;
+  color: string;
+}
+
+/**
+ * One closed radar shape (`style.scoreShape` `'polygon'` / `'smooth'`) through
+ * each scored facet's mid-angle. Layers without scored facets have no points
+ * and are not drawn.
+ */
+export interface ScoreShape {
+  /** The series drawn, or undefined for the plain `facet.score` shape */
+  series?: ScoreSeries;
+  mode: ScoreLayerMode;
+  smooth: boolean;
+  color: string;
+  /** Fill opacity for `'filled'` and `'hatched'` shapes */
+  fillOpacity: number;
+  strokeWidth: number;
+  strokeDasharray?: string;
+  points: Point[];
+  markers: ScoreMarker[];
+}
+
+/** Score fills: wedge layers in wedge mode, radar shapes otherwise */
+export interface ScoreLayout {
+  shape: 'wedge' | 'polygon' | 'smooth';
+  layers: ScoreWedgeLayer[];
+  shapes: ScoreShape[];
+}
+
+/** White dot at a facet's mid-angle near the outer edge (`style.showFacetPoints`) */
+export interface FacetPoint {
+  center: Point;
+  radius: number;
+  stroke?: string;
+}
+
+/** Facet dividers and facet points of one segment */
+export interface FacetDividerGroup {
+  segmentIndex: number;
+  lines: LineMark[];
+  points: FacetPoint[];
+}
+
+/** A (possibly multi-line) text block centred on `position`, lines 1.2em apart */
+export interface TextLines {
+  /** Unescaped lines */
+  lines: string[];
+  position: Point;
+}
+
+/** The centre hub and its auto-scaled label */
+export interface HubLayout {
+  radius: number;
+  color: string;
+  borderColor: string;
+  borderWidth: number;
+  fontSize: number;
+  fontFamily?: string;
+  fontColor: string;
+  /** One entry per label line, each positioned on its own baseline */
+  lines: Array<{ text: string; position: Point }>;
+  /** `center.subtitle` (statistics filled in), in regular weight below the label */
+  subtitle?: { text: string; position: Point; fontSize: number };
+}
+
+/** A radial facet label */
+export interface FacetLabel extends TextLines {
+  segmentIndex: number;
+  facetIndex: number;
+  childPath?: number[];
+  /** Degrees, about `position` */
+  rotation: number;
+  anchor: 'start' | 'end';
+  color: string;
+  /** True when `color` comes from `style.scoreColorScale` */
+  scoreColored: boolean;
+}
+
+/** Facet labels and their shared typography */
+export interface FacetLabelLayout {
+  placement: 'default' | 'outer-edge';
+  radius: number;
+  fontSize: number;
+  fontFamily?: string;
+  fontWeight: string | number;
+  italic: boolean;
+  /** CSS letter-spacing (outer-edge labels only) */
+  letterSpacing?: string;
+  labels: FacetLabel[];
+}
+
+/** A facet figure in the ring just outside the hub */
+export interface FacetFigure {
+  segmentIndex: number;
+  facetIndex: number;
+  text: string;
+  position: Point;
+  /** Degrees about `position`, when `style.facetFigureRotate` is on */
+  rotation?: number;
+  color: string;
+}
+
+/** The facet figure ring */
+export interface FigureLayout {
+  radius: number;
+  fontSize: number;
+  fontFamily?: string;
+  figures: FacetFigure[];
+}
+
+/** The coloured band behind one segment's curved label */
+export interface SegmentBand extends Wedge {
+  segmentIndex: number;
+  color: string;
+}
+
+/** The curved segment-label band and every row of label text on it */
+export interface SegmentLabelLayout {
+  position: 'outer' | 'inner';
+  innerRadius: number;
+  outerRadius: number;
+  textRadius: number;
+  /** Name font size, scaled so the longest name fits its arc */
+  fontSize: number;
+  /** Sub-label font size (0 when no segment has a sub-label) */
+  subFontSize: number;
+  fontFamily?: string;
+  subFontFamily?: string;
+  subColor: string;
+  /** CSS letter-spacing of the names */
+  letterSpacing?: string;
+  bands: SegmentBand[];
+  /** Ring dividers on the band edges (empty unless `style.showSegmentDividers`) */
+  rings: RingMark[];
+  /** Radial dividers across the band between segments */
+  dividers: LineMark[];
+  labels: Array<{ segmentIndex: number; rows: SegmentLabelRow[] }>;
+}
+
+/** The coloured band behind one group's curved label */
+export interface GroupBand extends Wedge {
+  groupIndex: number;
+  color: string;
+}
+
+/**
+ * The curved group-label band (`DiagramConfig.groups`): outside the segment
+ * label band, or just outside the wheel when segment labels are `'inner'`
+ */
+export interface GroupLabelLayout extends Omit<SegmentLabelLayout, 'position' | 'bands' | 'labels'> {
+  bands: GroupBand[];
+  labels: Array<{ groupIndex: number; rows: SegmentLabelRow[] }>;
+}
+
+/** Score ring circles (excluding the hub boundary) */
+export interface RingLayout {
+  radii: number[];
+  color: string;
+  width: number;
+  dashed: boolean;
+}
+
+/** A facet's `range`: the padded facet span between the low and high score radii */
+export interface RangeMark extends Wedge {
+  segmentIndex: number;
+  facetIndex: number;
+  childPath?: number[];
+  low: number;
+  high: number;
+  /** Facet mid-angle, along which a range bar runs */
+  midAngle: number;
+}
+
+/** Range bands or bars for every facet with a `range`, drawn over the score fills */
+export interface RangeLayout {
+  style: 'band' | 'bar';
+  color: string;
+  /** Fill opacity of bands */
+  opacity: number;
+  /** Stroke width of bars */
+  strokeWidth: number;
+  marks: RangeMark[];
+}
+
+/** A facet's `target`: an arc tick across the padded facet span */
+export interface TargetMark {
+  segmentIndex: number;
+  facetIndex: number;
+  childPath?: number[];
+  target: number;
+  radius: number;
+  startAngle: number;
+  endAngle: number;
+}
+
+/** Shading between a facet's score radius and its target radius */
+export interface TargetGapWedge extends Wedge {
+  segmentIndex: number;
+  facetIndex: number;
+  childPath?: number[];
+  /** Score minus target (see `targetGap`) */
+  gap: number;
+  /** Under- or over-target colour */
+  color: string;
+}
+
+/** Target ticks for every facet with a `target`, plus the optional gap shading */
+export interface TargetLayout {
+  color: string;
+  width: number;
+  marks: TargetMark[];
+  /** Set with `style.showTargetGap`; drawn over the score fills */
+  gaps?: TargetGapWedge[];
+  gapOpacity: number;
+}
+
+/** A facet marked `insufficient`: its hatched track and the text along it */
+export interface InsufficientMark extends Wedge {
+  segmentIndex: number;
+  facetIndex: number;
+  childPath?: number[];
+  /** A third of the way out across the facet's ring, at its mid-angle */
+  position: Point;
+  /** Degrees about `position`, turned like the facet labels */
+  rotation: number;
+}
+
+/** Hatched tracks for facets without enough responses (`facet.insufficient`) */
+export interface InsufficientLayout {
+  color: string;
+  /** Unescaped; empty for no text */
+  text: string;
+  fontSize: number;
+  fontFamily?: string;
+  marks: InsufficientMark[];
+}
+
+/** One ring level's label */
+export interface ScoreLabel {
+  level: number;
+  /** Unescaped text */
+  text: string;
+  /** Middle of the ring band */
+  radius: number;
+  position: Point;
+  /** The arc the label follows, for `'curved'` placement */
+  arc?: { fromAngle: number; toAngle: number; clockwise: boolean };
+}
+
+/** Ring level labels, plus the side key for `'key'` placement */
+export interface ScoreLabelLayout {
+  placement: 'axis' | 'curved' | 'key';
+  fontSize: number;
+  fontFamily?: string;
+  color: string;
+  strokeColor: string;
+  labels: ScoreLabel[];
+  /** Key rows, outermost level first (empty unless placement is `'key'`) */
+  key: Array<{ text: string; position: Point }>;
+}
+
+/** Flow arrows and their outline stroke */
+export interface FlowLayout {
+  direction: 'clockwise' | 'counterclockwise';
+  strokeColor: string;
+  strokeWidth: number;
+  arrows: FlowArrow[];
+}
+
+/**
+ * Everything a renderer draws, in user units of the padded view square
+ * `(-padding, -padding) → (size + padding)`. Layers are listed in paint order;
+ * optional layers are undefined when the config turns them off.
+ */
+export interface DiagramLayout {
+  size: number;
+  padding: number;
+  /** Side of the padded view square */
+  viewSize: number;
+  center: Point;
+  /** Radius of the scored wheel */
+  outerRadius: number;
+  /** Radius of the hub (where scores start) */
+  innerRadius: number;
+  /**
+   * Sunburst mode (some facet has `children`): the ring boundaries from the
+   * hub edge out to `outerRadius`, one ring per nesting level
+   */
+  levels?: number[];
+  spans: SegmentSpan[];
+  background?: string;
+  tracks: TrackWedge[];
+  scores: ScoreLayout;
+  /** Gap shading under the ranges, ticks over them */
+  targets?: TargetLayout;
+  ranges?: RangeLayout;
+  insufficient?: InsufficientLayout;
+  segmentDividers?: LineMark[];
+  facetDividers: FacetDividerGroup[];
+  hub?: HubLayout;
+  facetLabels: FacetLabelLayout;
+  figures?: FigureLayout;
+  segmentLabels: SegmentLabelLayout;
+  groupLabels?: GroupLabelLayout;
+  rings?: RingLayout;
+  /** Emphasised ring at `scale.baseline`, drawn over the other rings (not in sunburst mode) */
+  baseline?: RingMark;
+  scoreLabels?: ScoreLabelLayout;
+  flow?: FlowLayout;
+}
+
+/**
+ * Segment and facet angles for the whole wheel, honouring `segment.weight`,
+ * `facet.weight` and `style.segmentSizing`. Unweighted configs get the
+ * original even split. Sub-facets split their parent's span the same way.
+ */
+function computeSpans(config: DiagramConfig): SegmentSpan[] {
+  const { segments, startAngle, style } = config;
+  const segmentWeights = style.segmentSizing === 'facetCount'
+    ? segments.map((s) => s.facets.reduce((sum, f) => sum + (f.weight ?? 1), 0))
+    : segments.map((s) => s.weight ?? 1);
+  return segmentAngles(startAngle, segmentWeights).map((span, i) => ({
+    ...span,
+    facets: nestedAngles(span.startAngle, span.endAngle, segments[i].facets),
+  }));
+}
+
+/** Nesting depth of a facet: 1 for a leaf. */
+function facetDepth(facet: Facet): number {
+  return 1 + Math.max(0, ...(facet.children ?? []).map(facetDepth));
+}
+
+/**
+ * Ring boundaries of the wheel, one ring per facet nesting level, splitting
+ * hub edge → `outerRadius` evenly. A config without sub-facets has the one
+ * ring `[hub radius, outerRadius]`.
+ */
+function levelRadii(config: DiagramConfig, outerRadius: number): number[] {
+  const depth = Math.max(1, ...config.segments.flatMap((s) => s.facets.map(facetDepth)));
+  const inner = config.center.radius;
+  return Array.from({ length: depth + 1 }, (_, i) =>
+    i === depth ? outerRadius : inner + (i * (outerRadius - inner)) / depth
+  );
+}
+
+/**
+ * A facet or sub-facet in its ring. `innerRadius` / `outerRadius` bound its
+ * level, where its score, track, target and range are drawn.
+ */
+interface FacetNode extends Wedge {
+  segmentIndex: number;
+  facetIndex: number;
+  /** Child indices below `facetIndex`; undefined for top-level facets */
+  childPath?: number[];
+  segment: Segment;
+  facet: Facet;
+  /** Unpadded angular span */
+  span: AngleSpan;
+}
+
+/** Every facet and sub-facet, depth first, each in the ring of its level. */
+function facetNodes({ config, spans, levels }: LayoutFrame): FacetNode[] {
+  const nodes: FacetNode[] = [];
+  const visit = (
+    segmentIndex: number,
+    facetIndex: number,
+    childPath: number[] | undefined,
+    facet: Facet,
+    span: NestedAngleSpan
+  ): void => {
+    const depth = childPath ? childPath.length : 0;
+    const segment = config.segments[segmentIndex];
+    const { startAngle, endAngle, midAngle } = span;
+    nodes.push({
+      segmentIndex,
+      facetIndex,
+      ...(childPath && { childPath }),
+      segment,
+      facet,
+      span: { startAngle, endAngle, midAngle },
+      innerRadius: levels[depth],
+      outerRadius: levels[depth + 1],
+      startAngle,
+      endAngle,
+    });
+    facet.children?.forEach((child, k) =>
+      visit(segmentIndex, facetIndex, [...(childPath ?? []), k], child, span.children[k])
+    );
+  };
+  config.segments.forEach((segment, segmentIndex) =>
+    segment.facets.forEach((facet, facetIndex) => visit(segmentIndex, facetIndex, undefined, facet, spans[segmentIndex].facets[facetIndex]))
+  );
+  return nodes;
+}
+
+/** The facet reference fields of a layout mark: segment, facet and, for sub-facets, child path. */
+function nodeRef({ segmentIndex, facetIndex, childPath }: FacetNode): Pick<ScoreWedge, 'segmentIndex' | 'facetIndex' | 'childPath'> {
+  return childPath ? { segmentIndex, facetIndex, childPath } : { segmentIndex, facetIndex };
+}
+
+/**
+ * Angular inset (degrees per side) for a facet's fill/track, driven by
+ * `style.facetPadding`. Returns 0 when padding is off. `'auto'` mirrors the
+ * mockup formula `min(0.9, facetStepDegrees * 0.06)`; a number is used as-is.
+ */
+function facetPad(style: StyleConfig, stepDegrees: number): number {
+  const fp = style.facetPadding;
+  if (fp === undefined || fp === null) return 0;
+  if (fp === 'auto') return Math.min(0.9, stepDegrees * 0.06);
+  return fp;
+}
+
+/** A facet span inset by `style.facetPadding`, or undefined when the padding swallows it. */
+function paddedSpan(style: StyleConfig, span: AngleSpan): AngleSpan | undefined {
+  const pad = facetPad(style, span.endAngle - span.startAngle);
+  if (span.endAngle - pad <= span.startAngle + pad) return undefined;
+  return { startAngle: span.startAngle + pad, endAngle: span.endAngle - pad, midAngle: span.midAngle };
+}
+
+/**
+ * Colour for a score under `style.scoreColorScale`, or `fallback` when no
+ * scale is set or the facet is unscored.
+ */
+function scoreFill(style: StyleConfig, score: number | undefined, fallback: string): string {
+  const colorScale = style.scoreColorScale;
+  if (!colorScale || score === undefined || score === null) return fallback;
+  return scoreColor(colorScale, score);
+}
+
+/**
+ * Fill for a score wedge: `style.positiveColor` / `style.negativeColor` on
+ * the two sides of a `scale.baseline` (a score at the baseline counts as
+ * positive), else `scoreFill`.
+ */
+function wedgeFill({ scale, style }: DiagramConfig, score: number, segmentColor: string): string {
+  const fallback = scale.baseline === undefined
+    ? segmentColor
+    : (score < scale.baseline ? style.negativeColor : style.positiveColor) ?? segmentColor;
+  return scoreFill(style, score, fallback);
+}
+
+/**
+ * True when a flow arrow is rendered at the given segment boundary index.
+ * Boundary 0 is the wrap-around (between segment n-1 and segment 0); the
+ * arrow there is opt-in via `style.flowCloseLoop`. Boundaries 1..n-1 are
+ * the in-between divisions and always carry an arrow when flow is enabled.
+ */
+function hasFlowArrowAt(style: StyleConfig, boundaryIndex: number, totalSegments: number): boolean {
+  if (!style.flowDirection) return false;
+  if (boundaryIndex === 0) return !!style.flowCloseLoop;
+  return boundaryIndex >= 1 && boundaryIndex < totalSegments;
+}
+
+/**
+ * When flow arrows are enabled, each segment's label is shifted in the flow
+ * direction by half the arrow's tip extent so the label sits centred over
+ * the segment-plus-arrow combined extent. Returns shift in degrees (signed).
+ */
+function flowLabelShiftDeg(
+  style: StyleConfig,
+  bandMid: number,
+  segAngleDeg: number,
+  arcThickness: number
+): number {
+  if (!style.flowDirection) return 0;
+  const arrowSize = style.flowArrowSize ?? arcThickness;
+  const rawAngular = (arrowSize / bandMid) * (180 / Math.PI);
+  const tipAngularOffset = Math.min(rawAngular, segAngleDeg * 0.3);
+  const sign = style.flowDirection === 'clockwise' ? 1 : -1;
+  return (tipAngularOffset / 2) * sign;
+}
+
+/** Radial extent and type sizes of the curved segment-label band */
+interface SegmentLabelBand {
+  baseFontSize: number;
+  anySub: boolean;
+  subFontScale: number;
+  arcThickness: number;
+  dividerWidth: number;
+  innerRadius: number;
+  outerRadius: number;
+  textRadius: number;
+}
+
+/**
+ * Radial extent of the curved segment-label band for the current
+ * `style.segmentLabelPosition`. Thickness uses the golden ratio
+ * (fontSize * phi + fontSize); each extra name line adds one line-height
+ * (1.2× fontSize), and a sub-label reserves one sub-line-height so the name
+ * block plus sub-label stays inside the band.
+ */
+function segmentLabelBand(config: DiagramConfig, wheelRadius: number): SegmentLabelBand {
+  const { segments, style, center } = config;
+  const baseFontSize = style.segmentFontSize || 28;
+  const anySub = segments.some((s) => s.subLabel);
+  const subFontScale = style.segmentSubLabelFontScale ?? 0.62;
+  const arcThickness = labelBandThickness(segments, baseFontSize, anySub ? subFontScale : 0);
+  const dividerWidth = style.segmentDividerWidth || 4;
+
+  const base = (style.segmentLabelPosition || 'outer') === 'inner' ? center.radius : wheelRadius;
+  const innerRadius = base + (dividerWidth / 2);
+  const outerRadius = innerRadius + arcThickness;
+  const textRadius = innerRadius + (arcThickness / 2);
+  return { baseFontSize, anySub, subFontScale, arcThickness, dividerWidth, innerRadius, outerRadius, textRadius };
+}
+
+/** Radial thickness of a curved label band holding these names (see `segmentLabelBand`). */
+function labelBandThickness(named: Array<{ name: string }>, baseFontSize: number, subFontScale: number): number {
+  const phi = 1.618;
+  const maxLines = Math.max(...named.map((s) => s.name.split('\n').length));
+  const subBand = baseFontSize * subFontScale * 1.2;
+  return (baseFontSize * phi) + baseFontSize + (maxLines - 1) * baseFontSize * 1.2 + subBand;
+}
+
+/**
+ * The group-label band: stacked outside the segment label band, or just
+ * outside the wheel when segment labels sit on the hub edge. Undefined
+ * without `config.groups`.
+ */
+function groupLabelBand(config: DiagramConfig, wheelRadius: number): SegmentLabelBand | undefined {
+  const { groups, style } = config;
+  if (!groups || groups.length === 0) return undefined;
+  const baseFontSize = style.groupFontSize || 22;
+  const anySub = !!style.groupAverageSubLabels || groups.some((g) => g.subLabel);
+  const subFontScale = style.segmentSubLabelFontScale ?? 0.62;
+  const arcThickness = labelBandThickness(groups, baseFontSize, anySub ? subFontScale : 0);
+  const dividerWidth = groupDividerWidth(style);
+
+  const base = (style.segmentLabelPosition || 'outer') === 'inner'
+    ? wheelRadius
+    : segmentLabelBand(config, wheelRadius).outerRadius;
+  const innerRadius = base + (dividerWidth / 2);
+  const outerRadius = innerRadius + arcThickness;
+  const textRadius = innerRadius + (arcThickness / 2);
+  return { baseFontSize, anySub, subFontScale, arcThickness, dividerWidth, innerRadius, outerRadius, textRadius };
+}
+
+/** Width of the dividers at group boundaries: `style.groupDividerWidth`, or twice the segment dividers. */
+function groupDividerWidth(style: StyleConfig): number {
+  return style.groupDividerWidth ?? (style.segmentDividerWidth || 2) * 2;
+}
+
+/**
+ * Width of the segment divider at the start of segment `i`: the heavier
+ * group divider where the segment's group differs from the previous one's.
+ */
+function segmentDividerWidthAt(config: DiagramConfig, i: number): number | undefined {
+  const { segments, style } = config;
+  if (!config.groups?.length) return style.segmentDividerWidth;
+  const previous = segments[(i - 1 + segments.length) % segments.length];
+  return segments[i].group !== previous.group ? groupDividerWidth(style) : style.segmentDividerWidth;
+}
+
+/**
+ * Scale segment font size so every segment's longest single line fits its
+ * own arc. One size is shared by all segments, so the tightest fit wins.
+ */
+function scaleSegmentFontSize(
+  segments: Array<{ name: string }>,
+  spans: AngleSpan[],
+  textRadius: number,
+  baseFontSize: number
+): number {
+  return Math.min(
+    ...segments.map((s, i) => {
+      const segAngle = spans[i].endAngle - spans[i].startAngle;
+      const arcLength = textRadius * (segAngle - 6) * (Math.PI / 180);
+      const longestLineLength = Math.max(...s.name.split('\n').map((l) => l.length));
+      const estTextWidth = (longestLineLength + 1) * baseFontSize * 0.6;
+      return estTextWidth > arcLength
+        ? Math.floor(baseFontSize * (arcLength / estTextWidth))
+        : baseFontSize;
+    })
+  );
+}
+
+/** One line of a curved segment label, laid out on its own arc */
+export interface SegmentLabelRow {
+  /** Unescaped text */
+  text: string;
+  /** Font size in px */
+  size: number;
+  /** True for the `segment.subLabel` row */
+  isSub: boolean;
+  /** Radius of the row's arc */
+  radius: number;
+  /** Arc start, in the direction the text reads (degrees) */
+  fromAngle: number;
+  /** Arc end (degrees) */
+  toAngle: number;
+  /** True when the text runs clockwise (top half); false when it runs counter-clockwise */
+  clockwise: boolean;
+  /** SVG large-arc flag for the row's arc */
+  largeArc: 0 | 1;
+}
+
+/**
+ * Lay out the rows of a curved segment label: name lines first (reading top
+ * to bottom), then the optional sub-label directly below, each on its own arc
+ * at a different radius within the band, stacked along the radial axis.
+ */
+function segmentLabelRows(
+  style: StyleConfig,
+  segStart: number,
+  segEnd: number,
+  midAngle: number,
+  textRadius: number,
+  fontSize: number,
+  rawName: string,
+  flowShiftDeg = 0,
+  subLabel?: string,
+  subFontSize = 0
+): SegmentLabelRow[] {
+  const segAngle = segEnd - segStart;
+  const normalizedMid = ((midAngle % 360) + 360) % 360;
+  const useClockwise = normalizedMid < 15 || normalizedMid > 165;
+  // Top-half segments (clockwise arcs) read with the visually-first line at
+  // the larger radius (outer edge); bottom-half segments (counter-clockwise
+  // arcs) read with it at the smaller radius (closer to the hub).
+  const sign = useClockwise ? -1 : 1;
+  const largeArc = segAngle - 6 > 180 ? 1 : 0;
+  // Shift the path's start/end by the same amount so the text midpoint
+  // (and therefore the rendered text) moves in the flow direction.
+  const startAng = segStart + 3 + flowShiftDeg;
+  const endAng = segEnd - 3 + flowShiftDeg;
+
+  // Each row keeps its own font size.
+  const displayName = style.segmentUppercase ? rawName.toUpperCase() : rawName;
+  const nameLines = displayName.split('\n');
+  const nameLineHeight = fontSize * 1.2;
+  const hasSub = subLabel !== undefined && subLabel !== null && subLabel !== '';
+  const rows: Array<{ text: string; size: number; isSub: boolean }> = nameLines.map(
+    (t) => ({ text: t, size: fontSize, isSub: false })
+  );
+  if (hasSub) {
+    rows.push({ text: String(subLabel), size: subFontSize, isSub: true });
+  }
+
+  // Lay the rows out centred on textRadius. `u` runs in the reading-down
+  // direction; the (signed) radial offset keeps the block centred and
+  // reduces to the original single-name formula when there is no sub-label.
+  const totalHeight = nameLines.length * nameLineHeight + (hasSub ? subFontSize * 1.2 : 0);
+  let uCursor = 0;
+
+  return rows.map((row) => {
+    const rowHeight = row.size * 1.2;
+    const uCenter = uCursor + rowHeight / 2;
+    uCursor += rowHeight;
+    const offset = sign * (uCenter - totalHeight / 2);
+    return {
+      ...row,
+      radius: textRadius + offset,
+      fromAngle: useClockwise ? startAng : endAng,
+      toAngle: useClockwise ? endAng : startAng,
+      clockwise: useClockwise,
+      largeArc,
+    };
+  });
+}
+
+/** One flow arrow: a triangle with its base across the label band */
+export interface FlowArrow {
+  tip: Point;
+  baseInner: Point;
+  baseOuter: Point;
+  fill: string;
+}
+
+/**
+ * Chunky wedge-shaped arrows on each segment-to-segment boundary, on the same
+ * band as the dimension labels so each visually attaches to its source
+ * segment. Wrap-around (last → first) is opt-in via `style.flowCloseLoop`.
+ * Empty unless `style.flowDirection` is set.
+ */
+function flowArrows(
+  config: DiagramConfig,
+  spans: AngleSpan[],
+  cx: number,
+  cy: number,
+  wheelRadius: number
+): FlowArrow[] {
+  const { segments, style, center } = config;
+  const direction = style.flowDirection;
+  if (!direction) return [];
+
+  // Computed the same way as the segment label band (without the sub-label
+  // allowance, which arrows have never included).
+  const labelPosition = style.segmentLabelPosition || 'outer';
+  const baseFontSize = style.segmentFontSize || 28;
+  const phi = 1.618;
+  const maxLines = Math.max(...segments.map((s) => s.name.split('\n').length));
+  const arcThickness = (baseFontSize * phi) + baseFontSize + (maxLines - 1) * baseFontSize * 1.2;
+  const dividerWidth = style.segmentDividerWidth || 4;
+
+  const bandInner = labelPosition === 'outer'
+    ? wheelRadius + dividerWidth / 2
+    : center.radius + dividerWidth / 2;
+  const bandOuter = bandInner + arcThickness;
+  const bandMid = (bandInner + bandOuter) / 2;
+
+  // Default: tip extends tangentially by the band's radial thickness, so
+  // the arrow is roughly as long as the segment is "tall".
+  const arrowSize = style.flowArrowSize ?? arcThickness;
+  // Convert pixel length into angular degrees at bandMid; capped per
+  // boundary below so the arrow never spills more than 30 % of a segment
+  // into the neighbour.
+  const rawAngular = (arrowSize / bandMid) * (180 / Math.PI);
+  const closeLoop = !!style.flowCloseLoop;
+
+  const arrows: FlowArrow[] = [];
+  for (let i = 0; i < segments.length; i++) {
+    if (i === segments.length - 1 && !closeLoop) break;
+    const sourceSeg = segments[i];
+    const fill = style.flowArrowColor || sourceSeg.labelColor || sourceSeg.color;
+
+    const boundaryAngle = spans[i].endAngle;
+    const sign = direction === 'clockwise' ? 1 : -1;
+    // The segment the tip points into: the next one clockwise, this one counter-clockwise.
+    const target = direction === 'clockwise' ? spans[(i + 1) % segments.length] : spans[i];
+    const tipAngularOffset = Math.min(rawAngular, (target.endAngle - target.startAngle) * 0.3);
+    const tipAngle = boundaryAngle + tipAngularOffset * sign;
+
+    arrows.push({
+      tip: polarToCartesian(cx, cy, bandMid, tipAngle),
+      baseInner: polarToCartesian(cx, cy, bandInner, boundaryAngle),
+      baseOuter: polarToCartesian(cx, cy, bandOuter, boundaryAngle),
+      fill,
+    });
+  }
+  return arrows;
+}
+
+/**
+ * Split a facet label into at most two balanced lines. An explicit `\n`
+ * always wins. Otherwise a multi-word label is split at the point that makes
+ * the two lines' character counts as even as possible, with one rule: a lone
+ * "&" never starts the second line, so a trailing "&" stays with the word
+ * before it (e.g. "DIRECTION &" / "PURPOSE"). Single-word labels stay on one
+ * line.
+ */
+function wrapFacetLabel(name: string): string[] {
+  if (name.includes('\n')) return name.split('\n');
+  const words = name.split(' ').filter((w) => w.length > 0);
+  if (words.length <= 1) return [name];
+
+  let bestSplit = -1;
+  let bestDiff = Infinity;
+  for (let k = 1; k < words.length; k++) {
+    if (words[k] === '&') continue; // "&" must not begin line two
+    const line1 = words.slice(0, k).join(' ');
+    const line2 = words.slice(k).join(' ');
+    const diff = Math.abs(line1.length - line2.length);
+    if (diff < bestDiff) {
+      bestDiff = diff;
+      bestSplit = k;
+    }
+  }
+  if (bestSplit === -1) return [name];
+  return [words.slice(0, bestSplit).join(' '), words.slice(bestSplit).join(' ')];
+}
+
+/**
+ * Rotation offset and anchor for a segment's radial facet labels, decided by
+ * the SEGMENT mid-angle so all facets in a segment read the same way: text in
+ * the bottom half (90, 270] is flipped 180° for readability, and anchored
+ * 'end' in the top half (reads inner to outer) or 'start' in the bottom half.
+ */
+function facetLabelOrientation(segMid: number): { rotationOffset: number; anchor: 'start' | 'end' } {
+  const normalizedSegMid = ((segMid % 360) + 360) % 360;
+  const needsFlip = normalizedSegMid > 90 && normalizedSegMid <= 270;
+  const isTopHalf = normalizedSegMid <= 90 || normalizedSegMid > 270;
+  return { rotationOffset: needsFlip ? 180 : 0, anchor: isTopHalf ? 'end' : 'start' };
+}
+
+/**
+ * Extra view padding for a group band stacked outside the outer segment
+ * band, so it stays in view. Zero without groups or with `'inner'` segment
+ * labels (the group band then takes the segment band's usual place).
+ */
+function groupBandExtra(config: DiagramConfig, wheelRadius: number): number {
+  const groupBand = groupLabelBand(config, wheelRadius);
+  if (!groupBand || (config.style.segmentLabelPosition || 'outer') === 'inner') return 0;
+  return groupBand.outerRadius - segmentLabelBand(config, wheelRadius).outerRadius;
+}
+
+/** Shared inputs of the layer builders below */
+interface LayoutFrame {
+  config: DiagramConfig;
+  cx: number;
+  cy: number;
+  outerRadius: number;
+  /** View padding around the wheel (see `DiagramLayout.padding`) */
+  padding: number;
+  spans: SegmentSpan[];
+  /** Ring boundaries per nesting level (see `levelRadii`) */
+  levels: number[];
+  /** Set in sunburst mode */
+  sunburst: boolean;
+  /** Every facet and sub-facet (see `facetNodes`) */
+  nodes: FacetNode[];
+}
+
+/**
+ * Compute the full layout of a diagram: every wedge, line, label position and
+ * rotation, ring radius, arrow polygon and computed font size that
+ * `SVGRenderer` and `CanvasRenderer` draw. Text is left unescaped.
+ * @param config Diagram configuration
+ * @param options Validation options (`strict` CSS value checking)
+ * @throws Error when the config is invalid
+ */
+export function computeLayout(config: DiagramConfig, options?: ValidateOptions): DiagramLayout {
+  const validation = validateConfig(config, options);
+  if (!validation.valid) {
+    throw new Error(`Invalid diagram configuration:\n- ${validation.errors.join('\n- ')}`);
+  }
+
+  const { size, style, center, scale } = config;
+  const outerRadius = (size / 2) * 0.9; // 90% of half-size for padding
+  const levels = levelRadii(config, outerRadius);
+  const frame: LayoutFrame = {
+    config,
+    cx: size / 2,
+    cy: size / 2,
+    outerRadius,
+    padding: VIEW_PADDING + groupBandExtra(config, outerRadius),
+    spans: computeSpans(config),
+    levels,
+    sunburst: levels.length > 2,
+    nodes: [],
+  };
+  frame.nodes = facetNodes(frame);
+  const gapFigures = !!config.style.targetGapFigures;
+  const hasFigures = config.segments.some((s) =>
+    s.facets.some((f) => f.figure || (gapFigures && targetGap(f, config.series, scale.rollup) !== undefined))
+  );
+  const hasRanges = frame.nodes.some((n) => n.facet.range);
+  const hasTargets = frame.nodes.some((n) => n.facet.target !== undefined && n.facet.target !== null);
+  const hasInsufficient = frame.nodes.some((n) => n.facet.insufficient);
+
+  return {
+    size,
+    padding: frame.padding,
+    viewSize: size + frame.padding * 2,
+    center: { x: frame.cx, y: frame.cy },
+    outerRadius: frame.outerRadius,
+    innerRadius: center.radius,
+    levels: frame.sunburst ? levels : undefined,
+    spans: frame.spans,
+    background: style.backgroundColor || undefined,
+    tracks: layoutTracks(frame),
+    scores: layoutScores(frame),
+    targets: hasTargets ? layoutTargets(frame) : undefined,
+    ranges: hasRanges ? layoutRanges(frame) : undefined,
+    insufficient: hasInsufficient ? layoutInsufficient(frame) : undefined,
+    segmentDividers: style.showSegmentDividers ? layoutSegmentDividers(frame) : undefined,
+    facetDividers: layoutFacetDividers(frame),
+    hub: center.visible === false ? undefined : layoutHub(frame),
+    facetLabels: layoutFacetLabels(frame),
+    figures: hasFigures ? layoutFigures(frame) : undefined,
+    segmentLabels: layoutSegmentLabels(frame),
+    groupLabels: layoutGroupLabels(frame),
+    rings: style.showRings !== false ? layoutRings(frame) : undefined,
+    baseline: scale.baseline !== undefined && !frame.sunburst
+      ? {
+          radius: scoreToRadius(scale.baseline, scale.min, scale.max, center.radius, frame.outerRadius, scale.mapping),
+          color: style.baselineColor || '#333333',
+          width: style.baselineWidth ?? 2,
+        }
+      : undefined,
+    scoreLabels: style.showScoreLabels ? layoutScoreLabels(frame) : undefined,
+    flow: style.flowDirection
+      ? {
+          direction: style.flowDirection,
+          strokeColor: style.segmentDividerColor || '#ffffff',
+          strokeWidth: style.segmentDividerWidth || 4,
+          arrows: flowArrows(config, frame.spans, frame.cx, frame.cy, frame.outerRadius),
+        }
+      : undefined,
+  };
+}
+
+function layoutTracks({ config, outerRadius, spans, nodes }: LayoutFrame): TrackWedge[] {
+  const { segments, center, style } = config;
+  const trackOpacity = style.trackOpacity ?? 0.3;
+  const padded = style.facetPadding !== undefined && style.facetPadding !== null;
+
+  if (padded) {
+    // Per-facet track so the angular gaps show up in the unscored area too.
+    const tracks: TrackWedge[] = [];
+    nodes.forEach((node) => {
+      const span = paddedSpan(style, node.span);
+      if (!span) return;
+      const { innerRadius, outerRadius: nodeOuter } = node;
+      tracks.push({
+        ...nodeRef(node),
+        innerRadius,
+        outerRadius: nodeOuter,
+        color: node.segment.color,
+        opacity: trackOpacity,
+        startAngle: span.startAngle,
+        endAngle: span.endAngle,
+      });
+    });
+    return tracks;
+  }
+  return segments.map((segment, i) => ({
+    segmentIndex: i,
+    innerRadius: center.radius,
+    outerRadius,
+    color: segment.color,
+    opacity: trackOpacity,
+    startAngle: spans[i].startAngle,
+    endAngle: spans[i].endAngle,
+  }));
+}
+
+/** Radius of `score` within a facet node's ring, following `scale.mapping`. */
+function nodeRadius({ scale }: DiagramConfig, node: FacetNode, score: number): number {
+  return scoreToRadius(score, scale.min, scale.max, node.innerRadius, node.outerRadius, scale.mapping);
+}
+
+/** A facet's score wedge inside its padding; undefined when padding leaves nothing. */
+function scoreWedge(config: DiagramConfig, node: FacetNode, score: number): Wedge | undefined {
+  const { scale, style } = config;
+  const span = paddedSpan(style, node.span);
+  if (!span) return undefined;
+  const { startAngle, endAngle } = span;
+  const scoreRadius = nodeRadius(config, node, score);
+  if (scale.baseline === undefined) {
+    return { innerRadius: node.innerRadius, outerRadius: scoreRadius, startAngle, endAngle };
+  }
+  // Diverging: from the baseline ring outward, or inward for lower scores
+  const baseRadius = nodeRadius(config, node, scale.baseline);
+  return {
+    innerRadius: Math.min(baseRadius, scoreRadius),
+    outerRadius: Math.max(baseRadius, scoreRadius),
+    startAngle,
+    endAngle,
+  };
+}
+
+/**
+ * Score wedges for one layer, reading each facet's score through `scoreOf`
+ * and rolling sub-facet scores up (`scale.rollup`) for facets without one.
+ */
+function layerWedges(
+  { config, nodes }: LayoutFrame,
+  scoreOf: (facet: Facet) => number | undefined,
+  colorOf: (segment: Segment, score: number) => string
+): ScoreWedge[] {
+  const wedges: ScoreWedge[] = [];
+  nodes.forEach((node) => {
+    const score = rolledUpScore(node.facet, scoreOf, config.scale.rollup);
+    if (score === undefined || score === null) return;
+    const wedge = scoreWedge(config, node, score);
+    if (!wedge) return;
+    wedges.push({ ...wedge, ...nodeRef(node), score, color: colorOf(node.segment, score) });
+  });
+  return wedges;
+}
+
+function layoutScores(frame: LayoutFrame): ScoreLayout {
+  const { config } = frame;
+  const { style } = config;
+  const shape = style.scoreShape ?? 'wedge';
+  const series = config.series && config.series.length > 0 ? config.series : undefined;
+  if (shape !== 'wedge') {
+    return { shape, layers: [], shapes: layoutScoreShapes(frame, shape === 'smooth', series) };
+  }
+
+  if (!series) {
+    const wedges = layerWedges(frame, (f) => f.score, (segment, score) => wedgeFill(config, score, segment.color));
+    return { shape, layers: [{ mode: 'filled', opacity: style.facetOpacity, strokeWidth: 0, wedges }], shapes: [] };
+  }
+
+  // One layer per score series, painted in `config.series` order (first at the bottom)
+  const layers = series.map((s): ScoreWedgeLayer => {
+    const mode = s.style ?? 'filled';
+    return {
+      series: s,
+      mode,
+      opacity: s.opacity ?? (mode === 'hatched' ? 0.5 : style.facetOpacity ?? 1),
+      strokeWidth: s.strokeWidth ?? 2,
+      strokeDasharray: s.strokeDasharray,
+      wedges: layerWedges(
+        frame,
+        (f) => f.scores?.[s.key],
+        (segment, score) => s.color ?? wedgeFill(config, score, segment.color)
+      ),
+    };
+  });
+  return { shape, layers, shapes: [] };
+}
+
+/**
+ * Target ticks at each targeted facet's target radius and, with
+ * `style.showTargetGap`, wedges between its score and target radii coloured
+ * by which side of the target the score is.
+ */
+function layoutTargets({ config, nodes }: LayoutFrame): TargetLayout {
+  const { scale, style } = config;
+  const marks: TargetMark[] = [];
+  const gaps: TargetGapWedge[] = [];
+  nodes.forEach((node) => {
+    const { facet } = node;
+    const target = facet.target;
+    if (target === undefined || target === null) return;
+    const span = paddedSpan(style, node.span);
+    if (!span) return;
+    const { startAngle, endAngle } = span;
+    const radius = (score: number) => nodeRadius(config, node, score);
+    marks.push({ ...nodeRef(node), target, radius: radius(target), startAngle, endAngle });
+    const gap = targetGap(facet, config.series, scale.rollup);
+    if (!style.showTargetGap || !gap) return;
+    const [from, to] = [radius(target), radius(primaryScore(facet, config.series, scale.rollup) as number)];
+    gaps.push({
+      ...nodeRef(node),
+      gap,
+      color: gapColor(style, gap),
+      innerRadius: Math.min(from, to),
+      outerRadius: Math.max(from, to),
+      startAngle,
+      endAngle,
+    });
+  });
+  return {
+    color: style.targetColor || '#222222',
+    width: style.targetWidth ?? 3,
+    marks,
+    gaps: style.showTargetGap ? gaps : undefined,
+    gapOpacity: style.targetGapOpacity ?? 0.35,
+  };
+}
+
+/** Under- or over-target colour for a gap. */
+function gapColor(style: StyleConfig, gap: number): string {
+  return gap < 0 ? style.targetGapUnderColor || '#d32f2f' : style.targetGapOverColor || '#2e7d32';
+}
+
+/** A hatched track over each `insufficient` facet's padded span in its ring, with text along it. */
+function layoutInsufficient({ config, cx, cy, spans, nodes }: LayoutFrame): InsufficientLayout {
+  const { style } = config;
+  const marks: InsufficientMark[] = [];
+  nodes.forEach((node) => {
+    if (!node.facet.insufficient) return;
+    const span = paddedSpan(style, node.span);
+    if (!span) return;
+    const { innerRadius, outerRadius } = node;
+    const { rotationOffset } = facetLabelOrientation(spans[node.segmentIndex].midAngle);
+    marks.push({
+      ...nodeRef(node),
+      innerRadius,
+      outerRadius,
+      startAngle: span.startAngle,
+      endAngle: span.endAngle,
+      position: polarToCartesian(cx, cy, innerRadius + (outerRadius - innerRadius) / 3, span.midAngle),
+      rotation: span.midAngle + rotationOffset,
+    });
+  });
+  return {
+    color: style.insufficientColor || '#888888',
+    text: style.insufficientText ?? 'n/a',
+    fontSize: style.facetFontSize || 11,
+    fontFamily: style.fontFamily,
+    marks,
+  };
+}
+
+/** Range marks over each ranged facet's padded span, following `scale.mapping`. */
+function layoutRanges({ config, nodes }: LayoutFrame): RangeLayout {
+  const { style } = config;
+  const marks: RangeMark[] = [];
+  nodes.forEach((node) => {
+    if (!node.facet.range) return;
+    const span = paddedSpan(style, node.span);
+    if (!span) return;
+    const { low, high } = node.facet.range;
+    marks.push({
+      ...nodeRef(node),
+      low,
+      high,
+      innerRadius: nodeRadius(config, node, low),
+      outerRadius: nodeRadius(config, node, high),
+      ...span,
+    });
+  });
+  return {
+    style: style.rangeStyle ?? 'band',
+    color: style.rangeColor || '#000000',
+    opacity: style.rangeOpacity ?? 0.25,
+    strokeWidth: style.rangeWidth ?? 2,
+    marks,
+  };
+}
+
+/**
+ * Radar shapes: one per series (or a single one for `facet.score`) through
+ * each scored facet's mid-angle at its score radius. Unscored facets are
+ * skipped, so the shape connects the remaining vertices. Only top-level
+ * facets are vertices, with sub-facet scores rolled up.
+ */
+function layoutScoreShapes(
+  { config, cx, cy, outerRadius, spans }: LayoutFrame,
+  smooth: boolean,
+  seriesList: ScoreSeries[] | undefined
+): ScoreShape[] {
+  const { segments, center, scale, style } = config;
+  const baseColor = style.polygonColor ?? center.color;
+  const fillOpacity = style.polygonFillOpacity ?? 0.35;
+  const strokeWidth = style.polygonStrokeWidth ?? 2;
+  const markerRadius = style.polygonMarkerRadius ?? 4;
+  const layers: Array<{ series?: ScoreSeries; scoreOf: (facet: Facet) => number | undefined }> = seriesList
+    ? seriesList.map((series) => ({ series, scoreOf: (f: Facet) => f.scores?.[series.key] }))
+    : [{ scoreOf: (f: Facet) => f.score }];
+
+  return layers.map(({ series, scoreOf }) => {
+    const mode = series?.style ?? 'filled';
+    const points: Point[] = [];
+    const markers: ScoreMarker[] = [];
+
+    segments.forEach((segment, segIndex) => {
+      segment.facets.forEach((facet, facetIndex) => {
+        const score = rolledUpScore(facet, scoreOf, scale.rollup);
+        if (score === undefined || score === null) return;
+        const { midAngle } = spans[segIndex].facets[facetIndex];
+        const radius = scoreToRadius(score, scale.min, scale.max, center.radius, outerRadius, scale.mapping);
+        const point = polarToCartesian(cx, cy, radius, midAngle);
+        points.push(point);
+        if (markerRadius > 0) {
+          markers.push({ point, radius: markerRadius, color: series?.color ?? scoreFill(style, score, segment.color) });
+        }
+      });
+    });
+
+    return {
+      series,
+      mode,
+      smooth,
+      color: series?.color ?? baseColor,
+      fillOpacity: series?.opacity ?? (mode === 'hatched' ? 0.5 : fillOpacity),
+      strokeWidth: series?.strokeWidth ?? strokeWidth,
+      strokeDasharray: series?.strokeDasharray,
+      points,
+      markers,
+    };
+  });
+}
+
+function layoutSegmentDividers({ config, cx, cy, outerRadius, spans }: LayoutFrame): LineMark[] {
+  const { segments, center, style } = config;
+  const lines: LineMark[] = [];
+  segments.forEach((_, i) => {
+    // Suppress the divider at boundaries where a flow arrow already
+    // sits on the band — the line previously appeared to "go through"
+    // the arrow because it kept extending into the wedge area.
+    if (hasFlowArrowAt(style, i, segments.length)) return;
+    const angle = spans[i].startAngle;
+    lines.push({
+      from: polarToCartesian(cx, cy, center.radius, angle),
+      to: polarToCartesian(cx, cy, outerRadius, angle),
+      color: style.segmentDividerColor,
+      width: segmentDividerWidthAt(config, i),
+    });
+  });
+  return lines;
+}
+
+function layoutFacetDividers({ config, cx, cy, outerRadius, spans, nodes }: LayoutFrame): FacetDividerGroup[] {
+  const { segments, center, style } = config;
+
+  return segments.map((_, segmentIndex) => {
+    const facetAngleData = spans[segmentIndex].facets;
+    const lines: LineMark[] = [];
+    const points: FacetPoint[] = [];
+
+    // Dividers between facets (skip the first, which is the segment divider).
+    // `showFacetDividers` opts into a configurable style; false hides them;
+    // unset keeps the original faint separators for backward compatibility.
+    if (style.showFacetDividers !== false) {
+      const stroke = style.showFacetDividers === true
+        ? { color: style.facetDividerColor ?? 'rgba(255,255,255,0.7)', width: style.facetDividerWidth ?? 1.4 }
+        : { color: style.segmentDividerColor, width: 1, opacity: 0.5 };
+      facetAngleData.forEach((facet, facetIndex) => {
+        if (facetIndex === 0) return;
+        lines.push({
+          from: polarToCartesian(cx, cy, center.radius, facet.startAngle),
+          to: polarToCartesian(cx, cy, outerRadius, facet.startAngle),
+          ...stroke,
+        });
+      });
+      // Sub-facet dividers run from their ring outward
+      nodes.forEach((node) => {
+        const path = node.childPath;
+        if (node.segmentIndex !== segmentIndex || !path || path[path.length - 1] === 0) return;
+        lines.push({
+          from: polarToCartesian(cx, cy, node.innerRadius, node.startAngle),
+          to: polarToCartesian(cx, cy, outerRadius, node.startAngle),
+          ...stroke,
+        });
+      });
+    }
+
+    if (style.showFacetPoints && style.facetPointStyle !== 'none') {
+      const radius = style.facetPointStyle === 'circle' ? 6 : 3;
+      facetAngleData.forEach((facetData) => {
+        points.push({
+          center: polarToCartesian(cx, cy, outerRadius - 20, facetData.midAngle), // Near the outer edge
+          radius,
+          stroke: style.segmentDividerColor,
+        });
+      });
+    }
+
+    return { segmentIndex, lines, points };
+  });
+}
+
+function layoutHub({ config, cx, cy }: LayoutFrame): HubLayout {
+  const { center, style } = config;
+  const lines = center.label.split('\n').map((s) => s.trim());
+
+  // Auto-scale font to fit hub (scales up or down), using 80% of the diameter
+  const availableWidth = center.radius * 1.6;
+  const maxLineLength = Math.max(...lines.map((l) => l.length));
+  const fontSize = Math.floor(availableWidth / (maxLineLength * 0.6));
+  const lineHeight = fontSize * 1.2;
+  const subtitle = centerSubtitle(config);
+  // The subtitle line, when set, is half the label size (or smaller to fit)
+  const subFontSize = subtitle
+    ? Math.min(Math.floor(fontSize / 2), Math.floor(availableWidth / (subtitle.length * 0.6)))
+    : 0;
+  const startY = subtitle
+    ? cy - (lines.length * lineHeight + subFontSize * 1.2) / 2 + lineHeight / 2
+    : cy - ((lines.length - 1) * lineHeight) / 2;
+
+  return {
+    radius: center.radius,
+    color: center.color,
+    borderColor: center.borderColor || '#ffffff',
+    borderWidth: center.borderWidth || 0,
+    fontSize,
+    fontFamily: center.fontFamily || style.fontFamily,
+    fontColor: center.fontColor || style.hubFontColor || '#ffffff',
+    lines: lines.map((text, i) => ({ text, position: { x: cx, y: startY + i * lineHeight } })),
+    subtitle: subtitle
+      ? {
+          text: subtitle,
+          position: { x: cx, y: startY + (lines.length - 0.5) * lineHeight + subFontSize * 0.6 },
+          fontSize: subFontSize,
+        }
+      : undefined,
+  };
+}
+
+/**
+ * Radial facet labels. The default placement sits just inside the outer
+ * edge in italics; `'outer-edge'` labels are right-aligned to the band with
+ * uppercase / weight / letter-spacing / balanced wrap from `style.facetLabel*`.
+ * Sub-facet labels sit the same way inside the outer edge of their ring.
+ */
+function layoutFacetLabels({ config, cx, cy, outerRadius, spans, nodes }: LayoutFrame): FacetLabelLayout {
+  const { style } = config;
+  const outerEdge = style.facetLabelPlacement === 'outer-edge';
+  const radius = outerRadius - (outerEdge ? 10 : 20);
+  const baseColor = style.facetFontColor || (outerEdge ? '#555555' : '#000000');
+  const byScore = !!style.scoreColorScale && !!style.scoreColorLabels;
+  const uppercase = style.facetLabelUppercase ?? true;
+  const wrap = style.facetLabelWrap ?? true;
+  const labels: FacetLabel[] = [];
+
+  nodes.forEach((node) => {
+    const { facet } = node;
+    const { midAngle } = node.span;
+    // Orientation follows the SEGMENT mid-angle (same for all facets in segment)
+    const { rotationOffset, anchor } = facetLabelOrientation(spans[node.segmentIndex].midAngle);
+    let lines = facet.name.split('\n');
+    if (outerEdge) {
+      const displayName = uppercase ? facet.name.toUpperCase() : facet.name;
+      lines = wrap ? wrapFacetLabel(displayName) : displayName.split('\n');
+    }
+    const score = byScore ? primaryScore(facet, config.series, config.scale.rollup) : undefined;
+    labels.push({
+      ...nodeRef(node),
+      lines,
+      position: polarToCartesian(cx, cy, radius - (outerRadius - node.outerRadius), midAngle),
+      rotation: midAngle + rotationOffset,
+      anchor,
+      color: scoreFill(style, score, baseColor),
+      scoreColored: score !== undefined,
+    });
+  });
+
+  return {
+    placement: outerEdge ? 'outer-edge' : 'default',
+    radius,
+    fontSize: style.facetFontSize || 11,
+    fontFamily: style.fontFamily,
+    fontWeight: outerEdge ? style.facetLabelWeight ?? 700 : 'normal',
+    italic: !outerEdge,
+    letterSpacing: outerEdge ? style.facetLabelLetterSpacing ?? '0.04em' : undefined,
+    labels,
+  };
+}
+
+/**
+ * Small figure per facet (raw score or percentage, or the target gap with
+ * `style.targetGapFigures`) in a ring just outside the centre hub, at each
+ * facet's mid-angle; optionally rotated to follow the spoke.
+ */
+function layoutFigures({ config, cx, cy, spans }: LayoutFrame): FigureLayout {
+  const { segments, center, style } = config;
+  const fontSize = style.facetFigureFontSize ?? 12;
+  const color = style.facetFigureColor ?? '#555555';
+  const radius = center.radius + (style.facetFigureGap ?? fontSize);
+  const rotate = style.facetFigureRotate ?? false;
+  const byScore = !!style.scoreColorScale && !!style.scoreColorFigures;
+  const gapFigures = !!style.targetGapFigures;
+  const figures: FacetFigure[] = [];
+
+  segments.forEach((segment, segmentIndex) => {
+    segment.facets.forEach((facet, facetIndex) => {
+      const gap = gapFigures ? targetGap(facet, config.series, config.scale.rollup) : undefined;
+      const figure = facetFigure(config, facet);
+      if (gap === undefined && (figure === undefined || figure === '')) return;
+      const { midAngle } = spans[segmentIndex].facets[facetIndex];
+      let rotation: number | undefined;
+      if (rotate) {
+        const norm = ((midAngle % 360) + 360) % 360;
+        rotation = midAngle + (norm > 90 && norm <= 270 ? 180 : 0);
+      }
+      figures.push({
+        segmentIndex,
+        facetIndex,
+        text: gap === undefined ? (figure as string) : formatGap(gap),
+        position: polarToCartesian(cx, cy, radius, midAngle),
+        rotation,
+        color:
+          gap !== undefined ? gapColor(style, gap) : byScore ? scoreFill(style, primaryScore(facet, config.series, config.scale.rollup), color) : color,
+      });
+    });
+  });
+
+  return { radius, fontSize, fontFamily: style.fontFamily, figures };
+}
+
+/**
+ * The curved segment-label band: just outside the wheel (`'outer'`) or on the
+ * hub edge (`'inner'`), with one coloured arc per segment, divider rings and
+ * lines, and the label rows.
+ */
+function layoutSegmentLabels({ config, cx, cy, outerRadius, spans }: LayoutFrame): SegmentLabelLayout {
+  const { segments, style } = config;
+  const position = (style.segmentLabelPosition || 'outer') === 'inner' ? 'inner' : 'outer';
+  const band = segmentLabelBand(config, outerRadius);
+  const fontSize = scaleSegmentFontSize(segments, spans, band.textRadius, band.baseFontSize);
+  const subFontSize = band.anySub ? Math.floor(fontSize * band.subFontScale) : 0;
+
+  const ring = (radius: number): RingMark => ({ radius, color: style.segmentDividerColor, width: band.dividerWidth });
+  let rings: RingMark[] = [];
+  if (style.showSegmentDividers) {
+    // Outer: one ring between the wheel and the band. Inner: one on each band edge.
+    rings = position === 'outer' ? [ring(outerRadius)] : [ring(band.innerRadius), ring(band.outerRadius)];
+  }
+
+  const dividers: LineMark[] = [];
+  segments.forEach((_, i) => {
+    // Skipped where a flow arrow already sits, so no line cuts through it
+    if (!style.showSegmentDividers || hasFlowArrowAt(style, i, segments.length)) return;
+    const angle = spans[i].startAngle;
+    dividers.push({
+      from: polarToCartesian(cx, cy, band.innerRadius, angle),
+      to: polarToCartesian(cx, cy, band.outerRadius, angle),
+      color: style.segmentDividerColor,
+      width: segmentDividerWidthAt(config, i),
+    });
+  });
+
+  return {
+    position,
+    innerRadius: band.innerRadius,
+    outerRadius: band.outerRadius,
+    textRadius: band.textRadius,
+    fontSize,
+    subFontSize,
+    fontFamily: style.segmentFontFamily || style.fontFamily,
+    subFontFamily: style.fontFamily,
+    subColor: style.segmentSubLabelColor ?? '#ffffff',
+    letterSpacing: style.segmentLetterSpacing,
+    bands: segments.map((segment, segmentIndex) => ({
+      segmentIndex,
+      innerRadius: band.innerRadius,
+      outerRadius: band.outerRadius,
+      startAngle: spans[segmentIndex].startAngle,
+      endAngle: spans[segmentIndex].endAngle,
+      color: segment.labelColor || segment.color,
+    })),
+    rings,
+    dividers,
+    labels: segments.map((segment, segmentIndex) => {
+      const { startAngle: segStart, endAngle: segEnd, midAngle } = spans[segmentIndex];
+      const flowShiftDeg = flowLabelShiftDeg(style, band.textRadius, segEnd - segStart, band.arcThickness);
+      return {
+        segmentIndex,
+        rows: segmentLabelRows(style, segStart, segEnd, midAngle, band.textRadius, fontSize, segment.name, flowShiftDeg, segmentSubLabel(config, segmentIndex), subFontSize),
+      };
+    }),
+  };
+}
+
+/**
+ * The curved group-label band: one coloured arc per group across its member
+ * segments, a divider ring on its inner edge and heavy radial dividers at
+ * group boundaries, and the label rows (name, then the sub-label or average).
+ */
+function layoutGroupLabels({ config, cx, cy, outerRadius, spans }: LayoutFrame): GroupLabelLayout | undefined {
+  const { groups = [], segments, style } = config;
+  const band = groupLabelBand(config, outerRadius);
+  if (!band) return undefined;
+  const groupSpans = groups.map((group): AngleSpan => {
+    const members = spans.filter((_, i) => segments[i].group === group.name);
+    const startAngle = members[0].startAngle;
+    const endAngle = members[members.length - 1].endAngle;
+    return { startAngle, endAngle, midAngle: (startAngle + endAngle) / 2 };
+  });
+  const fontSize = scaleSegmentFontSize(groups, groupSpans, band.textRadius, band.baseFontSize);
+  const subFontSize = band.anySub ? Math.floor(fontSize * band.subFontScale) : 0;
+  const subLabel = (groupIndex: number) => {
+    const explicit = groups[groupIndex].subLabel;
+    if (explicit || !style.groupAverageSubLabels) return explicit;
+    return groupAverage(config, groupIndex)?.toFixed(1);
+  };
+
+  const dividerLine = (angle: number): LineMark => ({
+    from: polarToCartesian(cx, cy, band.innerRadius, angle),
+    to: polarToCartesian(cx, cy, band.outerRadius, angle),
+    color: style.segmentDividerColor,
+    width: band.dividerWidth,
+  });
+  const showDividers = !!style.showSegmentDividers;
+
+  return {
+    innerRadius: band.innerRadius,
+    outerRadius: band.outerRadius,
+    textRadius: band.textRadius,
+    fontSize,
+    subFontSize,
+    fontFamily: style.segmentFontFamily || style.fontFamily,
+    subFontFamily: style.fontFamily,
+    subColor: style.segmentSubLabelColor ?? '#ffffff',
+    letterSpacing: style.segmentLetterSpacing,
+    bands: groups.map((group, groupIndex) => ({
+      groupIndex,
+      innerRadius: band.innerRadius,
+      outerRadius: band.outerRadius,
+      startAngle: groupSpans[groupIndex].startAngle,
+      endAngle: groupSpans[groupIndex].endAngle,
+      color: group.color || '#555555',
+    })),
+    rings: showDividers
+      ? [{ radius: band.innerRadius - band.dividerWidth / 2, color: style.segmentDividerColor, width: band.dividerWidth }]
+      : [],
+    dividers: showDividers ? groupSpans.flatMap((span) => [dividerLine(span.startAngle), dividerLine(span.endAngle)]) : [],
+    labels: groups.map((group, groupIndex) => {
+      const { startAngle, endAngle, midAngle } = groupSpans[groupIndex];
+      return {
+        groupIndex,
+        rows: segmentLabelRows(style, startAngle, endAngle, midAngle, band.textRadius, fontSize, group.name, 0, subLabel(groupIndex), subFontSize),
+      };
+    }),
+  };
+}
+
+/** One ring band: the score at its outer ring, that ring's radius and the band's middle */
+interface RingBand {
+  score: number;
+  radius: number;
+  midRadius: number;
+}
+
+/**
+ * Ring bands between `innerRadius` and `outerRadius` (the wheel, or one
+ * sunburst level), innermost first. With the `'level'` mapping the bands are
+ * equal and band i ends at level `min + i`; other mappings split `min`..`max`
+ * into `rings` equal score steps, each ring at its score's radius.
+ */
+function ringBands({ scale }: DiagramConfig, innerRadius: number, outerRadius: number): RingBand[] {
+  const mapping = scale.mapping ?? 'level';
+  if (mapping === 'level') {
+    const radii = ringRadii(scale.rings, innerRadius, outerRadius);
+    const ringStep = (outerRadius - innerRadius) / scale.rings;
+    return radii.slice(1).map((radius, i) => ({
+      score: scale.min + i,
+      radius,
+      midRadius: innerRadius + ((i + 0.5) * ringStep), // Middle of each band
+    }));
+  }
+  const bands: RingBand[] = [];
+  let inner = innerRadius;
+  for (let i = 1; i <= scale.rings; i++) {
+    const score = scale.min + (i * (scale.max - scale.min)) / scale.rings;
+    const radius = scoreToRadius(score, scale.min, scale.max, innerRadius, outerRadius, mapping);
+    bands.push({ score: Number(score.toFixed(2)), radius, midRadius: (inner + radius) / 2 });
+    inner = radius;
+  }
+  return bands;
+}
+
+/** Score rings across the wheel or, in sunburst mode, across each level's ring. */
+function layoutRings({ config, levels }: LayoutFrame): RingLayout {
+  const { style } = config;
+  return {
+    radii: levels.slice(1).flatMap((outer, i) => ringBands(config, levels[i], outer).map((band) => band.radius)),
+    color: style.ringColor || '#cccccc',
+    width: style.ringWidth || 1,
+    dashed: (style.ringStyle || 'dashed') === 'dashed',
+  };
+}
+
+/**
+ * Ring level labels (1-5, or the `scale.ringLabels` names) in the middle of
+ * each band, on the label axis (top unless `style.scoreLabelAngle` is set) or
+ * along a 120° arc for `'curved'`. Each band is labelled with the score at
+ * its outer ring; in sunburst mode only the outermost level is labelled. The
+ * `'key'` placement lists the names in the top-left corner of the padded
+ * view, outermost level first.
+ */
+function layoutScoreLabels(frame: LayoutFrame): ScoreLabelLayout {
+  const { config, cx, cy, padding, levels } = frame;
+  const { scale, style } = config;
+  const ringLabels = scale.ringLabels && scale.ringLabels.length > 0 ? scale.ringLabels : undefined;
+  const placement = ringLabels ? style.ringLabelPlacement ?? 'axis' : 'axis';
+  const axisAngle = style.scoreLabelAngle;
+  const bands = ringBands(config, levels[levels.length - 2], levels[levels.length - 1]);
+  const labels: ScoreLabel[] = [];
+
+  bands.forEach(({ score: level, midRadius: radius }, i) => {
+    const text = ringLabels && placement !== 'key' ? ringLabels[i] ?? '' : String(level);
+
+    if (placement === 'curved') {
+      const angle = axisAngle ?? -90;
+      const norm = ((angle % 360) + 360) % 360;
+      // Bottom-half arcs run counter-clockwise so the text stays upright.
+      const clockwise = !(norm > 0 && norm < 180);
+      labels.push({
+        level,
+        text,
+        radius,
+        position: polarToCartesian(cx, cy, radius, angle),
+        arc: { fromAngle: clockwise ? angle - 60 : angle + 60, toAngle: clockwise ? angle + 60 : angle - 60, clockwise },
+      });
+      return;
+    }
+
+    const position = axisAngle === undefined
+      ? { x: cx, y: cy - radius }
+      : polarToCartesian(cx, cy, radius, axisAngle);
+    labels.push({ level, text, radius, position });
+  });
+
+  const key: Array<{ text: string; position: Point }> = [];
+  if (ringLabels && placement === 'key') {
+    const lineHeight = 14;
+    for (let i = scale.rings - 1; i >= 0; i--) {
+      const row = scale.rings - 1 - i;
+      key.push({
+        text: `${bands[i].score} ${ringLabels[i] ?? ''}`,
+        position: { x: -padding + 8, y: -padding + 16 + row * lineHeight },
+      });
+    }
+  }
+
+  return {
+    placement,
+    fontSize: style.scoreLabelFontSize || 14,
+    fontFamily: style.fontFamily,
+    color: style.scoreLabelColor || '#ffffff',
+    strokeColor: style.scoreLabelStrokeColor || '#333333',
+    labels,
+    key,
+  };
+}
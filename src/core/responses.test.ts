@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import { aggregateResponses, SurveyResponse } from './responses.js';
+import { DiagramConfig, createConfig, validateConfig } from './types.js';
+import { facetSummary } from './summary.js';
+import { renderDiagram } from '../renderers/svg.js';
+
+const template: Partial<DiagramConfig> = {
+  center: { label: 'Survey', radius: 80, color: '#333333' },
+  segments: [
+    {
+      name: 'Strategy',
+      color: '#ff0000',
+      facets: [
+        { name: 'Vision', score: 5, description: 'Where we are heading' },
+        { name: 'Planning', key: 'plan' },
+      ],
+    },
+    {
+      name: 'People',
+      color: '#0000ff',
+      facets: [{ name: 'Skills', children: [{ name: 'Hiring' }, { name: 'Training' }] }],
+    },
+  ],
+};
+
+const answers = (facet: string, values: number[]): SurveyResponse[] =>
+  values.map((value, i) => ({ respondent: `r${i}`, facet, value }));
+
+describe('aggregateResponses', () => {
+  it('scores facets by key with the mean, counting respondents', () => {
+    const result = aggregateResponses(template, [
+      ...answers('Strategy/Vision', [4, 2, 3]),
+      ...answers('plan', [5, 4]),
+      ...answers('People/Skills/Hiring', [1, 2]),
+      ...answers('People/Skills/Training', [3]),
+    ]);
+    expect(result.errors).toEqual([]);
+    expect(result.respondents).toBe(3);
+    expect(result.config.segments[0].facets.map((f) => f.score)).toEqual([3, 4.5]);
+    expect(result.config.segments[1].facets[0].children?.map((f) => f.score)).toEqual([1.5, 3]);
+    expect(result.facets.map((f) => [f.key, f.segmentIndex, f.facetIndex, f.childPath, f.count])).toEqual([
+      ['Strategy/Vision', 0, 0, undefined, 3],
+      ['plan', 0, 1, undefined, 2],
+      ['People/Skills/Hiring', 1, 0, [0], 2],
+      ['People/Skills/Training', 1, 0, [1], 1],
+    ]);
+    expect(validateConfig(result.config).valid).toBe(true);
+    expect(template.segments?.[0].facets[0].score).toBe(5);
+  });
+
+  it('reports quartiles, standard deviation and a histogram per scale point', () => {
+    const [vision] = aggregateResponses(template, answers('Strategy/Vision', [1, 2, 2, 4, 5])).facets;
+    expect(vision.quartiles).toEqual({ min: 1, q1: 2, median: 2, q3: 4, max: 5 });
+    expect(vision.stdDev).toBeCloseTo(1.4697, 4);
+    expect(vision.histogram).toEqual([1, 2, 0, 1, 1]);
+  });
+
+  it('uses the median or a trimmed mean', () => {
+    const values = answers('Strategy/Vision', [1, 1, 4, 4, 4, 5, 5, 5, 5, 5]);
+    const score = (options: Parameters<typeof aggregateResponses>[2]) =>
+      aggregateResponses(template, values, options).facets[0].score;
+    expect(score({ statistic: 'mean' })).toBe(3.9);
+    expect(score({ statistic: 'median' })).toBe(4.5);
+    expect(score({ statistic: 'trimmedMean' })).toBe(4.13);
+    expect(score({ statistic: 'trimmedMean', trim: 0.2 })).toBe(4.5);
+    expect(() => score({ statistic: 'trimmedMean', trim: 0.5 })).toThrow('trim (0.5) must be at least 0 and below 0.5');
+  });
+
+  it('keeps the latest response of a respondent for a facet', () => {
+    const result = aggregateResponses(template, [
+      { respondent: 7, facet: 'plan', value: 1 },
+      { respondent: 7, facet: 'plan', value: 5 },
+      { respondent: 8, facet: 'plan', value: 4 },
+    ]);
+    expect(result.facets[1]).toMatchObject({ key: 'plan', count: 2, score: 4.5 });
+  });
+
+  it('marks facets below the response threshold as insufficient data', () => {
+    const result = aggregateResponses(
+      template,
+      [...answers('Strategy/Vision', [4, 2]), ...answers('plan', [3, 3, 4])],
+      { minResponses: 3 }
+    );
+    const [vision, planning] = result.config.segments[0].facets;
+    expect(result.facets[0]).toMatchObject({ count: 2, insufficient: true });
+    expect(result.facets[0].score).toBeUndefined();
+    expect(vision.score).toBeUndefined();
+    expect(vision.description).toBe('Insufficient data (2 of 3 responses). Where we are heading');
+    expect(planning.score).toBe(3.33);
+    expect(facetSummary(result.config, vision)).toBe(
+      'Vision: not scored. Insufficient data (2 of 3 responses). Where we are heading'
+    );
+    expect(result.facets.find((f) => f.key === 'People/Skills/Training')).toMatchObject({ count: 0, insufficient: true });
+    expect(vision.insufficient).toBe(true);
+    expect(planning.insufficient).toBeUndefined();
+  });
+
+  it('draws facets with insufficient data as labelled, hatched tracks', () => {
+    const { config } = aggregateResponses(template, answers('plan', [3]), { minResponses: 1 });
+    const svg = renderDiagram(config);
+    const marks = svg.match(/<g class="insufficient-data">[\s\S]*?<\/g>/)?.[0] ?? '';
+    // Vision, Hiring and Training have no responses; Planning is scored
+    expect(marks.match(/<path d="[^"]*" fill="url\(#[\w-]+-insufficient-hatch\)"/g)).toHaveLength(3);
+    expect(marks.match(/>n\/a<\/text>/g)).toHaveLength(3);
+    expect(renderDiagram(aggregateResponses(template, answers('Strategy/Vision', [4])).config)).toContain('insufficient-data');
+    expect(renderDiagram(createConfig(template))).not.toContain('insufficient-data');
+  });
+
+  it('writes ranges for range bands, widened to include the score', () => {
+    const values = answers('Strategy/Vision', [1, 1, 1, 1, 5]);
+    const rangeOf = (range: 'iqr' | 'minMax' | 'stdDev') =>
+      aggregateResponses(template, values, { range }).config.segments[0].facets[0].range;
+    expect(rangeOf('iqr')).toEqual({ low: 1, high: 1.8 });
+    expect(rangeOf('minMax')).toEqual({ low: 1, high: 5 });
+    expect(rangeOf('stdDev')).toEqual({ low: 1, high: 3.4 });
+  });
+
+  it('reports facets whose default or explicit keys collide', () => {
+    const twins: Partial<DiagramConfig> = {
+      ...template,
+      segments: [
+        { name: 'Strategy', color: '#ff0000', facets: [{ name: 'Vision' }, { name: 'Vision' }, { name: 'Planning', key: 'Strategy/Vision' }] },
+      ],
+    };
+    const result = aggregateResponses(twins, answers('Strategy/Vision', [4]));
+    expect(result.errors).toEqual([
+      'segment[0].facet[1]: key "Strategy/Vision" is also used by segment[0].facet[0], which gets all its responses',
+      'segment[0].facet[2]: key "Strategy/Vision" is also used by segment[0].facet[0], which gets all its responses',
+    ]);
+    expect(result.facets.map((f) => [f.facetIndex, f.score])).toEqual([[0, 4]]);
+  });
+
+    it('skips and reports responses with unknown keys or values off the scale', () => {
+    const result = aggregateResponses(template, [
+      { respondent: 'a', facet: 'Nope', value: 3 },
+      { respondent: 'a', facet: 'plan', value: 6 },
+      { respondent: 'b', facet: 'plan', value: Number.NaN },
+      { respondent: 'c', facet: 'plan', value: 2 },
+    ]);
+    expect(result.errors).toEqual([
+      'response[0]: facet "Nope" does not match any facet key',
+      'response[1]: value (6) must be between 1 and 5',
+      'response[2]: value must be a finite number',
+    ]);
+    expect(result.respondents).toBe(1);
+  });
+});
@@ -0,0 +1,276 @@
+/**
+ * Survey responses aggregated into facet scores, with respondent counts and
+ * distributions for range bands
+ *
+ * @license MIT
+ * @copyright 2026 CGA Management Ltd
+ * @see https://www.cgamanagement.co.uk/category/tools
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import type { DiagramConfig, Facet, ScaleConfig } from './types.js';
+import { DEFAULT_SCALE, createConfig } from './types.js';
+
+/** One respondent's answer for one facet */
+export interface SurveyResponse {
+  /** Who answered; a later response from the same respondent replaces an earlier one */
+  respondent: string | number;
+  /** `facet.key` of the facet answered (default `'Segment/Facet'`) */
+  facet: string;
+  /** The answer, within the scale */
+  value: number;
+}
+
+/** How a facet's responses become its score */
+export type ResponseStatistic = 'mean' | 'median' | 'trimmedMean';
+
+export interface AggregateResponsesOptions {
+  /** Default `'mean'` */
+  statistic?: ResponseStatistic;
+  /**
+   * Share of responses dropped from each end for `'trimmedMean'`, at least
+   * 0 and below 0.5. Default 0.1.
+   */
+  trim?: number;
+  /**
+   * Fewest respondents a facet needs to be scored. Facets with fewer get no
+   * score and are marked `insufficient`. Default 1.
+   */
+  minResponses?: number;
+  /**
+   * Write each scored facet's spread as its `range`: the interquartile range
+   * (`'iqr'`), lowest to highest response (`'minMax'`) or score ± one
+   * standard deviation within the scale (`'stdDev'`). Widened to include the
+   * score where needed. Unset = no ranges.
+   */
+  range?: 'iqr' | 'minMax' | 'stdDev';
+  /** Start of the description given to facets with too few responses. Default `'Insufficient data'`. */
+  insufficientLabel?: string;
+}
+
+/** Five-number summary of a facet's responses */
+export interface ResponseQuartiles {
+  min: number;
+  q1: number;
+  median: number;
+  q3: number;
+  max: number;
+}
+
+/** What the responses for one facet came to */
+export interface FacetResponses {
+  /** The facet's key */
+  key: string;
+  segmentIndex: number;
+  facetIndex: number;
+  /** Child indices below `facetIndex` for a sub-facet */
+  childPath?: number[];
+  /** Number of respondents who answered */
+  count: number;
+  /** The statistic over the responses; undefined when `insufficient` */
+  score?: number;
+  /** Fewer than `minResponses` respondents answered */
+  insufficient: boolean;
+  /** Undefined without responses */
+  quartiles?: ResponseQuartiles;
+  /** Population standard deviation; undefined without responses */
+  stdDev?: number;
+  /**
+   * Number of responses at each whole point of the scale, from `scale.min`
+   * up (values are rounded to the nearest point), for stacked bars
+   */
+  histogram: number[];
+}
+
+export interface ResponseAggregation {
+  /** The template with scores (and ranges) filled in, through `createConfig` */
+  config: DiagramConfig;
+  /** One entry per facet that has responses or no sub-facets, in facet order */
+  facets: FacetResponses[];
+  /** Number of distinct respondents over all accepted responses */
+  respondents: number;
+  /**
+   * Facets sharing a key, then responses that were skipped, e.g.
+   * `'response[4]: value (7) must be between 1 and 5'`
+   */
+  errors: string[];
+}
+
+/** A facet of the copied template and where it sits */
+interface KeyedFacet {
+  facet: Facet;
+  key: string;
+  /** Config path for messages, e.g. `segment[0].facet[1]` */
+  path: string;
+  segmentIndex: number;
+  facetIndex: number;
+  childPath: number[];
+}
+
+/** Copy of a facet and all its sub-facets, so the template is left as it was. */
+function cloneFacet(facet: Facet): Facet {
+  return facet.children ? { ...facet, children: facet.children.map(cloneFacet) } : { ...facet };
+}
+
+/** Value at fraction `p` of sorted values, interpolating between neighbours. */
+function quantile(sorted: number[], p: number): number {
+  const at = (sorted.length - 1) * p;
+  const below = Math.floor(at);
+  const above = Math.min(below + 1, sorted.length - 1);
+  return sorted[below] + (sorted[above] - sorted[below]) * (at - below);
+}
+
+/** The chosen statistic over sorted values. */
+function statistic(sorted: number[], name: ResponseStatistic, trim: number): number {
+  if (name === 'median') return quantile(sorted, 0.5);
+  const drop = name === 'trimmedMean' ? Math.floor(sorted.length * trim) : 0;
+  const kept = sorted.slice(drop, sorted.length - drop);
+  return kept.reduce((sum, v) => sum + v, 0) / kept.length;
+}
+
+/** Responses per whole point of the scale. */
+function histogram(values: number[], scale: ScaleConfig): number[] {
+  const start = Math.ceil(scale.min);
+  const counts = new Array<number>(Math.max(0, Math.floor(scale.max) - start + 1)).fill(0);
+  values.forEach((v) => {
+    const index = Math.min(Math.max(Math.round(v) - start, 0), counts.length - 1);
+    if (index >= 0) counts[index]++;
+  });
+  return counts;
+}
+
+/** Low and high end of a scored facet's responses for `options.range`. */
+function responseSpread(
+  range: NonNullable<AggregateResponsesOptions['range']>,
+  { score = 0, quartiles, stdDev = 0 }: FacetResponses,
+  scale: ScaleConfig
+): [number, number] | undefined {
+  if (!quartiles) return undefined;
+  if (range === 'iqr') return [quartiles.q1, quartiles.q3];
+  if (range === 'minMax') return [quartiles.min, quartiles.max];
+  return [Math.max(scale.min, score - stdDev), Math.min(scale.max, score + stdDev)];
+}
+
+/**
+ * Turn raw survey responses into facet scores on a diagram template. Each
+ * facet is matched by its `key` (see `Facet.key`) and scored with the chosen
+ * statistic over its respondents' values, kept to two decimal places. Facets
+ * with fewer than `minResponses` respondents have their score removed, are
+ * marked `insufficient` (drawn as a hatched track) and have their
+ * description started with e.g. "Insufficient data (2 of 3 responses)";
+ * sub-facets left unscored roll up as usual. Responses with an unknown facet
+ * key or a value outside the scale are skipped and reported, as are facets
+ * whose key (explicit or default) repeats an earlier one.
+ * @param template Diagram config to fill in; not modified
+ * @param responses The raw responses
+ * @param options Statistic, threshold and range options
+ * @throws Error when `trim` or `minResponses` is out of range
+ */
+export function aggregateResponses(
+  template: Partial<DiagramConfig>,
+  responses: SurveyResponse[],
+  options: AggregateResponsesOptions = {}
+): ResponseAggregation {
+  const { statistic: name = 'mean', trim = 0.1, minResponses = 1, range } = options;
+  const insufficientLabel = options.insufficientLabel ?? 'Insufficient data';
+  if (!(trim >= 0 && trim < 0.5)) throw new Error(`trim (${trim}) must be at least 0 and below 0.5`);
+  if (!(Number.isInteger(minResponses) && minResponses >= 1)) {
+    throw new Error(`minResponses (${minResponses}) must be a whole number of at least 1`);
+  }
+
+  const scale = { ...DEFAULT_SCALE, ...template.scale };
+  const segments = (template.segments ?? []).map((s) => ({ ...s, facets: s.facets.map(cloneFacet) }));
+  const errors: string[] = [];
+  const keyed = new Map<string, KeyedFacet>();
+  const order: KeyedFacet[] = [];
+  segments.forEach((segment, segmentIndex) => {
+    const visit = (facet: Facet, names: string, path: string, facetIndex: number, childPath: number[]) => {
+      const defaultKey = `${names}/${facet.name}`;
+      const entry = { facet, key: facet.key ?? defaultKey, path, segmentIndex, facetIndex, childPath };
+      const first = keyed.get(entry.key);
+      if (first) {
+        errors.push(`${path}: key "${entry.key}" is also used by ${first.path}, which gets all its responses`);
+      } else {
+        keyed.set(entry.key, entry);
+      }
+      order.push(entry);
+      facet.children?.forEach((child, i) => visit(child, defaultKey, `${path}.children[${i}]`, facetIndex, [...childPath, i]));
+    };
+    segment.facets.forEach((facet, i) => visit(facet, segment.name, `segment[${segmentIndex}].facet[${i}]`, i, []));
+  });
+
+  const answers = new Map<string, Map<string | number, number>>();
+  const respondents = new Set<string | number>();
+  responses.forEach((response, i) => {
+    const { respondent, facet, value } = response;
+    if (!keyed.has(facet)) {
+      errors.push(`response[${i}]: facet "${facet}" does not match any facet key`);
+    } else if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors.push(`response[${i}]: value must be a finite number`);
+    } else if (value < scale.min || value > scale.max) {
+      errors.push(`response[${i}]: value (${value}) must be between ${scale.min} and ${scale.max}`);
+    } else {
+      let byRespondent = answers.get(facet);
+      if (!byRespondent) {
+        byRespondent = new Map();
+        answers.set(facet, byRespondent);
+      }
+      byRespondent.set(respondent, value);
+      respondents.add(respondent);
+    }
+  });
+
+  const facets: FacetResponses[] = [];
+  order.forEach((entry) => {
+    const { facet, key } = entry;
+    const values = [...(answers.get(key)?.values() ?? [])].sort((a, b) => a - b);
+    if (keyed.get(key) !== entry || (values.length === 0 && facet.children?.length)) return;
+
+    const count = values.length;
+    const result: FacetResponses = {
+      key,
+      segmentIndex: entry.segmentIndex,
+      facetIndex: entry.facetIndex,
+      ...(entry.childPath.length > 0 ? { childPath: entry.childPath } : {}),
+      count,
+      insufficient: count < minResponses,
+      histogram: histogram(values, scale),
+    };
+    if (count > 0) {
+      const mean = values.reduce((sum, v) => sum + v, 0) / count;
+      result.quartiles = {
+        min: values[0],
+        q1: quantile(values, 0.25),
+        median: quantile(values, 0.5),
+        q3: quantile(values, 0.75),
+        max: values[count - 1],
+      };
+      result.stdDev = Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / count);
+    }
+
+    delete facet.score;
+    delete facet.range;
+    delete facet.insufficient;
+    if (result.insufficient) {
+      const note = `${insufficientLabel} (${count} of ${minResponses} responses)`;
+      facet.description = facet.description ? `${note}. ${facet.description}` : note;
+      facet.insufficient = true;
+    } else {
+      const score = Number(statistic(values, name, trim).toFixed(2));
+      result.score = score;
+      facet.score = score;
+      const spread = range && responseSpread(range, result, scale);
+      if (spread) {
+        facet.range = {
+          low: Number(Math.min(spread[0], score).toFixed(2)),
+          high: Number(Math.max(spread[1], score).toFixed(2)),
+        };
+      }
+    }
+    facets.push(result);
+  });
+
+  return { config: createConfig({ ...template, segments }), facets, respondents: respondents.size, errors };
+}
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { primaryScore, rolledUpScore, targetGap, formatGap, diagramSummary, segmentSummary, facetSummary, groupAverage } from './summary.js';
+import { DEFAULT_STYLE, DEFAULT_SCALE, DiagramConfig } from './types.js';
+
+const config: DiagramConfig = {
+  size: 800,
+  startAngle: -90,
+  center: { label: 'Hub', radius: 100, color: '#333333' },
+  scale: { ...DEFAULT_SCALE },
+  segments: [
+    {
+      name: 'Strategy',
+      color: '#ff0000',
+      facets: [
+        { name: 'Vision', score: 4, description: 'Where we are going' },
+        { name: 'Planning', score: 3 },
+      ],
+    },
+    { name: 'Gover-\nnance', color: '#00ff00', facets: [{ name: 'Controls', score: 1.5 }, { name: 'Risk' }] },
+    { name: 'People', color: '#0000ff', facets: [{ name: 'Skills', score: 2 }] },
+  ],
+  style: { ...DEFAULT_STYLE },
+};
+
+describe('primaryScore', () => {
+  it('prefers facet.score and falls back to the first series', () => {
+    const series = [{ key: 'current' }, { key: 'target' }];
+    expect(primaryScore({ name: 'A', score: 2, scores: { current: 4 } }, series)).toBe(2);
+    expect(primaryScore({ name: 'A', scores: { current: 4, target: 5 } }, series)).toBe(4);
+    expect(primaryScore({ name: 'A', scores: { current: 4 } })).toBeUndefined();
+  });
+});
+
+describe('rolledUpScore', () => {
+  const facet = {
+    name: 'Vision',
+    children: [
+      { name: 'Clarity', score: 4 },
+      { name: 'Reach', weight: 3, children: [{ name: 'Local', score: 1 }, { name: 'Global', score: 3 }] },
+      { name: 'Unscored' },
+    ],
+  };
+
+  it('averages scored children, rolling nested ones up first', () => {
+    expect(rolledUpScore(facet, (f) => f.score)).toBe(3);
+    expect(rolledUpScore(facet, (f) => f.score, 'weightedMean')).toBe(2.5);
+  });
+
+  it('prefers a score set directly on the facet', () => {
+    expect(rolledUpScore({ ...facet, score: 5 }, (f) => f.score)).toBe(5);
+    expect(rolledUpScore({ name: 'Empty', children: [{ name: 'A' }] }, (f) => f.score)).toBeUndefined();
+  });
+
+  it('feeds summaries through primaryScore', () => {
+    const nested: DiagramConfig = {
+      ...config,
+      scale: { ...config.scale, rollup: 'weightedMean' },
+      segments: [{ name: 'Strategy', color: '#ff0000', facets: [facet] }],
+    };
+    expect(primaryScore(facet, undefined, 'weightedMean')).toBe(2.5);
+    expect(segmentSummary(nested, 0)).toBe('Strategy, average 2.5, 1 facet');
+    expect(facetSummary(nested, facet)).toBe('Vision: average 2.5 of 5');
+  });
+});
+
+describe('targetGap and formatGap', () => {
+  it('give score minus target, signed', () => {
+    expect(targetGap({ name: 'A', score: 3.2, target: 4.7 })).toBe(-1.5);
+    expect(targetGap({ name: 'A', scores: { now: 4 }, target: 3.5 }, [{ key: 'now' }])).toBe(0.5);
+    expect(targetGap({ name: 'A', target: 3 })).toBeUndefined();
+    expect([-1.5, 0.5, 0].map(formatGap)).toEqual(['-1.5', '+0.5', '0']);
+  });
+});
+
+describe('diagramSummary', () => {
+  it('reports count, overall average and the highest and lowest segments', () => {
+    expect(diagramSummary(config)).toBe(
+      '3 dimensions, overall average 2.6, highest: Strategy 3.5, lowest: Gover- nance 1.5'
+    );
+  });
+
+  it('says so when nothing is scored', () => {
+    const unscored = { ...config, segments: [{ name: 'A', color: '#000', facets: [{ name: 'x' }] }] };
+    expect(diagramSummary(unscored)).toBe('1 dimension, no scores');
+  });
+});
+
+describe('segmentSummary', () => {
+  it('names the segment with its average and facet count', () => {
+    expect(segmentSummary(config, 0)).toBe('Strategy, average 3.5, 2 facets');
+    expect(segmentSummary(config, 2)).toBe('People, average 2.0, 1 facet');
+  });
+});
+
+describe('groupAverage', () => {
+  it('averages the facets of all member segments', () => {
+    const grouped = {
+      ...config,
+      groups: [{ name: 'Core' }, { name: 'Empty' }],
+      segments: config.segments.map((s, i) => ({ ...s, group: i < 2 ? 'Core' : undefined })),
+    };
+    expect(groupAverage(grouped, 0)).toBeCloseTo((4 + 3 + 1.5) / 3);
+    expect(groupAverage(grouped, 1)).toBeUndefined();
+  });
+});
+
+describe('facetSummary', () => {
+  it('reads the score against the scale maximum, with the description', () => {
+    expect(facetSummary(config, config.segments[0].facets[0])).toBe('Vision: 4 of 5. Where we are going');
+    expect(facetSummary(config, config.segments[1].facets[1])).toBe('Risk: not scored');
+  });
+
+  it('adds the range', () => {
+    expect(facetSummary(config, { name: 'A', score: 3, range: { low: 2.5, high: 4 } })).toBe('A: 3 of 5, range 2.5 to 4');
+  });
+
+  it('adds the target and gap', () => {
+    expect(facetSummary(config, { name: 'A', score: 3, target: 4.5 })).toBe('A: 3 of 5, target 4.5 (gap -1.5)');
+    expect(facetSummary(config, { name: 'A', target: 4.5 })).toBe('A: not scored, target 4.5');
+  });
+
+  it('lists every series score', () => {
+    const withSeries = { ...config, series: [{ key: 'current', label: 'Current' }, { key: 'target' }] };
+    expect(facetSummary(withSeries, { name: 'A', scores: { current: 3, target: 4.5 } })).toBe(
+      'A: Current 3 of 5, target 4.5 of 5'
+    );
+  });
+});
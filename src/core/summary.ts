@@ -0,0 +1,170 @@
+/**
+ * Text summaries of a diagram's scores, used for accessible output
+ *
+ * @license MIT
+ * @copyright 2026 CGA Management Ltd
+ * @see https://www.cgamanagement.co.uk/category/tools
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import type { DiagramConfig, Facet, ScaleConfig, ScoreSeries } from './types.js';
+
+/**
+ * The score that stands for a facet in labels, figures and summaries:
+ * `facet.score`, or the first series' score when only `facet.scores` is set,
+ * or else the roll-up of its `children`' primary scores.
+ * @param facet The facet
+ * @param series The diagram's score series, if any
+ * @param rollup How children's scores combine (`scale.rollup`). Default `'mean'`.
+ */
+export function primaryScore(facet: Facet, series?: ScoreSeries[], rollup?: ScaleConfig['rollup']): number | undefined {
+  const first = series?.[0];
+  return rolledUpScore(
+    facet,
+    (f) => (f.score !== undefined && f.score !== null ? f.score : first ? f.scores?.[first.key] : undefined),
+    rollup
+  );
+}
+
+/**
+ * A facet's own score (read by `scoreOf`) or, when it has none, the mean of
+ * its children's rolled-up scores, weighted by child `weight` for
+ * `'weightedMean'`. Unscored children are left out; undefined when nothing
+ * below the facet is scored.
+ * @param facet The facet
+ * @param scoreOf Reads a facet's own score, e.g. `(f) => f.score`
+ * @param rollup `'mean'` (default) or `'weightedMean'`
+ */
+export function rolledUpScore(
+  facet: Facet,
+  scoreOf: (facet: Facet) => number | undefined,
+  rollup: ScaleConfig['rollup'] = 'mean'
+): number | undefined {
+  const own = scoreOf(facet);
+  if (own !== undefined && own !== null) return own;
+  let total = 0;
+  let weights = 0;
+  facet.children?.forEach((child) => {
+    const score = rolledUpScore(child, scoreOf, rollup);
+    if (score === undefined) return;
+    const weight = rollup === 'weightedMean' ? child.weight ?? 1 : 1;
+    total += score * weight;
+    weights += weight;
+  });
+  return weights > 0 ? total / weights : undefined;
+}
+
+/**
+ * How far a facet's score is from its `target` (score minus target, to two
+ * decimal places): negative below target, positive above. Undefined when the
+ * facet has no target or no score (see `primaryScore`).
+ * @param facet The facet
+ * @param series The diagram's score series, if any
+ * @param rollup How children's scores combine (`scale.rollup`)
+ */
+export function targetGap(facet: Facet, series?: ScoreSeries[], rollup?: ScaleConfig['rollup']): number | undefined {
+  const score = primaryScore(facet, series, rollup);
+  if (facet.target === undefined || facet.target === null || score === undefined || score === null) return undefined;
+  return Number((score - facet.target).toFixed(2));
+}
+
+/** A target gap as figure text: "-1.5", "+0.5" or "0". */
+export function formatGap(gap: number): string {
+  return gap > 0 ? `+${gap}` : String(gap);
+}
+
+/** Mean of the scored facets in a list, or undefined when none is scored. */
+function meanScore(facets: Facet[], series?: ScoreSeries[], rollup?: ScaleConfig['rollup']): number | undefined {
+  const scores = facets
+    .map((f) => primaryScore(f, series, rollup))
+    .filter((s): s is number => s !== undefined && s !== null);
+  if (scores.length === 0) return undefined;
+  return scores.reduce((sum, s) => sum + s, 0) / scores.length;
+}
+
+/**
+ * One-sentence text alternative for a diagram, e.g.
+ * "8 dimensions, overall average 3.2, highest: Strategy 4.1, lowest: Governance 1.5".
+ * Averages are over scored facets (see `primaryScore`); highest/lowest compare
+ * segment averages and are omitted when fewer than two segments are scored.
+ * @param config The diagram configuration
+ */
+export function diagramSummary(config: DiagramConfig): string {
+  const { segments, series } = config;
+  const count = `${segments.length} ${segments.length === 1 ? 'dimension' : 'dimensions'}`;
+  const overall = meanScore(segments.flatMap((s) => s.facets), series, config.scale.rollup);
+  if (overall === undefined) return `${count}, no scores`;
+
+  const parts = [count, `overall average ${overall.toFixed(1)}`];
+  const averages = segments
+    .map((s) => ({ name: s.name.replace(/\n/g, ' '), mean: meanScore(s.facets, series, config.scale.rollup) }))
+    .filter((a): a is { name: string; mean: number } => a.mean !== undefined);
+  if (averages.length > 1) {
+    const highest = averages.reduce((best, a) => (a.mean > best.mean ? a : best));
+    const lowest = averages.reduce((worst, a) => (a.mean < worst.mean ? a : worst));
+    parts.push(`highest: ${highest.name} ${highest.mean.toFixed(1)}`);
+    parts.push(`lowest: ${lowest.name} ${lowest.mean.toFixed(1)}`);
+  }
+  return parts.join(', ');
+}
+
+/**
+ * Accessible label for one segment, e.g. "Strategy, average 3.5, 2 facets".
+ * @param config The diagram configuration
+ * @param segIndex Index of the segment
+ */
+export function segmentSummary(config: DiagramConfig, segIndex: number): string {
+  const segment = config.segments[segIndex];
+  const parts = [segment.name.replace(/\n/g, ' ')];
+  const mean = meanScore(segment.facets, config.series, config.scale.rollup);
+  if (mean !== undefined) parts.push(`average ${mean.toFixed(1)}`);
+  parts.push(`${segment.facets.length} ${segment.facets.length === 1 ? 'facet' : 'facets'}`);
+  return parts.join(', ');
+}
+
+/**
+ * Average score of a `DiagramConfig.groups` entry over all facets of its
+ * segments, or undefined when none is scored.
+ * @param config The diagram configuration
+ * @param groupIndex Index of the group
+ */
+export function groupAverage(config: DiagramConfig, groupIndex: number): number | undefined {
+  const name = config.groups?.[groupIndex]?.name;
+  const facets = config.segments.filter((s) => s.group !== undefined && s.group === name).flatMap((s) => s.facets);
+  return meanScore(facets, config.series, config.scale.rollup);
+}
+
+/**
+ * Accessible label for one facet, e.g. "Vision: 4.2 of 5" or, with series,
+ * "Vision: Current 3 of 5, Target 4.5 of 5". A facet scored only through its
+ * `children` reads e.g. "Vision: average 3.5 of 5"; unscored facets read "not scored";
+ * a `range` adds e.g. ", range 3 to 5" and a `target` e.g.
+ * ", target 4.5 (gap -1.5)".
+ * @param config The diagram configuration
+ * @param facet The facet
+ */
+export function facetSummary(config: DiagramConfig, facet: Facet): string {
+  const name = facet.name.replace(/\n/g, ' ');
+  const max = config.scale.max;
+  const series = config.series;
+  let value: string;
+  if (series && series.length > 0) {
+    const scored = series
+      .filter((s) => facet.scores?.[s.key] !== undefined && facet.scores?.[s.key] !== null)
+      .map((s) => `${s.label ?? s.key} ${facet.scores?.[s.key]} of ${max}`);
+    value = scored.length > 0 ? scored.join(', ') : 'not scored';
+  } else if (facet.score !== undefined && facet.score !== null) {
+    value = `${facet.score} of ${max}`;
+  } else {
+    const rolled = primaryScore(facet, undefined, config.scale.rollup);
+    value = rolled !== undefined ? `average ${Number(rolled.toFixed(2))} of ${max}` : 'not scored';
+  }
+  if (facet.range) value += `, range ${facet.range.low} to ${facet.range.high}`;
+  if (facet.target !== undefined && facet.target !== null) {
+    const gap = targetGap(facet, config.series, config.scale.rollup);
+    value += `, target ${facet.target}` + (gap === undefined ? '' : ` (gap ${formatGap(gap)})`);
+  }
+  return facet.description ? `${name}: ${value}. ${facet.description}` : `${name}: ${value}`;
+}
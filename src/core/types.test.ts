@@ -6,6 +6,7 @@ import {
   DEFAULT_SCALE,
   DiagramConfig,
 } from './types.js';
+import type { ScaleMapping } from './geometry.js';
 
 const validConfig: DiagramConfig = {
   size: 800,
@@ -94,6 +95,124 @@ describe('validateConfig', () => {
     expect(result.errors).toContain('scale.rings must be greater than 0');
   });
 
+  it('rejects ringLabels that do not match the ring count', () => {
+    const config = {
+      ...validConfig,
+      scale: { min: 1, max: 5, rings: 5, ringLabels: ['Initial', 'Managed'] },
+    };
+    const result = validateConfig(config);
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain('scale.ringLabels has 2 entries but scale.rings is 5');
+  });
+
+  it('rejects an unknown scale mapping', () => {
+    const config = { ...validConfig, scale: { ...validConfig.scale, mapping: 'sqr' as ScaleMapping } };
+    expect(validateConfig(config).errors).toEqual([
+      `scale.mapping "sqr" must be one of 'level', 'linear', 'area', 'sqrt'`,
+    ]);
+    expect(validateConfig({ ...config, scale: { ...config.scale, mapping: 'sqrt' } }).valid).toBe(true);
+  });
+
+  it('rejects an unknown rollup', () => {
+    const config = { ...validConfig, scale: { ...validConfig.scale, rollup: 'median' as 'mean' } };
+    expect(validateConfig(config).errors).toEqual([`scale.rollup "median" must be one of 'mean', 'weightedMean'`]);
+    expect(validateConfig({ ...config, scale: { ...config.scale, rollup: 'weightedMean' } }).valid).toBe(true);
+  });
+
+  it('rejects a baseline outside the scale', () => {
+    const config = { ...validConfig, scale: { min: -5, max: 5, rings: 10, baseline: 6 } };
+    expect(validateConfig(config).errors).toEqual(['scale.baseline (6) must be between -5 and 5']);
+    expect(validateConfig({ ...config, scale: { ...config.scale, baseline: -5 } }).valid).toBe(true);
+  });
+
+  it('rejects facet ranges outside the scale or not containing the score', () => {
+    const withRange = (score: number, range: { low: number; high: number }) => ({
+      ...validConfig,
+      segments: [{ name: 'Seg', color: '#702082', facets: [{ name: 'F', score, range }] }],
+    });
+    expect(validateConfig(withRange(3, { low: 2, high: 4 })).valid).toBe(true);
+    expect(validateConfig(withRange(3, { low: 0, high: 6 })).errors).toEqual([
+      'segment[0].facet[0].range.low (0) must be between 1 and 5',
+      'segment[0].facet[0].range.high (6) must be between 1 and 5',
+    ]);
+    expect(validateConfig(withRange(3, { low: 4, high: 2 })).errors).toContain(
+      'segment[0].facet[0].range.low (4) must not be greater than range.high (2)'
+    );
+    expect(validateConfig(withRange(5, { low: 2, high: 4 })).errors).toEqual([
+      'segment[0].facet[0].score (5) must be within its range (2 to 4)',
+    ]);
+  });
+
+  it('rejects a target outside the scale', () => {
+    const withTarget = (target: number) => ({
+      ...validConfig,
+      segments: [{ name: 'Seg', color: '#702082', facets: [{ name: 'F', score: 3, target }] }],
+    });
+    expect(validateConfig(withTarget(5)).valid).toBe(true);
+    expect(validateConfig(withTarget(6)).errors).toEqual(['segment[0].facet[0].target (6) must be between 1 and 5']);
+  });
+
+  it('checks segment groups', () => {
+    const grouped = (groups: string[], memberOf: Array<string | undefined>) => ({
+      ...validConfig,
+      groups: groups.map((name) => ({ name })),
+      segments: memberOf.map((group, i) => ({ name: `S${i}`, color: '#702082', group, facets: [{ name: 'F' }] })),
+    });
+    expect(validateConfig(grouped(['A', 'B'], ['A', 'A', 'B', undefined])).valid).toBe(true);
+    expect(validateConfig(grouped(['A', 'A'], ['A'])).errors).toEqual(['groups[1].name "A" is duplicated']);
+    expect(validateConfig(grouped(['A', 'B'], ['A', 'C'])).errors).toEqual([
+      'segment[1].group "C" does not match any group name',
+      'group "B" has no segments',
+    ]);
+    expect(validateConfig(grouped(['A', 'B'], ['A', 'B', 'A'])).errors).toEqual(['group "A" segments must be adjacent']);
+  });
+
+  it('accepts a valid RAG threshold scale', () => {
+    const config: DiagramConfig = {
+      ...validConfig,
+      style: {
+        ...DEFAULT_STYLE,
+        scoreColorScale: {
+          type: 'threshold',
+          stops: [{ score: 2, color: 'red' }, { score: 3.5, color: 'orange' }],
+          above: 'green',
+        },
+      },
+    };
+    expect(validateConfig(config).valid).toBe(true);
+  });
+
+  it('rejects non-monotonic or out-of-scale colour stops', () => {
+    const config: DiagramConfig = {
+      ...validConfig,
+      style: {
+        ...DEFAULT_STYLE,
+        scoreColorScale: {
+          type: 'threshold',
+          stops: [{ score: 3.5, color: 'orange' }, { score: 2, color: 'red' }, { score: 6, color: 'green' }],
+        },
+      },
+    };
+    const result = validateConfig(config);
+    expect(result.errors).toContain(
+      'style.scoreColorScale.stops must be in strictly ascending score order (stop 1)'
+    );
+    expect(result.errors).toContain('style.scoreColorScale.stops[2].score (6) must be between 1 and 5');
+  });
+
+  it('rejects gradient stops that cannot be interpolated', () => {
+    const config: DiagramConfig = {
+      ...validConfig,
+      style: {
+        ...DEFAULT_STYLE,
+        scoreColorScale: { type: 'gradient', stops: [{ score: 1, color: 'red' }] },
+      },
+    };
+    const result = validateConfig(config);
+    expect(result.errors).toContain('style.scoreColorScale needs at least 2 stop(s)');
+    expect(result.errors[1]).toContain('must be a hex or rgb() colour to interpolate');
+  });
+
   it('rejects empty segments array', () => {
     const config = { ...validConfig, segments: [] };
     const result = validateConfig(config);
@@ -142,6 +261,151 @@ describe('validateConfig', () => {
     expect(result.valid).toBe(true);
   });
 
+  it('range-checks every series score against the scale', () => {
+    const config: DiagramConfig = {
+      ...validConfig,
+      series: [{ key: 'current' }, { key: 'target' }],
+      segments: [
+        {
+          name: 'Seg',
+          color: '#000',
+          facets: [{ name: 'Facet', scores: { current: 3, target: 7 } }],
+        },
+      ],
+    };
+    const result = validateConfig(config);
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([
+      'segment[0].facet[0].scores.target (7) must be between 1 and 5',
+    ]);
+  });
+
+  it('rejects facet scores for an undefined series', () => {
+    const config: DiagramConfig = {
+      ...validConfig,
+      series: [{ key: 'current' }],
+      segments: [
+        {
+          name: 'Seg',
+          color: '#000',
+          facets: [{ name: 'Facet', scores: { baseline: 2 } }],
+        },
+      ],
+    };
+    const result = validateConfig(config);
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]).toContain('scores.baseline does not match any series key');
+  });
+
+  it('rejects duplicate series keys and out-of-range opacity', () => {
+    const config: DiagramConfig = {
+      ...validConfig,
+      series: [{ key: 'current' }, { key: 'current', opacity: 1.5 }],
+    };
+    const result = validateConfig(config);
+    expect(result.errors).toContain('series[1].key "current" is duplicated');
+    expect(result.errors).toContain('series[1].opacity (1.5) must be between 0 and 1');
+  });
+
+  it('rejects facet keys used twice, across segments and sub-facets', () => {
+    const config: DiagramConfig = {
+      ...validConfig,
+      segments: [
+        { name: 'A', color: '#000', facets: [{ name: 'One', key: 'q1' }] },
+        { name: 'B', color: '#000', facets: [{ name: 'Two', children: [{ name: 'Sub', key: 'q1' }] }] },
+      ],
+    };
+    expect(validateConfig(config).errors).toEqual(['segment[1].facet[0].children[0].key "q1" is duplicated']);
+  });
+
+  it('rejects non-positive segment and facet weights', () => {
+    const config: DiagramConfig = {
+      ...validConfig,
+      segments: [
+        {
+          name: 'Seg',
+          color: '#000',
+          weight: 0,
+          facets: [{ name: 'Facet', weight: -1 }],
+        },
+      ],
+    };
+    const result = validateConfig(config);
+    expect(result.errors).toEqual([
+      'segment[0].weight must be greater than 0',
+      'segment[0].facet[0].weight must be greater than 0',
+    ]);
+  });
+
+  it('names sub-facets by their path in errors', () => {
+    const config: DiagramConfig = {
+      ...validConfig,
+      segments: [
+        {
+          name: 'Seg',
+          color: '#000',
+          facets: [{ name: 'Facet', children: [{ name: 'Sub', children: [{ name: 'Leaf', score: 9, weight: 0 }] }] }],
+        },
+      ],
+    };
+    const result = validateConfig(config);
+    expect(result.errors).toEqual([
+      'segment[0].facet[0].children[0].children[0].weight must be greater than 0',
+      'segment[0].facet[0].children[0].children[0].score (9) must be between 1 and 5',
+    ]);
+  });
+
+  it('rejects values that could break out of their CSS declaration', () => {
+    const config: DiagramConfig = {
+      ...validConfig,
+      center: { ...validConfig.center, color: 'red; fill: url(https://evil.example/x)' },
+      segments: [{ ...validConfig.segments[0], labelColor: '<b>' }],
+      style: { ...DEFAULT_STYLE, fontFamily: 'Arial } svg { display: none', segmentLetterSpacing: '1px/*' },
+    };
+    expect(validateConfig(config).errors).toEqual([
+      'center.color "red; fill: url(https://evil.example/x)" contains characters that are not allowed in a CSS value',
+      'style.fontFamily "Arial } svg { display: none" contains characters that are not allowed in a CSS value',
+      'style.segmentLetterSpacing "1px/*" contains characters that are not allowed in a CSS value',
+      'segment[0].labelColor "<b>" contains characters that are not allowed in a CSS value',
+    ]);
+  });
+
+  it('rejects non-numbers in numeric fields', () => {
+    const config = {
+      ...validConfig,
+      size: '800" onload="x',
+      segments: [{ ...validConfig.segments[0], facets: [{ name: 'F', score: '<b>3</b>' }] }],
+      style: { ...DEFAULT_STYLE, trackOpacity: '0.3;', fontFamily: 42 },
+    } as unknown as DiagramConfig;
+    const { errors } = validateConfig(config);
+    expect(errors).toContain('size must be a finite number');
+    expect(errors).toContain('style.trackOpacity must be a finite number');
+    expect(errors).toContain('style.fontFamily must be a string');
+    expect(errors).toContain('segment[0].facet[0].score must be a finite number');
+  });
+
+  it('accepts ordinary CSS values by default and checks them against the allowlist in strict mode', () => {
+    const config: DiagramConfig = {
+      ...validConfig,
+      center: { ...validConfig.center, color: 'var(--brand)', fontFamily: '"Open Sans", Arial, sans-serif' },
+      series: [{ key: 'a', color: 'hsl(200, 50%, 40%)', strokeDasharray: '6,3' }],
+      style: { ...DEFAULT_STYLE, facetLabelWeight: 600, segmentLetterSpacing: '0.1em', backgroundColor: 'transparent' },
+    };
+    expect(validateConfig(config).errors).toEqual([]);
+    expect(validateConfig(config, { strict: true }).errors).toEqual([
+      'center.color "var(--brand)" is not an allowed CSS colour',
+    ]);
+    const strictOk = { ...config, center: { ...config.center, color: 'rgba(0, 0, 0, 0.5)' } };
+    expect(validateConfig(strictOk, { strict: true }).valid).toBe(true);
+  });
+
+  it('rejects a precision that is not an integer from 0 to 10', () => {
+    const withPrecision = (precision: number) => ({ ...validConfig, style: { ...DEFAULT_STYLE, precision } });
+    expect(validateConfig(withPrecision(0)).valid).toBe(true);
+    expect(validateConfig(withPrecision(1.5)).errors).toEqual(['style.precision (1.5) must be an integer between 0 and 10']);
+    expect(validateConfig(withPrecision(11)).errors).toEqual(['style.precision (11) must be an integer between 0 and 10']);
+  });
+
   it('rejects center radius >= outer radius', () => {
     const config = {
       ...validConfig,
@@ -9,6 +9,11 @@
  * LICENSE file in the root directory of this source tree.
  */
 
+import { parseColor } from './color.js';
+import { isSafeCssValue, isStrictCssValue } from './css.js';
+import type { CssValueKind } from './css.js';
+import type { ScaleMapping } from './geometry.js';
+
 export interface Facet {
   /** Display name for this facet */
   name: string;
@@ -19,10 +24,61 @@ export interface Facet {
   /**
    * Optional figure text (e.g. a raw score "3.7" or a percentage "74%")
    * rendered in a tidy ring just outside the centre hub at this facet's
-   * mid-angle. The renderer prints the string verbatim, so the caller decides
-   * the format. Only drawn when set; see `style.facetFigure*` options.
+   * mid-angle. Printed verbatim apart from statistic tokens such as
+   * `'{pct}%'`, filled from this facet's score (see `formatStats`). Only
+   * drawn when set; see `style.facetFigure*` options.
    */
   figure?: string;
+  /**
+   * Named scores for overlaid series (e.g. `{ current: 3, target: 4.5 }`).
+   * Keys refer to `DiagramConfig.series[].key`; only read when `series` is
+   * set, in which case each series is drawn as its own fill layer.
+   */
+  scores?: Record<string, number>;
+  /**
+   * Relative angular width of this facet within its segment. Default 1, so
+   * facets split their segment evenly unless weights are given.
+   */
+  weight?: number;
+  /**
+   * Spread of the responses behind the score (e.g. the interquartile range,
+   * or score ± one standard deviation), drawn over the score fill as a
+   * translucent band or an error bar; see `style.rangeStyle`. `low` and
+   * `high` must be within the scale, with `low <= score <= high`.
+   */
+  range?: ScoreRange;
+  /**
+   * Score this facet is aiming for, marked by an arc tick across the facet
+   * at the target radius. With `style.showTargetGap` the gap between score
+   * and target is shaded; with `style.targetGapFigures` it is shown on the
+   * figure ring (e.g. "-1.5"). Must be within the scale.
+   */
+  target?: number;
+  /**
+   * Sub-facets splitting this facet's angle (by their `weight`). Each level
+   * of nesting is drawn as its own concentric ring of the wheel, like a
+   * sunburst. A facet without a `score` takes the roll-up of its children's
+   * scores (see `scale.rollup`).
+   */
+  children?: Facet[];
+  /**
+   * Identifier survey responses use for this facet (see
+   * `aggregateResponses`). Defaults to the segment and facet names joined by
+   * `/`, e.g. `'Strategy/Vision'`. Must be unique within the diagram.
+   */
+  key?: string;
+  /**
+   * The facet is unscored because too few people answered (set by
+   * `aggregateResponses` below `minResponses`). Its track is hatched and
+   * carries `style.insufficientText`, so it does not read as a low score.
+   */
+  insufficient?: boolean;
+}
+
+/** Low and high ends of a facet's score range */
+export interface ScoreRange {
+  low: number;
+  high: number;
 }
 
 export interface Segment {
@@ -37,9 +93,36 @@ export interface Segment {
   /**
    * Optional secondary line rendered directly below the section name on the
    * coloured label band (slightly smaller radius, same curve). Printed
-   * verbatim, so the caller supplies the string (e.g. a section average "3.7"
-   * or a percentage "74%"). Only drawn when set; styled via
-   * `style.segmentSubLabel*`.
+   * verbatim (e.g. "74%") apart from statistic tokens such as `'{mean:0.0}'`,
+   * filled from the segment's scores (see `formatStats`). Only drawn when
+   * set; styled via `style.segmentSubLabel*`.
+   */
+  subLabel?: string;
+  /**
+   * Relative angular width of this segment around the wheel. Default 1, so
+   * segments split the circle evenly unless weights are given. Ignored when
+   * `style.segmentSizing` is `'facetCount'`.
+   */
+  weight?: number;
+  /**
+   * Name of the `DiagramConfig.groups` entry this segment belongs to. A
+   * group's segments must be adjacent; ungrouped segments get no group band.
+   */
+  group?: string;
+}
+
+/**
+ * A group of adjacent segments (e.g. a pillar made of several dimensions),
+ * labelled on its own curved band outside the segment labels
+ */
+export interface SegmentGroup {
+  /** Display name, also what `segment.group` refers to */
+  name: string;
+  /** Band fill. Default `'#555555'`. */
+  color?: string;
+  /**
+   * Secondary line below the name, printed verbatim. Overrides the average
+   * shown with `style.groupAverageSubLabels`.
    */
   subLabel?: string;
 }
@@ -51,7 +134,11 @@ export interface CenterConfig {
   radius: number;
   /** Fill color for center hub */
   color: string;
-  /** Optional secondary line of text */
+  /**
+   * Optional secondary line below the hub label, in regular weight at half
+   * its size. Statistic tokens such as `'Overall {mean:0.1}'` are filled from
+   * every facet's score (see `formatStats`).
+   */
   subtitle?: string;
   /** Border/stroke width (0 for no border) */
   borderWidth?: number;
@@ -74,8 +161,91 @@ export interface ScaleConfig {
   max: number;
   /** Number of concentric rings to display */
   rings: number;
-  /** Optional labels for each ring level */
+  /**
+   * Optional names for each ring level, innermost first (e.g. "Initial",
+   * "Managed", ... "Optimising"). Must have one entry per ring. When set, the
+   * score-label layer (`style.showScoreLabels`) shows these names instead of
+   * the numbers; see `style.ringLabelPlacement`.
+   */
   ringLabels?: string[];
+  /**
+   * How scores map to radii (see `ScaleMapping`). `'level'` (default) gives
+   * each level an equal band; `'linear'` starts at zero at `min`; `'area'`
+   * makes wedge area proportional to the score's position on the scale;
+   * `'sqrt'` is a square-root radius scale. Fills, ring radii and score
+   * labels all follow it: with any mapping but `'level'` the rings divide
+   * `min`..`max` into `rings` equal score steps, so set `rings` to
+   * `max - min` for one ring per whole score.
+   */
+  mapping?: ScaleMapping;
+  /**
+   * Diverging scale: score that fills grow from (e.g. 0 on a -5..+5 scale).
+   * Scores above it fill outward from the baseline ring, scores below it
+   * inward, coloured by `style.positiveColor` / `style.negativeColor`, and
+   * the baseline ring is drawn with `style.baselineColor` /
+   * `style.baselineWidth`. Must be within `min`..`max`. Wedge mode only.
+   */
+  baseline?: number;
+  /**
+   * How a facet with `children` but no score of its own gets one:
+   * `'mean'` (default) of its scored children, or `'weightedMean'` by their
+   * `weight`.
+   */
+  rollup?: 'mean' | 'weightedMean';
+}
+
+/**
+ * A named score series drawn as its own layer over the wheel. Series are
+ * painted in array order, so the first one sits at the bottom.
+ */
+export interface ScoreSeries {
+  /** Key used to look up the score in `facet.scores` */
+  key: string;
+  /** Human-readable series name (e.g. "Target") */
+  label?: string;
+  /** Fill/stroke colour. Falls back to the segment's `color` when unset. */
+  color?: string;
+  /**
+   * Opacity of the series layer (0-1). Defaults to `style.facetOpacity`
+   * (`style.polygonFillOpacity` in polygon/smooth mode; 0.5 when hatched).
+   */
+  opacity?: number;
+  /**
+   * How the series is drawn:
+   * - `'filled'` (default): solid wedge fill, like a single-score diagram.
+   * - `'outline'`: wedge outline only, so the layers below stay visible.
+   * - `'hatched'`: diagonal hatch fill with an outline.
+   */
+  style?: 'filled' | 'outline' | 'hatched';
+  /** Outline width for `'outline'` / `'hatched'` series. Default 2. */
+  strokeWidth?: number;
+  /** Outline dash pattern (SVG `stroke-dasharray`, e.g. '6,3'). Unset = solid. */
+  strokeDasharray?: string;
+}
+
+/** One stop on a score colour scale */
+export interface ScoreColorStop {
+  /** Score at which this stop applies (within the scale min-max range) */
+  score: number;
+  /** Colour for this stop. Gradient stops must be hex or `rgb()`/`rgba()`. */
+  color: string;
+}
+
+/**
+ * Colour derived from the score instead of `segment.color`.
+ * - `'threshold'`: stepped bands (e.g. RAG). A score takes the colour of the
+ *   first stop it is below; scores at or above the last stop take `above`.
+ *   `{ stops: [{ score: 2, color: red }, { score: 3.5, color: amber }], above: green }`
+ *   reads "red below 2, amber below 3.5, green otherwise".
+ * - `'gradient'`: continuous ramp interpolated between the stops, clamped at
+ *   both ends.
+ */
+export interface ScoreColorScale {
+  type: 'threshold' | 'gradient';
+  /** Stops in strictly ascending `score` order */
+  stops: ScoreColorStop[];
+  /** [`threshold` only] Colour for scores at or above the last stop. Defaults to the last stop's colour. */
+  above?: string;
 }
 
 export interface StyleConfig {
@@ -87,6 +257,48 @@ export interface StyleConfig {
   ringWidth?: number;
   /** Style of ring circles: 'solid' or 'dashed' */
   ringStyle?: 'solid' | 'dashed';
+  /** [`scale.baseline`] Fill for scores above the baseline. Default: the segment colour. */
+  positiveColor?: string;
+  /** [`scale.baseline`] Fill for scores below the baseline. Default: the segment colour. */
+  negativeColor?: string;
+  /** [`scale.baseline`] Colour of the baseline ring. Default `'#333333'`. */
+  baselineColor?: string;
+  /** [`scale.baseline`] Width of the baseline ring. Default 2. */
+  baselineWidth?: number;
+  /**
+   * How `facet.range` is drawn: `'band'` (default) fills the facet's span
+   * between the low and high radii; `'bar'` draws an error bar, a radial line
+   * at the facet's mid-angle capped by short arcs at both ends.
+   */
+  rangeStyle?: 'band' | 'bar';
+  /** Colour of range bands and bars. Default `'#000000'`. */
+  rangeColor?: string;
+  /** Fill opacity of range bands (0-1). Default 0.25. */
+  rangeOpacity?: number;
+  /** Stroke width of range bars. Default 2. */
+  rangeWidth?: number;
+  /** Colour of `facet.target` ticks. Default `'#222222'`. */
+  targetColor?: string;
+  /** Stroke width of `facet.target` ticks. Default 3. */
+  targetWidth?: number;
+  /** Shade the gap between each facet's score and its target. Default false. */
+  showTargetGap?: boolean;
+  /** [`showTargetGap`] Shading where the score is below target. Default `'#d32f2f'`. */
+  targetGapUnderColor?: string;
+  /** [`showTargetGap`] Shading where the score is above target. Default `'#2e7d32'`. */
+  targetGapOverColor?: string;
+  /** [`showTargetGap`] Opacity of the gap shading (0-1). Default 0.35. */
+  targetGapOpacity?: number;
+  /**
+   * Show each targeted facet's gap (score minus target, e.g. "-1.5" or
+   * "+0.5") on the figure ring instead of `facet.figure`, in the under / over
+   * gap colour. Default false.
+   */
+  targetGapFigures?: boolean;
+  /** Hatching and text colour of facets marked `insufficient`. Default `'#888888'`. */
+  insufficientColor?: string;
+  /** Text along facets marked `insufficient`; empty for none. Default `'n/a'`. */
+  insufficientText?: string;
   /** Show score level labels */
   showScoreLabels?: boolean;
   /** Font size for score labels */
@@ -95,10 +307,50 @@ export interface StyleConfig {
   scoreLabelColor?: string;
   /** Stroke/outline color for score labels */
   scoreLabelStrokeColor?: string;
+  /**
+   * Angle (degrees, same convention as `startAngle`) of the axis the score
+   * labels sit on. Unset = straight up (the original placement).
+   */
+  scoreLabelAngle?: number;
+  /**
+   * How `scale.ringLabels` are shown when score labels are on:
+   * - `'axis'` (default): the names replace the numbers along the label axis.
+   * - `'curved'`: each name follows its ring band on a curved `textPath`,
+   *   centred on the label axis.
+   * - `'key'`: the numbers stay on the axis and a side key maps each number
+   *   to its name.
+   */
+  ringLabelPlacement?: 'axis' | 'curved' | 'key';
   /** Show facet points on arcs */
   showFacetPoints?: boolean;
   /** Style of facet points: 'circle', 'dot', 'none' */
   facetPointStyle?: 'circle' | 'dot' | 'none';
+  /**
+   * How scores are drawn:
+   * - `'wedge'` (default): a filled wedge per facet from the hub to its score.
+   * - `'polygon'`: radar/spider chart — a closed polygon through each facet's
+   *   mid-angle at its score radius, with vertex markers.
+   * - `'smooth'`: as `'polygon'`, but a closed Catmull-Rom curve.
+   * Segment tracks, labels, rings and dividers are drawn the same in every mode.
+   */
+  scoreShape?: 'wedge' | 'polygon' | 'smooth';
+  /** [`polygon`/`smooth`] Fill and stroke colour of the score shape. Default `center.color`. */
+  polygonColor?: string;
+  /** [`polygon`/`smooth`] Fill opacity of the score shape (0-1). Default 0.35. */
+  polygonFillOpacity?: number;
+  /** [`polygon`/`smooth`] Stroke width of the score shape outline. Default 2. */
+  polygonStrokeWidth?: number;
+  /** [`polygon`/`smooth`] Radius of the vertex markers (0 hides them). Default 4. */
+  polygonMarkerRadius?: number;
+  /**
+   * Derive score fill colours from the score (threshold bands or a gradient)
+   * instead of `segment.color`. Unset = segment colours.
+   */
+  scoreColorScale?: ScoreColorScale;
+  /** Also colour facet labels by their score when `scoreColorScale` is set. Default false. */
+  scoreColorLabels?: boolean;
+  /** Also colour facet figures by their score when `scoreColorScale` is set. Default false. */
+  scoreColorFigures?: boolean;
   /** Opacity of facet score fill areas (0-1) */
   facetOpacity?: number;
   /** Opacity of the unscored segment background track (0-1). Default 0.3. */
@@ -194,6 +446,23 @@ export interface StyleConfig {
   segmentSubLabelFontScale?: number;
   /** Where to render segment (dimension) labels: 'outer' = curved arc band outside the wheel; 'inner' = curved arc on top of the wedge near the centre hub */
   segmentLabelPosition?: 'outer' | 'inner';
+  /** [`groups`] Base font size of group names, scaled down to fit like segment names. Default 22. */
+  groupFontSize?: number;
+  /** [`groups`] Width of the dividers at group boundaries. Default twice `segmentDividerWidth`. */
+  groupDividerWidth?: number;
+  /**
+   * [`groups`] Show each group's average score (e.g. "3.4") as its
+   * sub-label, unless `group.subLabel` is set. Default false.
+   */
+  groupAverageSubLabels?: boolean;
+  /**
+   * How segment angular widths are derived:
+   * - `'weight'` (or unset): proportional to `segment.weight` (default 1),
+   *   i.e. an even split unless weights are set.
+   * - `'facetCount'`: proportional to the sum of the segment's facet weights,
+   *   so with unweighted facets every facet gets the same width wheel-wide.
+   */
+  segmentSizing?: 'weight' | 'facetCount';
   /** Draw small directional arrows on each segment boundary indicating flow. Undefined = no arrows. */
   flowDirection?: 'clockwise' | 'counterclockwise';
   /** When `flowDirection` is set, also draw the arrow that wraps from the last segment back to the first. Default false. */
@@ -202,6 +471,54 @@ export interface StyleConfig {
   flowArrowColor?: string;
   /** Size (length) of flow arrows in pixels. Default 14. */
   flowArrowSize?: number;
+  /**
+   * Interactive output for viewing in a browser:
+   * - `'titles'`: invisible hover targets over every facet wedge and segment
+   *   label band, each with a `<title>` (name, score, figure, description)
+   *   and a `<desc>` (description), so native tooltips and screen readers
+   *   pick them up.
+   * - `'hover'`: as `'titles'`, plus a hover highlight (inline CSS) and a
+   *   styled tooltip driven by a small inline script.
+   * Unset = static output.
+   */
+  interactive?: 'titles' | 'hover';
+  /** [`hover` only] Fill used to highlight the hovered wedge (at 25 % opacity). Default '#ffffff'. */
+  hoverHighlightColor?: string;
+  /** [`hover` only] Tooltip background colour. Default 'rgba(33,33,33,0.92)'. */
+  tooltipBackground?: string;
+  /** [`hover` only] Tooltip text colour. Default '#ffffff'. */
+  tooltipColor?: string;
+  /**
+   * Accessibility layer for assistive technology:
+   * - `'summary'`: root `role="img"` labelled by a `<title>` (`config.title`
+   *   or the hub label) and a `<desc>` holding an auto-generated summary
+   *   ("8 dimensions, overall average 3.2, highest: …, lowest: …").
+   * - `'structured'`: as `'summary'`, but the root is a `role="group"`, the
+   *   visual layers are `aria-hidden` and a list of labelled segments, each
+   *   with a list of labelled facets, lets screen readers walk the data.
+   * Unset = no ARIA output.
+   */
+  accessibility?: 'summary' | 'structured';
+  /**
+   * Namespace for the SVG's ids (curved-label paths, hatch patterns, the
+   * accessibility title/desc) and the root `<svg>` id its CSS is scoped to,
+   * so several diagrams can be inlined in one page. Letters, digits, `-` and
+   * `_`, starting with a letter. Defaults to `rd-` plus a hash of the config,
+   * the same on every render; set it to tell apart identical diagrams
+   * inlined in one page.
+   */
+  idPrefix?: string;
+  /**
+   * Decimal places for numbers in the SVG: coordinates, radii, path data,
+   * transforms, stroke widths and font sizes. Opacities are not rounded.
+   * Integer 0-10; unset = full precision.
+   */
+  precision?: number;
+  /**
+   * Smaller markup: no whitespace between tags, minified CSS, repeated inline
+   * styles merged into classes and empty groups omitted. Renders identically.
+   */
+  compact?: boolean;
 }
 
 export interface DiagramConfig {
@@ -217,6 +534,20 @@ export interface DiagramConfig {
   size: number;
   /** Starting angle offset in degrees (-90 = top, 0 = right) */
   startAngle: number;
+  /**
+   * Optional score series (e.g. current / target / baseline). When set, each
+   * facet's `scores[series.key]` is drawn as its own layer instead of the
+   * single `facet.score` fill.
+   */
+  series?: ScoreSeries[];
+  /**
+   * Optional groups of segments, one level above them. Each is drawn as an
+   * outer curved label band spanning its member segments (see `segment.group`),
+   * with heavier dividers at group boundaries.
+   */
+  groups?: SegmentGroup[];
+  /** Accessible name of the diagram (`style.accessibility`). Defaults to `center.label`. */
+  title?: string;
 }
 
 /** Default style configuration */
@@ -261,14 +592,189 @@ export interface ValidationResult {
   errors: string[];
 }
 
+/** Options for `validateConfig` */
+export interface ValidateOptions {
+  /**
+   * Accept only allowlisted values for colours, CSS lengths, font families,
+   * dash arrays and font weights (see `isStrictCssValue`), for configs from
+   * untrusted sources. Without it those values are only checked for
+   * characters that could break out of their CSS declaration.
+   */
+  strict?: boolean;
+}
+
+/** Style fields written into SVG attributes or CSS, by the kind of CSS value */
+const STYLE_CSS_FIELDS: Array<[keyof StyleConfig, CssValueKind]> = [
+  ['ringColor', 'color'],
+  ['positiveColor', 'color'],
+  ['negativeColor', 'color'],
+  ['baselineColor', 'color'],
+  ['rangeColor', 'color'],
+  ['targetColor', 'color'],
+  ['targetGapUnderColor', 'color'],
+  ['targetGapOverColor', 'color'],
+  ['insufficientColor', 'color'],
+  ['scoreLabelColor', 'color'],
+  ['scoreLabelStrokeColor', 'color'],
+  ['polygonColor', 'color'],
+  ['facetDividerColor', 'color'],
+  ['backgroundColor', 'color'],
+  ['segmentDividerColor', 'color'],
+  ['hubFontColor', 'color'],
+  ['facetFontColor', 'color'],
+  ['facetFigureColor', 'color'],
+  ['segmentSubLabelColor', 'color'],
+  ['flowArrowColor', 'color'],
+  ['hoverHighlightColor', 'color'],
+  ['tooltipBackground', 'color'],
+  ['tooltipColor', 'color'],
+  ['fontFamily', 'fontFamily'],
+  ['segmentFontFamily', 'fontFamily'],
+  ['segmentLetterSpacing', 'length'],
+  ['facetLabelLetterSpacing', 'length'],
+  ['facetLabelWeight', 'fontWeight'],
+];
+
+/** Numeric style fields, which reach the markup through attributes, CSS and geometry */
+const STYLE_NUMBER_FIELDS: Array<keyof StyleConfig> = [
+  'ringWidth',
+  'baselineWidth',
+  'rangeOpacity',
+  'rangeWidth',
+  'targetWidth',
+  'targetGapOpacity',
+  'scoreLabelFontSize',
+  'scoreLabelAngle',
+  'polygonFillOpacity',
+  'polygonStrokeWidth',
+  'polygonMarkerRadius',
+  'facetOpacity',
+  'trackOpacity',
+  'facetDividerWidth',
+  'segmentDividerWidth',
+  'hubFontSize',
+  'segmentFontSize',
+  'facetFontSize',
+  'facetFigureFontSize',
+  'facetFigureGap',
+  'segmentSubLabelFontScale',
+  'groupFontSize',
+  'groupDividerWidth',
+  'flowArrowSize',
+];
+
+const SCALE_MAPPINGS: ScaleMapping[] = ['level', 'linear', 'area', 'sqrt'];
+const SCALE_ROLLUPS: Array<NonNullable<ScaleConfig['rollup']>> = ['mean', 'weightedMean'];
+
+const CSS_KIND_NAMES: Record<CssValueKind, string> = {
+  color: 'colour',
+  length: 'length',
+  fontFamily: 'font family',
+  dashArray: 'dash array',
+  fontWeight: 'font weight',
+};
+
+/**
+ * Every facet of a segment with its path in validation messages
+ * (`segment[0].facet[1]`, `segment[0].facet[1].children[0]`), sub-facets
+ * straight after their parent.
+ */
+function facetPaths(segment: Segment, segIndex: number): Array<[Facet, string]> {
+  const paths: Array<[Facet, string]> = [];
+  const visit = (facets: Facet[] | undefined, prefix: string) => {
+    facets?.forEach((facet, i) => {
+      const path = `${prefix}[${i}]`;
+      paths.push([facet, path]);
+      visit(facet.children, `${path}.children`);
+    });
+  };
+  visit(segment.facets, `segment[${segIndex}].facet`);
+  return paths;
+}
+
 /**
  * Validate a diagram configuration
  * @param config The config to validate
+ * @param options Strict CSS value checking
  * @returns ValidationResult with valid flag and any error messages
  */
-export function validateConfig(config: DiagramConfig): ValidationResult {
+export function validateConfig(config: DiagramConfig, options: ValidateOptions = {}): ValidationResult {
   const errors: string[] = [];
 
+  // Values that end up in attributes or CSS: numbers must be numbers, and
+  // strings must not be able to escape their CSS declaration
+  const checkNumber = (path: string, value: unknown) => {
+    if (value !== undefined && value !== null && (typeof value !== 'number' || !Number.isFinite(value))) {
+      errors.push(`${path} must be a finite number`);
+    }
+  };
+  const checkCss = (path: string, value: unknown, kind: CssValueKind) => {
+    if (value === undefined || value === null) return;
+    const numeric = typeof value === 'number' && (kind === 'length' || kind === 'fontWeight');
+    if (typeof value !== 'string' && !numeric) {
+      errors.push(`${path} must be a string`);
+    } else if (typeof value === 'string' && !isSafeCssValue(value)) {
+      errors.push(`${path} "${value}" contains characters that are not allowed in a CSS value`);
+    } else if (options.strict && !isStrictCssValue(value as string | number, kind)) {
+      errors.push(`${path} "${value}" is not an allowed CSS ${CSS_KIND_NAMES[kind]}`);
+    }
+  };
+  const checkOneOf = (path: string, value: unknown, allowed: readonly string[]) => {
+    if (value !== undefined && value !== null && !allowed.includes(value as string)) {
+      errors.push(`${path} "${value}" must be one of ${allowed.map((v) => `'${v}'`).join(', ')}`);
+    }
+  };
+
+  checkNumber('size', config.size);
+  checkNumber('startAngle', config.startAngle);
+  if (config.center) {
+    checkNumber('center.radius', config.center.radius);
+    checkNumber('center.borderWidth', config.center.borderWidth);
+    checkNumber('center.fontSize', config.center.fontSize);
+    checkCss('center.color', config.center.color, 'color');
+    checkCss('center.borderColor', config.center.borderColor, 'color');
+    checkCss('center.fontColor', config.center.fontColor, 'color');
+    checkCss('center.fontFamily', config.center.fontFamily, 'fontFamily');
+  }
+  if (config.scale) {
+    checkNumber('scale.min', config.scale.min);
+    checkNumber('scale.max', config.scale.max);
+    checkNumber('scale.rings', config.scale.rings);
+    checkNumber('scale.baseline', config.scale.baseline);
+    checkOneOf('scale.mapping', config.scale.mapping, SCALE_MAPPINGS);
+    checkOneOf('scale.rollup', config.scale.rollup, SCALE_ROLLUPS);
+  }
+  if (config.style) {
+    STYLE_CSS_FIELDS.forEach(([key, kind]) => checkCss(`style.${key}`, config.style[key], kind));
+    STYLE_NUMBER_FIELDS.forEach((key) => checkNumber(`style.${key}`, config.style[key]));
+  }
+  config.series?.forEach((series, i) => {
+    checkCss(`series[${i}].color`, series.color, 'color');
+    checkCss(`series[${i}].strokeDasharray`, series.strokeDasharray, 'dashArray');
+    checkNumber(`series[${i}].opacity`, series.opacity);
+    checkNumber(`series[${i}].strokeWidth`, series.strokeWidth);
+  });
+  config.style?.scoreColorScale?.stops?.forEach((stop, i) => {
+    checkCss(`style.scoreColorScale.stops[${i}].color`, stop.color, 'color');
+  });
+  config.groups?.forEach((group, i) => checkCss(`groups[${i}].color`, group.color, 'color'));
+  checkCss('style.scoreColorScale.above', config.style?.scoreColorScale?.above, 'color');
+  config.segments?.forEach((segment, i) => {
+    checkCss(`segment[${i}].color`, segment.color, 'color');
+    checkCss(`segment[${i}].labelColor`, segment.labelColor, 'color');
+    checkNumber(`segment[${i}].weight`, segment.weight);
+    facetPaths(segment, i).forEach(([facet, path]) => {
+      checkNumber(`${path}.score`, facet.score);
+      checkNumber(`${path}.weight`, facet.weight);
+      checkNumber(`${path}.range.low`, facet.range?.low);
+      checkNumber(`${path}.range.high`, facet.range?.high);
+      checkNumber(`${path}.target`, facet.target);
+      Object.entries(facet.scores ?? {}).forEach(([key, value]) => {
+        checkNumber(`${path}.scores.${key}`, value);
+      });
+    });
+  });
+
   // Size validation
   if (!config.size || config.size <= 0) {
     errors.push('size must be greater than 0');
@@ -292,26 +798,158 @@ export function validateConfig(config: DiagramConfig): ValidationResult {
     }
     if (!config.scale.rings || config.scale.rings <= 0) {
       errors.push('scale.rings must be greater than 0');
+    } else if (config.scale.ringLabels && config.scale.ringLabels.length !== config.scale.rings) {
+      errors.push(
+        `scale.ringLabels has ${config.scale.ringLabels.length} entries but scale.rings is ${config.scale.rings}`
+      );
+    }
+    const { baseline } = config.scale;
+    if (baseline !== undefined && (baseline < config.scale.min || baseline > config.scale.max)) {
+      errors.push(`scale.baseline (${baseline}) must be between ${config.scale.min} and ${config.scale.max}`);
+    }
+  }
+
+  // Series validation
+  const seriesKeys = new Set<string>();
+  (config.series ?? []).forEach((series, seriesIndex) => {
+    if (!series.key) {
+      errors.push(`series[${seriesIndex}].key is required`);
+    } else if (seriesKeys.has(series.key)) {
+      errors.push(`series[${seriesIndex}].key "${series.key}" is duplicated`);
+    } else {
+      seriesKeys.add(series.key);
+    }
+    if (series.opacity !== undefined && (series.opacity < 0 || series.opacity > 1)) {
+      errors.push(`series[${seriesIndex}].opacity (${series.opacity}) must be between 0 and 1`);
+    }
+  });
+
+  // Group validation: known names, each group's segments adjacent
+  const groupNames = new Set<string>();
+  (config.groups ?? []).forEach((group, groupIndex) => {
+    if (!group.name) {
+      errors.push(`groups[${groupIndex}].name is required`);
+    } else if (groupNames.has(group.name)) {
+      errors.push(`groups[${groupIndex}].name "${group.name}" is duplicated`);
+    } else {
+      groupNames.add(group.name);
+    }
+  });
+  (config.segments ?? []).forEach((segment, segIndex) => {
+    if (segment.group !== undefined && !groupNames.has(segment.group)) {
+      errors.push(`segment[${segIndex}].group "${segment.group}" does not match any group name`);
+    }
+  });
+  groupNames.forEach((name) => {
+    const members = (config.segments ?? []).flatMap((s, i) => (s.group === name ? [i] : []));
+    if (members.length === 0) {
+      errors.push(`group "${name}" has no segments`);
+    } else if (members[members.length - 1] - members[0] !== members.length - 1) {
+      errors.push(`group "${name}" segments must be adjacent`);
+    }
+  });
+
+  // Colour scale validation
+  const colorScale = config.style?.scoreColorScale;
+  if (colorScale) {
+    const stops = colorScale.stops ?? [];
+    if (stops.length < (colorScale.type === 'gradient' ? 2 : 1)) {
+      errors.push(
+        `style.scoreColorScale needs at least ${colorScale.type === 'gradient' ? 2 : 1} stop(s)`
+      );
     }
+    stops.forEach((stop, i) => {
+      if (i > 0 && !(stop.score > stops[i - 1].score)) {
+        errors.push(`style.scoreColorScale.stops must be in strictly ascending score order (stop ${i})`);
+      }
+      if (config.scale && (stop.score < config.scale.min || stop.score > config.scale.max)) {
+        errors.push(
+          `style.scoreColorScale.stops[${i}].score (${stop.score}) must be between ${config.scale.min} and ${config.scale.max}`
+        );
+      }
+      if (colorScale.type === 'gradient' && !parseColor(stop.color)) {
+        errors.push(`style.scoreColorScale.stops[${i}].color "${stop.color}" must be a hex or rgb() colour to interpolate`);
+      }
+    });
   }
 
+  const idPrefix = config.style?.idPrefix;
+  if (idPrefix !== undefined && !/^[A-Za-z][\w-]*$/.test(idPrefix)) {
+    errors.push(`style.idPrefix "${idPrefix}" must start with a letter and contain only letters, digits, "-" and "_"`);
+  }
+
+  const precision = config.style?.precision;
+  if (precision !== undefined && !(Number.isInteger(precision) && precision >= 0 && precision <= 10)) {
+    errors.push(`style.precision (${precision}) must be an integer between 0 and 10`);
+  }
+
+  // Facet keys, used to match survey responses
+  const facetKeys = new Set<string>();
+  (config.segments ?? []).forEach((segment, segIndex) => {
+    facetPaths(segment, segIndex).forEach(([facet, path]) => {
+      if (facet.key === undefined || facet.key === null) return;
+      if (facetKeys.has(facet.key)) errors.push(`${path}.key "${facet.key}" is duplicated`);
+      facetKeys.add(facet.key);
+    });
+  });
+
   // Segments validation
   if (!config.segments || config.segments.length === 0) {
     errors.push('segments array must contain at least one segment');
   } else {
     config.segments.forEach((segment, segIndex) => {
+      if (segment.weight !== undefined && !(segment.weight > 0)) {
+        errors.push(`segment[${segIndex}].weight must be greater than 0`);
+      }
+      facetPaths(segment, segIndex).forEach(([facet, path]) => {
+        if (facet.weight !== undefined && !(facet.weight > 0)) {
+          errors.push(`${path}.weight must be greater than 0`);
+        }
+      });
       if (!segment.facets || segment.facets.length === 0) {
         errors.push(`segment[${segIndex}] must contain at least one facet`);
       } else if (config.scale) {
         // Only validate scores if scale is defined
-        segment.facets.forEach((facet, facetIndex) => {
+        facetPaths(segment, segIndex).forEach(([facet, path]) => {
           if (facet.score !== undefined && facet.score !== null) {
             if (facet.score < config.scale.min || facet.score > config.scale.max) {
               errors.push(
-                `segment[${segIndex}].facet[${facetIndex}].score (${facet.score}) must be between ${config.scale.min} and ${config.scale.max}`
+                `${path}.score (${facet.score}) must be between ${config.scale.min} and ${config.scale.max}`
               );
             }
           }
+          if (facet.target !== undefined && facet.target !== null) {
+            if (facet.target < config.scale.min || facet.target > config.scale.max) {
+              errors.push(
+                `${path}.target (${facet.target}) must be between ${config.scale.min} and ${config.scale.max}`
+              );
+            }
+          }
+          const range = facet.range;
+          if (range) {
+            const { low, high } = range;
+            (['low', 'high'] as const).forEach((end) => {
+              if (range[end] < config.scale.min || range[end] > config.scale.max) {
+                errors.push(`${path}.range.${end} (${range[end]}) must be between ${config.scale.min} and ${config.scale.max}`);
+              }
+            });
+            if (low > high) {
+              errors.push(`${path}.range.low (${low}) must not be greater than range.high (${high})`);
+            } else if (facet.score !== undefined && facet.score !== null && (facet.score < low || facet.score > high)) {
+              errors.push(`${path}.score (${facet.score}) must be within its range (${low} to ${high})`);
+            }
+          }
+          if (facet.scores) {
+            Object.entries(facet.scores).forEach(([key, value]) => {
+              if (!seriesKeys.has(key)) {
+                errors.push(`${path}.scores.${key} does not match any series key`);
+              } else if (value < config.scale.min || value > config.scale.max) {
+                errors.push(
+                  `${path}.scores.${key} (${value}) must be between ${config.scale.min} and ${config.scale.max}`
+                );
+              }
+            });
+          }
         });
       }
     });
@@ -352,5 +990,8 @@ export function createConfig(partial: Partial<DiagramConfig>): DiagramConfig {
     style: { ...DEFAULT_STYLE, ...partial.style },
     size: partial.size || 800,
     startAngle: partial.startAngle ?? -90, // Default to top
+    series: partial.series,
+    groups: partial.groups,
+    title: partial.title,
   };
 }
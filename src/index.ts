@@ -14,11 +14,17 @@
 export type {
   DiagramConfig,
   Segment,
+  SegmentGroup,
   Facet,
   CenterConfig,
   ScaleConfig,
   StyleConfig,
+  ScoreSeries,
+  ScoreColorScale,
+  ScoreColorStop,
+  ScoreRange,
   ValidationResult,
+  ValidateOptions,
 } from './core/types.js';
 
 export {
@@ -29,17 +35,135 @@ export {
 } from './core/types.js';
 
 // Geometry utilities
+export type { Point, AngleSpan, AngleTreeNode, NestedAngleSpan, CubicSegment, ScaleMapping } from './core/geometry.js';
+
 export {
   polarToCartesian,
+  cartesianToPolar,
   describeArc,
   segmentPath,
   facetScorePath,
+  polygonPath,
+  smoothClosedPath,
+  smoothClosedCurve,
   segmentAngle,
+  segmentAngles,
   facetAngles,
+  nestedAngles,
   scoreToRadius,
+  radiusToScore,
   ringRadii,
   labelOrientation,
 } from './core/geometry.js';
 
+// Layout model
+export type {
+  DiagramLayout,
+  SegmentSpan,
+  Wedge,
+  LineMark,
+  RingMark,
+  TrackWedge,
+  ScoreWedge,
+  ScoreLayerMode,
+  ScoreWedgeLayer,
+  ScoreMarker,
+  ScoreShape,
+  ScoreLayout,
+  FacetPoint,
+  FacetDividerGroup,
+  TextLines,
+  HubLayout,
+  FacetLabel,
+  FacetLabelLayout,
+  FacetFigure,
+  FigureLayout,
+  SegmentBand,
+  SegmentLabelRow,
+  SegmentLabelLayout,
+  GroupBand,
+  GroupLabelLayout,
+  RingLayout,
+  RangeMark,
+  RangeLayout,
+  TargetMark,
+  TargetGapWedge,
+  TargetLayout,
+  InsufficientMark,
+  InsufficientLayout,
+  ScoreLabel,
+  ScoreLabelLayout,
+  FlowArrow,
+  FlowLayout,
+} from './core/layout.js';
+
+export { computeLayout } from './core/layout.js';
+
+// Hit-testing
+export type { HitRegion, HitResult, HitTestOptions } from './core/hittest.js';
+
+export { hitTest } from './core/hittest.js';
+
+// Colour scales
+export type { RGBA } from './core/color.js';
+
+export {
+  parseColor,
+  formatColor,
+  interpolateColor,
+  scoreColor,
+} from './core/color.js';
+
+// Escaping and CSS value checks for untrusted configs
+export type { CssValueKind } from './core/css.js';
+
+export { isSafeCssValue, isStrictCssValue } from './core/css.js';
+export { escapeXml } from './core/escape.js';
+
+// Text alternatives
+export {
+  primaryScore,
+  rolledUpScore,
+  targetGap,
+  formatGap,
+  diagramSummary,
+  segmentSummary,
+  facetSummary,
+  groupAverage,
+} from './core/summary.js';
+
+// Score statistics and label templates
+export type { ScoreStats, DiagramStats, ScoreStatName } from './core/aggregate.js';
+
+export {
+  scoreStats,
+  segmentStats,
+  diagramStats,
+  formatStats,
+  segmentSubLabel,
+  facetFigure,
+  centerSubtitle,
+} from './core/aggregate.js';
+
+// CSV import and export
+export type { CsvColumns, CsvOptions, CsvImportOptions, CsvImportResult, CsvRow } from './core/csv.js';
+
+export { DEFAULT_CSV_COLUMNS, parseCsv, configFromCsv, configToCsv } from './core/csv.js';
+
+// Survey response aggregation
+export type {
+  SurveyResponse,
+  ResponseStatistic,
+  AggregateResponsesOptions,
+  ResponseQuartiles,
+  FacetResponses,
+  ResponseAggregation,
+} from './core/responses.js';
+
+export { aggregateResponses } from './core/responses.js';
+
 // Renderers
 export { SVGRenderer, renderDiagram } from './renderers/svg.js';
+export type { CanvasRenderOptions } from './renderers/canvas.js';
+export { CanvasRenderer, renderDiagramToCanvas } from './renderers/canvas.js';
+export { renderDataTable } from './renderers/table.js';
@@ -0,0 +1,18 @@
+/**
+ * Radial Diagram Generator — Node.js entry point
+ * Everything from the main entry plus the resvg-based PNG renderer.
+ *
+ * @license MIT
+ * @copyright 2026 CGA Management Ltd
+ * @see https://www.cgamanagement.co.uk/category/tools
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+export * from './index.js';
+
+// PNG renderer (requires @resvg/resvg-js)
+export type { PngOptions, PngFontOptions } from './renderers/png.js';
+
+export { renderToPng } from './renderers/png.js';
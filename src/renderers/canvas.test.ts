@@ -0,0 +1,201 @@
+import { describe, it, expect } from 'vitest';
+import { CanvasRenderer, renderDiagramToCanvas } from './canvas.js';
+import { DEFAULT_STYLE, DEFAULT_SCALE, DiagramConfig } from '../core/types.js';
+
+const validConfig: DiagramConfig = {
+  size: 800,
+  startAngle: -90,
+  center: {
+    label: 'Test Hub',
+    radius: 100,
+    color: '#702082',
+  },
+  scale: { ...DEFAULT_SCALE },
+  segments: [
+    {
+      name: 'Segment One',
+      color: '#E6A817',
+      facets: [
+        { name: 'Facet A', score: 3, figure: '60%' },
+        { name: 'Facet B', score: 4 },
+      ],
+    },
+    {
+      name: 'Segment Two',
+      color: '#C41E3A',
+      facets: [{ name: 'Facet C', score: 2 }],
+    },
+  ],
+  style: { ...DEFAULT_STYLE, showScoreLabels: true },
+};
+
+interface Call {
+  method: string;
+  args: unknown[];
+}
+
+/**
+ * Headless stand-in for a CanvasRenderingContext2D: records every method call
+ * and property assignment, keeps a save/restore stack of the drawing state,
+ * and measures text at 10px per glyph.
+ */
+function recordingContext(width = 940): { ctx: CanvasRenderingContext2D; calls: Call[] } {
+  const calls: Call[] = [];
+  const stack: Array<Record<string | symbol, unknown>> = [];
+  const state: Record<string | symbol, unknown> = {
+    canvas: { width, height: width },
+    globalAlpha: 1,
+    measureText: (text: string) => ({ width: text.length * 10 }),
+  };
+  const ctx = new Proxy(state, {
+    get(target, prop) {
+      if (prop in target) return target[prop];
+      return (...args: unknown[]) => {
+        calls.push({ method: String(prop), args });
+        if (prop === 'save') stack.push({ ...target });
+        if (prop === 'restore') Object.assign(target, stack.pop());
+      };
+    },
+    set(target, prop, value) {
+      target[prop] = value;
+      calls.push({ method: `=${String(prop)}`, args: [value] });
+      return true;
+    },
+  });
+  return { ctx: ctx as unknown as CanvasRenderingContext2D, calls };
+}
+
+/** Texts passed to fillText, in paint order. */
+const painted = (calls: Call[]) => calls.filter((c) => c.method === 'fillText').map((c) => c.args[0] as string);
+
+describe('CanvasRenderer', () => {
+  it('throws on invalid config', () => {
+    expect(() => new CanvasRenderer({ ...validConfig, size: 0 })).toThrow('Invalid diagram configuration');
+  });
+
+  it('validates in strict mode when asked', () => {
+    const brand = { ...validConfig, center: { ...validConfig.center, color: 'var(--brand)' } };
+    expect(() => new CanvasRenderer(brand)).not.toThrow();
+    expect(() => new CanvasRenderer(brand, { strict: true })).toThrow('is not an allowed CSS colour');
+    expect(() => renderDiagramToCanvas(brand, recordingContext(470).ctx, { strict: true })).toThrow('is not an allowed CSS colour');
+  });
+
+  it('maps the padded viewBox onto the canvas width', () => {
+    const { ctx, calls } = recordingContext(470);
+    new CanvasRenderer(validConfig).render(ctx);
+    expect(calls[1]).toEqual({ method: 'scale', args: [0.5, 0.5] });
+    expect(calls[2]).toEqual({ method: 'translate', args: [70, 70] });
+  });
+
+  it('balances every save with a restore', () => {
+    const { ctx, calls } = recordingContext();
+    renderDiagramToCanvas(validConfig, ctx, { width: 800 });
+    const saves = calls.filter((c) => c.method === 'save').length;
+    expect(saves).toBeGreaterThan(0);
+    expect(calls.filter((c) => c.method === 'restore').length).toBe(saves);
+  });
+
+  it('paints layers in the SVG order', () => {
+    const { ctx, calls } = recordingContext();
+    new CanvasRenderer(validConfig).render(ctx);
+    const texts = painted(calls);
+    const at = (text: string) => texts.indexOf(text);
+    // hub label → facet labels → figures → curved segment labels → score labels
+    expect(at('Test Hub')).toBeLessThan(at('Facet A'));
+    expect(at('Facet C')).toBeLessThan(at('60%'));
+    expect(at('60%')).toBeLessThan(at('S'));
+    expect(texts.lastIndexOf('T')).toBeLessThan(at('1'));
+    expect(texts.slice(-5)).toEqual(['1', '2', '3', '4', '5']);
+  });
+
+  it('paints segment names glyph by glyph along their arc', () => {
+    const { ctx, calls } = recordingContext();
+    new CanvasRenderer(validConfig).render(ctx);
+    const texts = painted(calls);
+    const start = texts.indexOf('S');
+    expect(texts.slice(start, start + 'Segment One'.length).join('')).toBe('Segment One');
+  });
+
+  it('draws a filled and outlined triangle per flow arrow, on top', () => {
+    const { ctx, calls } = recordingContext();
+    const config = { ...validConfig, style: { ...validConfig.style, flowDirection: 'clockwise' as const } };
+    new CanvasRenderer(config).render(ctx);
+    const lastText = calls.map((c) => c.method).lastIndexOf('fillText');
+    const arrows = calls.slice(lastText + 1).map((c) => (c.method === '=fillStyle' ? `fill ${c.args[0]}` : c.method));
+    // One boundary between two segments (no close loop): fill in the source colour, then the slanted outline
+    expect(arrows.filter((m) => m === 'fill')).toHaveLength(1);
+    expect(arrows).toContain('fill #E6A817');
+    expect(arrows.slice(-7)).toEqual(['beginPath', 'moveTo', 'lineTo', 'lineTo', 'stroke', 'restore', 'restore']);
+  });
+
+  it('paints score fills in the segment colour at the facet opacity', () => {
+    const { ctx, calls } = recordingContext();
+    new CanvasRenderer({ ...validConfig, style: { ...validConfig.style, facetOpacity: 0.8 } }).render(ctx);
+    const fill = calls.findIndex((c, i) => c.method === '=globalAlpha' && c.args[0] === 0.8 && calls[i + 1]?.args[0] === '#E6A817');
+    expect(fill).toBeGreaterThan(-1);
+  });
+
+  it('strokes the baseline ring of a diverging scale', () => {
+    const { ctx, calls } = recordingContext();
+    const config = { ...validConfig, scale: { ...DEFAULT_SCALE, baseline: 3 }, style: { ...validConfig.style, baselineColor: '#111111' } };
+    new CanvasRenderer(config).render(ctx);
+    const stroke = calls.findIndex((c, i) => c.method === '=strokeStyle' && c.args[0] === '#111111' && calls[i + 1]?.args[0] === 2);
+    expect(stroke).toBeGreaterThan(-1);
+    expect(calls.slice(stroke - 2, stroke).map((c) => c.method)).toEqual(['beginPath', 'arc']);
+  });
+
+  it('paints facet ranges as bands or capped bars', () => {
+    const segments = [{ ...validConfig.segments[0], facets: [{ name: 'A', score: 3, range: { low: 2, high: 4 } }] }];
+    const band = recordingContext();
+    new CanvasRenderer({ ...validConfig, segments, style: { ...validConfig.style, rangeColor: '#123456' } }).render(band.ctx);
+    const fill = band.calls.findIndex((c, i) => c.method === '=globalAlpha' && c.args[0] === 0.25 && band.calls[i + 1]?.args[0] === '#123456');
+    expect(fill).toBeGreaterThan(-1);
+
+    const bar = recordingContext();
+    new CanvasRenderer({ ...validConfig, segments, style: { ...validConfig.style, rangeStyle: 'bar', rangeWidth: 3 } }).render(bar.ctx);
+    const round = bar.calls.findIndex((c) => c.method === '=lineCap' && c.args[0] === 'round');
+    expect(bar.calls.slice(round + 1, round + 7).map((c) => c.method)).toEqual(['beginPath', 'arc', 'moveTo', 'arc', 'moveTo', 'lineTo']);
+  });
+
+  it('paints the group band and its labels', () => {
+    const { ctx, calls } = recordingContext();
+    const config = {
+      ...validConfig,
+      groups: [{ name: 'Pillar', color: '#123456' }],
+      segments: validConfig.segments.map((s) => ({ ...s, group: 'Pillar' })),
+    };
+    new CanvasRenderer(config).render(ctx);
+    expect(calls.some((c) => c.method === '=fillStyle' && c.args[0] === '#123456')).toBe(true);
+    expect(painted(calls).join('')).toContain('Pillar');
+  });
+
+  it('paints target gaps and strokes target ticks', () => {
+    const { ctx, calls } = recordingContext();
+    const segments = [{ ...validConfig.segments[0], facets: [{ name: 'A', score: 3, target: 4 }] }];
+    const style = { ...validConfig.style, showTargetGap: true, targetColor: '#123456' };
+    new CanvasRenderer({ ...validConfig, segments, style }).render(ctx);
+    const gap = calls.findIndex((c, i) => c.method === '=globalAlpha' && c.args[0] === 0.35 && calls[i + 1]?.args[0] === '#d32f2f');
+    const tick = calls.findIndex((c, i) => c.method === '=strokeStyle' && c.args[0] === '#123456' && calls[i + 1]?.args[0] === 3);
+    expect(gap).toBeGreaterThan(-1);
+    expect(tick).toBeGreaterThan(gap);
+    expect(calls.slice(tick - 2, tick).map((c) => c.method)).toEqual(['beginPath', 'arc']);
+  });
+
+  it('hatches and labels insufficient facets before the score fills', () => {
+    const { ctx, calls } = recordingContext();
+    const segments = [{ ...validConfig.segments[0], facets: [{ name: 'A', insufficient: true }, { name: 'B', score: 3 }] }];
+    new CanvasRenderer({ ...validConfig, segments, style: { ...validConfig.style, insufficientColor: '#123456' } }).render(ctx);
+    const clip = calls.findIndex((c) => c.method === 'clip');
+    expect(calls.slice(clip, clip + 3).map((c) => c.method)).toEqual(['clip', '=strokeStyle', '=lineWidth']);
+    expect(calls[clip + 1].args[0]).toBe('#123456');
+    expect(painted(calls)).toContain('n/a');
+    expect(painted(calls).indexOf('n/a')).toBeLessThan(painted(calls).indexOf('B'));
+  });
+
+    it('paints the hub subtitle after the label', () => {
+    const { ctx, calls } = recordingContext();
+    new CanvasRenderer({ ...validConfig, center: { ...validConfig.center, subtitle: '{count} scored' } }).render(ctx);
+    const texts = painted(calls);
+    expect(texts.indexOf(validConfig.center.label)).toBe(texts.findIndex((t) => /^\d+ scored$/.test(t)) - 1);
+  });
+});
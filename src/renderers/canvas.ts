@@ -0,0 +1,599 @@
+/**
+ * Canvas 2D Renderer for Radial Diagrams
+ *
+ * @license MIT
+ * @copyright 2026 CGA Management Ltd
+ * @see https://www.cgamanagement.co.uk/category/tools
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import type { DiagramConfig, ValidateOptions } from '../core/types.js';
+import { DEFAULT_STYLE } from '../core/types.js';
+import { polarToCartesian, smoothClosedCurve } from '../core/geometry.js';
+import type { Point } from '../core/geometry.js';
+import { computeLayout } from '../core/layout.js';
+import type { DiagramLayout, Wedge, LineMark, ScoreWedgeLayer, ScoreShape, SegmentLabelLayout, GroupLabelLayout } from '../core/layout.js';
+
+/** Options for `CanvasRenderer.render` */
+export interface CanvasRenderOptions {
+  /**
+   * Width (= height) of the diagram in canvas pixels, drawn from the canvas
+   * origin. Defaults to `ctx.canvas.width`, or `config.size` when the context
+   * has no canvas. As in the SVG, this includes the label padding.
+   */
+  width?: number;
+}
+
+type TextAlign = 'start' | 'end' | 'middle';
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Paints the layout from `computeLayout` onto a `CanvasRenderingContext2D`
+ * with the same layers, in the same order, as `SVGRenderer`, so both outputs
+ * match; interactive and accessibility output (`style.interactive`,
+ * `style.accessibility`) are SVG-only. The canvas is not cleared first.
+ */
+export class CanvasRenderer {
+  private layout: DiagramLayout;
+  private cx: number;
+  private cy: number;
+
+  constructor(config: DiagramConfig, options?: ValidateOptions) {
+    // Validates the config, throwing on errors
+    this.layout = computeLayout(config, options);
+    this.cx = this.layout.center.x;
+    this.cy = this.layout.center.y;
+  }
+
+  /**
+   * Paint the diagram
+   * @param ctx Target context
+   * @param options Output size
+   */
+  render(ctx: CanvasRenderingContext2D, options: CanvasRenderOptions = {}): void {
+    const layout = this.layout;
+    const { padding, viewSize } = layout;
+    const width = options.width ?? ctx.canvas?.width ?? layout.size;
+
+    ctx.save();
+    // Map the SVG viewBox onto the target square
+    ctx.scale(width / viewSize, width / viewSize);
+    ctx.translate(padding, padding);
+
+    if (layout.background) {
+      ctx.fillStyle = layout.background;
+      ctx.fillRect(-padding, -padding, viewSize, viewSize);
+    }
+    this.paintSegmentBackgrounds(ctx);
+    this.paintInsufficient(ctx);
+    this.paintScoreFills(ctx);
+    this.paintTargetGaps(ctx);
+    this.paintRanges(ctx);
+    this.paintTargets(ctx);
+    layout.segmentDividers?.forEach((l) => this.line(ctx, l));
+    this.paintFacetDividers(ctx);
+    this.paintCenterHub(ctx);
+    this.paintFacetLabels(ctx);
+    this.paintFacetFigures(ctx);
+    this.paintSegmentLabels(ctx);
+    this.paintGroupLabels(ctx);
+    this.paintRings(ctx);
+    this.paintBaseline(ctx);
+    this.paintScoreLabels(ctx);
+    this.paintFlowArrows(ctx);
+
+    ctx.restore();
+  }
+
+  // ---------- path and text primitives ----------
+
+  /** Trace an annular wedge (or a pie slice when the inner radius is 0), as `segmentPath` does. */
+  private wedgePath(ctx: CanvasRenderingContext2D, { innerRadius, outerRadius, startAngle, endAngle }: Wedge): void {
+    const start = toRadians(startAngle);
+    const end = toRadians(endAngle);
+    ctx.beginPath();
+    if (innerRadius === 0) {
+      ctx.moveTo(this.cx, this.cy);
+      ctx.arc(this.cx, this.cy, outerRadius, start, end);
+    } else {
+      ctx.arc(this.cx, this.cy, outerRadius, start, end);
+      ctx.arc(this.cx, this.cy, innerRadius, end, start, true);
+    }
+    ctx.closePath();
+  }
+
+  private circlePath(ctx: CanvasRenderingContext2D, x: number, y: number, r: number): void {
+    ctx.beginPath();
+    ctx.arc(x, y, r, 0, Math.PI * 2);
+  }
+
+  /** Stroke a straight line; an unset colour draws nothing, like an SVG `stroke="undefined"`. */
+  private line(ctx: CanvasRenderingContext2D, { from, to, color, width, opacity = 1 }: LineMark): void {
+    if (!color) return;
+    ctx.save();
+    ctx.globalAlpha *= opacity;
+    ctx.strokeStyle = color;
+    ctx.lineWidth = width ?? 1;
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  private fillWith(ctx: CanvasRenderingContext2D, color: string, alpha = 1): void {
+    ctx.save();
+    ctx.globalAlpha *= alpha;
+    ctx.fillStyle = color;
+    ctx.fill();
+    ctx.restore();
+  }
+
+  /**
+   * Diagonal hatching inside the path drawn by `trace`, matching the SVG hatch
+   * pattern. The path is traced again afterwards, ready for an outline.
+   */
+  private hatch(ctx: CanvasRenderingContext2D, color: string, trace: () => void): void {
+    ctx.save();
+    trace();
+    ctx.clip();
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    // Lines rising at 45° ("/"), 8px apart, covering the whole padded view
+    const extent = this.layout.size + this.layout.padding;
+    for (let x = -extent; x <= extent * 3; x += 8 * Math.SQRT2) {
+      ctx.moveTo(x, -extent);
+      ctx.lineTo(x - extent * 2, extent);
+    }
+    ctx.stroke();
+    ctx.restore();
+    trace();
+  }
+
+  private setFont(
+    ctx: CanvasRenderingContext2D,
+    size: number,
+    family: string | undefined,
+    weight: string | number = 'normal',
+    italic = false
+  ): void {
+    ctx.font = `${italic ? 'italic ' : ''}${weight} ${size}px ${family ?? DEFAULT_STYLE.fontFamily}`;
+  }
+
+  /** Stroke the current path; an unset colour draws nothing. */
+  private strokeWith(ctx: CanvasRenderingContext2D, color: string | undefined, width: number): void {
+    if (!color) return;
+    ctx.strokeStyle = color;
+    ctx.lineWidth = width;
+    ctx.stroke();
+  }
+
+  /**
+   * Draw (possibly multi-line) text at a point, optionally rotated about it.
+   * Lines stack like the SVG `<tspan dy>` blocks: centred on the point, 1.2em apart.
+   */
+  private text(
+    ctx: CanvasRenderingContext2D,
+    lines: string[],
+    pos: Point,
+    fontSize: number,
+    align: TextAlign,
+    rotation = 0,
+    paint: (text: string, x: number, y: number) => void = (t, x, y) => ctx.fillText(t, x, y)
+  ): void {
+    ctx.save();
+    ctx.translate(pos.x, pos.y);
+    if (rotation) ctx.rotate(toRadians(rotation));
+    ctx.textAlign = align === 'middle' ? 'center' : align;
+    ctx.textBaseline = 'middle';
+    const firstDy = -((lines.length - 1) * 0.6);
+    lines.forEach((line, i) => paint(line, 0, (firstDy + i * 1.2) * fontSize));
+    ctx.restore();
+  }
+
+  /**
+   * Draw text centred along a circular arc, one glyph at a time, like an SVG
+   * `<textPath startOffset="50%" text-anchor="middle">` on the same arc.
+   */
+  private textOnArc(
+    ctx: CanvasRenderingContext2D,
+    text: string,
+    radius: number,
+    fromAngle: number,
+    toAngle: number,
+    clockwise: boolean,
+    letterSpacing = 0,
+    paint: (glyph: string) => void = (g) => ctx.fillText(g, 0, 0)
+  ): void {
+    const glyphs = Array.from(text);
+    const widths = glyphs.map((g) => ctx.measureText(g).width);
+    const total = widths.reduce((sum, w) => sum + w, 0) + letterSpacing * Math.max(0, glyphs.length - 1);
+    const mid = (fromAngle + toAngle) / 2;
+    const direction = clockwise ? 1 : -1;
+    let advance = -total / 2;
+
+    ctx.save();
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    glyphs.forEach((glyph, i) => {
+      const angle = mid + direction * ((advance + widths[i] / 2) / radius) * (180 / Math.PI);
+      const pos = polarToCartesian(this.cx, this.cy, radius, angle);
+      ctx.save();
+      ctx.translate(pos.x, pos.y);
+      ctx.rotate(toRadians(angle + direction * 90));
+      paint(glyph);
+      ctx.restore();
+      advance += widths[i] + letterSpacing;
+    });
+    ctx.restore();
+  }
+
+  // ---------- layers (same order as SVGRenderer.render) ----------
+
+  private paintSegmentBackgrounds(ctx: CanvasRenderingContext2D): void {
+    this.layout.tracks.forEach((track) => {
+      this.wedgePath(ctx, track);
+      this.fillWith(ctx, track.color, track.opacity);
+    });
+  }
+
+  private paintScoreFills(ctx: CanvasRenderingContext2D): void {
+    const { layers, shapes } = this.layout.scores;
+    shapes.forEach((shape) => this.paintScoreShape(ctx, shape));
+    layers.forEach((layer) => this.paintScoreLayer(ctx, layer));
+  }
+
+  /** Hatched tracks of `insufficient` facets, with their text. */
+  private paintInsufficient(ctx: CanvasRenderingContext2D): void {
+    const insufficient = this.layout.insufficient;
+    if (!insufficient) return;
+    const { color, text, fontSize, fontFamily, marks } = insufficient;
+    ctx.save();
+    this.setFont(ctx, fontSize, fontFamily);
+    ctx.fillStyle = color;
+    marks.forEach((mark) => {
+      ctx.save();
+      ctx.globalAlpha *= 0.5;
+      this.hatch(ctx, color, () => this.wedgePath(ctx, mark));
+      ctx.restore();
+      if (text) this.text(ctx, [text], mark.position, fontSize, 'middle', mark.rotation);
+    });
+    ctx.restore();
+  }
+
+  /** `facet.range` bands, or error bars capped by arcs over the middle half of the facet span. */
+  private paintRanges(ctx: CanvasRenderingContext2D): void {
+    const ranges = this.layout.ranges;
+    if (!ranges) return;
+    ranges.marks.forEach((mark) => {
+      if (ranges.style !== 'bar') {
+        this.wedgePath(ctx, mark);
+        this.fillWith(ctx, ranges.color, ranges.opacity);
+        return;
+      }
+      const cap = (mark.endAngle - mark.startAngle) / 4;
+      const from = polarToCartesian(this.cx, this.cy, mark.innerRadius, mark.midAngle);
+      const to = polarToCartesian(this.cx, this.cy, mark.outerRadius, mark.midAngle);
+      const outerCap = polarToCartesian(this.cx, this.cy, mark.outerRadius, mark.midAngle - cap);
+      const [capStart, capEnd] = [toRadians(mark.midAngle - cap), toRadians(mark.midAngle + cap)];
+      ctx.save();
+      ctx.lineCap = 'round';
+      ctx.beginPath();
+      ctx.arc(this.cx, this.cy, mark.innerRadius, capStart, capEnd);
+      ctx.moveTo(outerCap.x, outerCap.y);
+      ctx.arc(this.cx, this.cy, mark.outerRadius, capStart, capEnd);
+      ctx.moveTo(from.x, from.y);
+      ctx.lineTo(to.x, to.y);
+      this.strokeWith(ctx, ranges.color, ranges.strokeWidth);
+      ctx.restore();
+    });
+  }
+
+  /** Wedges between each facet's score and target, in the under / over colour. */
+  private paintTargetGaps(ctx: CanvasRenderingContext2D): void {
+    const targets = this.layout.targets;
+    targets?.gaps?.forEach((gap) => {
+      this.wedgePath(ctx, gap);
+      this.fillWith(ctx, gap.color, targets.gapOpacity);
+    });
+  }
+
+  /** `facet.target` ticks: arcs across the facet span at the target radius. */
+  private paintTargets(ctx: CanvasRenderingContext2D): void {
+    const targets = this.layout.targets;
+    targets?.marks.forEach(({ radius, startAngle, endAngle }) => {
+      ctx.beginPath();
+      ctx.arc(this.cx, this.cy, radius, toRadians(startAngle), toRadians(endAngle));
+      this.strokeWith(ctx, targets.color, targets.width);
+    });
+  }
+
+  /** One score layer: filled, outlined or hatched wedges at the layer's opacity. */
+  private paintScoreLayer(ctx: CanvasRenderingContext2D, layer: ScoreWedgeLayer): void {
+    const { mode, wedges } = layer;
+    if (!layer.series) {
+      // Plain `facet.score` layer: opacity applies to each wedge
+      wedges.forEach((wedge) => {
+        this.wedgePath(ctx, wedge);
+        this.fillWith(ctx, wedge.color, layer.opacity ?? 1);
+      });
+      return;
+    }
+
+    ctx.save();
+    ctx.globalAlpha *= layer.opacity ?? 1;
+    ctx.lineWidth = layer.strokeWidth;
+    ctx.lineJoin = 'round';
+    ctx.setLineDash(dashArray(layer.strokeDasharray));
+    wedges.forEach((wedge) => {
+      this.wedgePath(ctx, wedge);
+      if (mode === 'filled') {
+        ctx.fillStyle = wedge.color;
+        ctx.fill();
+        return;
+      }
+      if (mode === 'hatched') this.hatch(ctx, wedge.color, () => this.wedgePath(ctx, wedge));
+      ctx.strokeStyle = wedge.color;
+      ctx.stroke();
+    });
+    ctx.restore();
+  }
+
+  /** A radar shape for `style.scoreShape` `'polygon'` / `'smooth'`, with its vertex markers. */
+  private paintScoreShape(ctx: CanvasRenderingContext2D, shape: ScoreShape): void {
+    const { points, color, mode } = shape;
+    if (points.length === 0) return;
+
+    const trace = () => {
+      ctx.beginPath();
+      ctx.moveTo(points[0].x, points[0].y);
+      if (shape.smooth && points.length >= 3) {
+        smoothClosedCurve(points).forEach(({ c1, c2, to }) => ctx.bezierCurveTo(c1.x, c1.y, c2.x, c2.y, to.x, to.y));
+      } else {
+        points.slice(1).forEach((p) => ctx.lineTo(p.x, p.y));
+      }
+      ctx.closePath();
+    };
+    trace();
+
+    if (mode === 'filled') {
+      this.fillWith(ctx, color, shape.fillOpacity);
+    } else if (mode === 'hatched') {
+      ctx.save();
+      ctx.globalAlpha *= shape.fillOpacity;
+      this.hatch(ctx, color, trace);
+      ctx.restore();
+    }
+    ctx.save();
+    ctx.strokeStyle = color;
+    ctx.lineWidth = shape.strokeWidth;
+    ctx.lineJoin = 'round';
+    ctx.setLineDash(dashArray(shape.strokeDasharray));
+    ctx.stroke();
+    ctx.restore();
+
+    shape.markers.forEach(({ point, radius, color: markerColor }) => {
+      this.circlePath(ctx, point.x, point.y, radius);
+      this.fillWith(ctx, markerColor);
+      ctx.strokeStyle = 'white';
+      ctx.lineWidth = 1;
+      ctx.stroke();
+    });
+  }
+
+  private paintFacetDividers(ctx: CanvasRenderingContext2D): void {
+    this.layout.facetDividers.forEach(({ lines, points }) => {
+      lines.forEach((l) => this.line(ctx, l));
+      points.forEach(({ center, radius, stroke }) => {
+        this.circlePath(ctx, center.x, center.y, radius);
+        this.fillWith(ctx, 'white');
+        this.strokeWith(ctx, stroke, 1);
+      });
+    });
+  }
+
+  private paintCenterHub(ctx: CanvasRenderingContext2D): void {
+    const hub = this.layout.hub;
+    if (!hub) return;
+
+    this.circlePath(ctx, this.cx, this.cy, hub.radius);
+    this.fillWith(ctx, hub.color);
+    if (hub.borderWidth > 0) {
+      this.strokeWith(ctx, hub.borderColor, hub.borderWidth);
+    }
+
+    ctx.save();
+    this.setFont(ctx, hub.fontSize, hub.fontFamily, 'bold');
+    ctx.fillStyle = hub.fontColor;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    hub.lines.forEach(({ text, position }) => ctx.fillText(text, position.x, position.y));
+    if (hub.subtitle) {
+      const { text, position, fontSize } = hub.subtitle;
+      this.setFont(ctx, fontSize, hub.fontFamily, 'normal');
+      ctx.fillText(text, position.x, position.y);
+    }
+    ctx.restore();
+  }
+
+  private paintFacetLabels(ctx: CanvasRenderingContext2D): void {
+    const { fontSize, fontFamily, fontWeight, italic, letterSpacing, labels } = this.layout.facetLabels;
+
+    ctx.save();
+    this.setFont(ctx, fontSize, fontFamily, fontWeight, italic);
+    if (letterSpacing !== undefined && 'letterSpacing' in ctx) ctx.letterSpacing = letterSpacing;
+    labels.forEach((label) => {
+      ctx.fillStyle = label.color;
+      this.text(ctx, label.lines, label.position, fontSize, label.anchor, label.rotation);
+    });
+    ctx.restore();
+  }
+
+  private paintFacetFigures(ctx: CanvasRenderingContext2D): void {
+    const figures = this.layout.figures;
+    if (!figures) return;
+
+    ctx.save();
+    this.setFont(ctx, figures.fontSize, figures.fontFamily);
+    figures.figures.forEach(({ text, position, rotation, color }) => {
+      ctx.fillStyle = color;
+      this.text(ctx, [text], position, figures.fontSize, 'middle', rotation ?? 0);
+    });
+    ctx.restore();
+  }
+
+  /** Curved segment-label band: backgrounds, ring and radial dividers, then the names. */
+  private paintSegmentLabels(ctx: CanvasRenderingContext2D): void {
+    this.paintLabelBand(ctx, this.layout.segmentLabels);
+  }
+
+  /** The group-label band (`config.groups`), painted like the segment-label band. */
+  private paintGroupLabels(ctx: CanvasRenderingContext2D): void {
+    const groupLabels = this.layout.groupLabels;
+    if (groupLabels) this.paintLabelBand(ctx, { ...groupLabels, position: 'outer' });
+  }
+
+  /** A curved label band, segment or group: arcs, dividers and label rows. */
+  private paintLabelBand(ctx: CanvasRenderingContext2D, layout: SegmentLabelLayout | (GroupLabelLayout & { position: 'outer' })): void {
+    const { position, fontFamily, subFontFamily, subColor, letterSpacing, bands, rings, dividers, labels } = layout;
+
+    const paintRings = () => rings.forEach(({ radius, color, width }) => {
+      this.circlePath(ctx, this.cx, this.cy, radius);
+      this.strokeWith(ctx, color, width);
+    });
+    // Outer mode draws the ring under the band, inner mode on both band edges above it
+    if (position === 'outer') paintRings();
+    bands.forEach((band) => {
+      this.wedgePath(ctx, band);
+      this.fillWith(ctx, band.color);
+    });
+    if (position === 'inner') paintRings();
+    dividers.forEach((l) => this.line(ctx, l));
+
+    labels.forEach(({ rows }) => {
+      rows.forEach((row) => {
+        ctx.save();
+        if (row.isSub) {
+          this.setFont(ctx, row.size, subFontFamily);
+          ctx.fillStyle = subColor;
+        } else {
+          this.setFont(ctx, row.size, fontFamily, 'bold');
+          ctx.fillStyle = 'white';
+        }
+        const spacing = row.isSub ? 0 : cssLength(letterSpacing, row.size);
+        this.textOnArc(ctx, row.text, row.radius, row.fromAngle, row.toAngle, row.clockwise, spacing);
+        ctx.restore();
+      });
+    });
+  }
+
+  private paintRings(ctx: CanvasRenderingContext2D): void {
+    const rings = this.layout.rings;
+    if (!rings) return;
+    ctx.save();
+    ctx.strokeStyle = rings.color;
+    ctx.lineWidth = rings.width;
+    ctx.setLineDash(rings.dashed ? [4, 4] : []);
+    rings.radii.forEach((radius) => {
+      this.circlePath(ctx, this.cx, this.cy, radius);
+      ctx.stroke();
+    });
+    ctx.restore();
+  }
+
+  private paintBaseline(ctx: CanvasRenderingContext2D): void {
+    const baseline = this.layout.baseline;
+    if (!baseline) return;
+    this.circlePath(ctx, this.cx, this.cy, baseline.radius);
+    this.strokeWith(ctx, baseline.color, baseline.width);
+  }
+
+  private paintScoreLabels(ctx: CanvasRenderingContext2D): void {
+    const scoreLabels = this.layout.scoreLabels;
+    if (!scoreLabels) return;
+    const { fontSize, fontFamily } = scoreLabels;
+
+    ctx.save();
+    this.setFont(ctx, fontSize, fontFamily, 'bold');
+    ctx.fillStyle = scoreLabels.color;
+    ctx.strokeStyle = scoreLabels.strokeColor;
+    ctx.lineWidth = 3;
+    // Outline under the fill, like paint-order="stroke"
+    const outlined = (text: string, x = 0, y = 0) => {
+      ctx.strokeText(text, x, y);
+      ctx.fillText(text, x, y);
+    };
+    scoreLabels.labels.forEach(({ text, radius, position, arc }) => {
+      if (arc) {
+        this.textOnArc(ctx, text, radius, arc.fromAngle, arc.toAngle, arc.clockwise, 0, outlined);
+        return;
+      }
+      this.text(ctx, [text], position, fontSize, 'middle', 0, outlined);
+    });
+    ctx.restore();
+
+    if (scoreLabels.key.length > 0) {
+      // Side key in the top-left corner, styled like the SVG `.ring-label` class
+      ctx.save();
+      this.setFont(ctx, 10, fontFamily);
+      ctx.fillStyle = '#666';
+      ctx.textAlign = 'left';
+      ctx.textBaseline = 'alphabetic';
+      scoreLabels.key.forEach(({ text, position }) => ctx.fillText(text, position.x, position.y));
+      ctx.restore();
+    }
+  }
+
+  private paintFlowArrows(ctx: CanvasRenderingContext2D): void {
+    const flow = this.layout.flow;
+    if (!flow) return;
+    ctx.save();
+    ctx.strokeStyle = flow.strokeColor;
+    ctx.lineWidth = flow.strokeWidth;
+    ctx.lineJoin = 'round';
+    flow.arrows.forEach(({ tip, baseInner, baseOuter, fill }) => {
+      // Filled triangle, then an outline on the two slanted sides only
+      ctx.beginPath();
+      ctx.moveTo(tip.x, tip.y);
+      ctx.lineTo(baseInner.x, baseInner.y);
+      ctx.lineTo(baseOuter.x, baseOuter.y);
+      ctx.closePath();
+      this.fillWith(ctx, fill);
+      ctx.beginPath();
+      ctx.moveTo(baseInner.x, baseInner.y);
+      ctx.lineTo(tip.x, tip.y);
+      ctx.lineTo(baseOuter.x, baseOuter.y);
+      ctx.stroke();
+    });
+    ctx.restore();
+  }
+}
+
+/** Parse an SVG `stroke-dasharray` ("6,3" or "6 3") into canvas line-dash segments. */
+function dashArray(value: string | undefined): number[] {
+  if (!value) return [];
+  return value.split(/[\s,]+/).map(Number).filter((n) => Number.isFinite(n));
+}
+
+/** Resolve a CSS length ("2px", "0.05em", "3") to pixels; anything else is 0. */
+function cssLength(value: string | undefined, fontSize: number): number {
+  const match = value?.trim().match(/^(-?[\d.]+)(px|em)?$/);
+  if (!match) return 0;
+  return match[2] === 'em' ? parseFloat(match[1]) * fontSize : parseFloat(match[1]);
+}
+
+/**
+ * Convenience function to paint a diagram onto a canvas context
+ */
+export function renderDiagramToCanvas(
+  config: DiagramConfig,
+  ctx: CanvasRenderingContext2D,
+  options: CanvasRenderOptions & ValidateOptions = {}
+): void {
+  const { strict, ...renderOptions } = options;
+  new CanvasRenderer(config, { strict }).render(ctx, renderOptions);
+}
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync, readdirSync } from 'node:fs';
+import { Resvg } from '@resvg/resvg-js';
+import { roundSvgNumbers, compactSvg } from './compact.js';
+import { renderDiagram } from './svg.js';
+import { DEFAULT_STYLE, DEFAULT_SCALE, DiagramConfig } from '../core/types.js';
+
+const config: DiagramConfig = {
+  size: 400,
+  startAngle: -90,
+  center: { label: 'Hub', radius: 50, color: '#333333' },
+  scale: { ...DEFAULT_SCALE },
+  segments: [
+    { name: 'One', color: '#ff0000', facets: [{ name: 'A', score: 3 }, { name: 'B', score: 4 }] },
+    { name: 'Two', color: '#0000ff', facets: [{ name: 'C', score: 2 }] },
+  ],
+  style: { ...DEFAULT_STYLE },
+};
+
+const withStyle = (style: DiagramConfig['style']): DiagramConfig => ({ ...config, style: { ...config.style, ...style } });
+
+describe('roundSvgNumbers', () => {
+  it('rounds geometry and font sizes, leaving opacities and text alone', () => {
+    const svg =
+      '<svg viewBox="-70.123 -70.123 940 940"><style>.a { font-size: 13.3333px; }</style>' +
+      '<path d="M 1.23456 -0.0001 L 2e-7 3.999" opacity="0.123456" transform="rotate(12.3456, 1, 2)" />' +
+      '<text x="1.005" y="-2.5" style="font-size: 11.666px">3.14159</text></svg>';
+    expect(roundSvgNumbers(svg, 2)).toBe(
+      '<svg viewBox="-70.12 -70.12 940 940"><style>.a { font-size: 13.33px; }</style>' +
+        '<path d="M 1.23 0 L 0 4" opacity="0.123456" transform="rotate(12.35, 1, 2)" />' +
+        '<text x="1" y="-2.5" style="font-size: 11.67px">3.14159</text></svg>'
+    );
+    expect(roundSvgNumbers('<circle cx="12.5" cy="-0.4" r="3.49" />', 0)).toBe('<circle cx="13" cy="0" r="3" />');
+  });
+});
+
+describe('compactSvg', () => {
+  it('removes whitespace between tags and in CSS, keeping scripts as written', () => {
+    const svg = `<svg>
+  <style>
+    #d .a { fill: red; font-family: &quot;Open Sans&quot;; }
+  </style>
+  <path d="M 1 2 L 3 4 Z" />
+<script><![CDATA[
+  if (a < b) { go(); }
+]]></script>
+</svg>`;
+    expect(compactSvg(svg, '#d')).toBe(
+      '<svg><style>#d .a{fill:red;font-family:&quot;Open Sans&quot;}</style><path d="M1 2L3 4Z"/>' +
+        '<script><![CDATA[\n  if (a < b) { go(); }\n]]></script></svg>'
+    );
+  });
+
+  it('merges repeated style attributes into scoped classes', () => {
+    const svg =
+      '<svg><style>.x { fill: red; }</style>' +
+      '<text class="x" style="font-size: 12px">a</text><text style="font-size: 12px">b</text>' +
+      '<text style="fill: blue">c</text></svg>';
+    expect(compactSvg(svg, '#d')).toBe(
+      '<svg><style>.x{fill:red}#d .s0{font-size:12px}</style>' +
+        '<text class="x s0">a</text><text class="s0">b</text><text style="fill:blue">c</text></svg>'
+    );
+  });
+
+  it('drops empty groups and defs, but not labelled ones', () => {
+    const svg = '<svg><style></style><defs></defs><g class="a"><g class="b"> </g></g><g role="list"></g><path d="M0 0"/></svg>';
+    expect(compactSvg(svg, '#d')).toBe('<svg><style></style><g role="list"></g><path d="M0 0"/></svg>');
+  });
+});
+
+describe('style.precision and style.compact', () => {
+  it('are applied to the rendered SVG', () => {
+    const full = renderDiagram(config);
+    expect(full).toMatch(/\d\.\d{3,}/);
+    expect(renderDiagram(withStyle({ precision: 1 }))).not.toMatch(/="[^"]*\d\.\d{2,}/);
+    const compact = renderDiagram(withStyle({ compact: true }));
+    expect(compact).not.toMatch(/>\s+</);
+    expect(compact.length).toBeLessThan(full.length);
+  });
+
+  it('keeps the em line spacing of multi-line labels at precision 0', () => {
+    const twoLines = withStyle({ precision: 0 });
+    twoLines.segments = [{ ...config.segments[0], facets: [{ name: 'Two\nLines', score: 3 }] }, config.segments[1]];
+    const dys = (svg: string) => [...svg.matchAll(/<tspan[^>]* dy="([^"]*)"/g)].map((m) => m[1]);
+    expect(dys(renderDiagram(twoLines))).toEqual(['-0.6em', '1.2em']);
+    expect(roundSvgNumbers('<tspan x="1.4" dy="1.2em">a</tspan>', 0)).toBe('<tspan x="1" dy="1.2em">a</tspan>');
+  });
+
+    it('keeps the hover tooltip script working', () => {
+    const svg = renderDiagram(withStyle({ interactive: 'hover', compact: true }));
+    expect(svg).toContain('<script type="text/javascript"><![CDATA[\n');
+    expect(svg).toContain('class="rd-tooltip"');
+  });
+});
+
+describe('compact goldens', () => {
+  const shared = new URL('../../tests/shared/', import.meta.url);
+  const tiers = readdirSync(new URL('configs/', shared)).filter((f) => f.startsWith('tier-') && f.endsWith('.json'));
+
+  /** RGBA pixels of an SVG rasterised 600px wide */
+  const pixels = (svg: string) => new Resvg(svg, { fitTo: { mode: 'width', value: 600 } }).render().pixels;
+
+  it.each(tiers)('%s renders the same as its full-precision golden', (file) => {
+    const tier = file.replace(/\.json$/, '');
+    const raw = JSON.parse(readFileSync(new URL(`configs/${file}`, shared), 'utf-8'));
+    delete raw._comment;
+    const golden = readFileSync(new URL(`goldens/ts/${tier}.svg`, shared), 'utf-8');
+    const compact = readFileSync(new URL(`goldens/ts-compact/${tier}.svg`, shared), 'utf-8');
+    expect(renderDiagram({ ...raw, style: { ...raw.style, compact: true, precision: 2 } })).toBe(compact);
+    expect(compact.length).toBeLessThan(golden.length);
+
+    // Same budget as the cross-language equivalence test: at most 0.5% of
+    // pixels may differ by more than 5/255 in a channel (anti-aliasing from
+    // the rounded coordinates)
+    const a = pixels(golden);
+    const b = pixels(compact);
+    expect(b.length).toBe(a.length);
+    let differing = 0;
+    for (let i = 0; i < a.length; i += 4) {
+      if ([0, 1, 2, 3].some((c) => Math.abs(a[i + c] - b[i + c]) > 5)) differing++;
+    }
+    expect(differing / (a.length / 4)).toBeLessThanOrEqual(0.005);
+  });
+});
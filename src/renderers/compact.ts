@@ -0,0 +1,129 @@
+/**
+ * Size reductions applied to finished SVG markup: `style.precision` rounding
+ * and `style.compact` minification
+ *
+ * @license MIT
+ * @copyright 2026 CGA Management Ltd
+ * @see https://www.cgamanagement.co.uk/category/tools
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+// Attributes holding coordinates, lengths, angles or path data. Opacities
+// and other 0-1 values are left alone: rounding them to few places would
+// visibly change the output. So are `dy` line offsets, which are in em: at
+// precision 0, 1.2em would become 1em.
+const GEOMETRY_ATTRIBUTES = [
+  'x', 'y', 'x1', 'y1', 'x2', 'y2', 'cx', 'cy', 'r', 'rx', 'ry',
+  'd', 'points', 'transform', 'viewBox', 'width', 'height', 'font-size', 'stroke-width',
+];
+const GEOMETRY_ATTRIBUTE = new RegExp(`(\\s(?:${GEOMETRY_ATTRIBUTES.join('|')})=")([^"]*)"`, 'g');
+const SVG_NUMBER = /-?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/gi;
+const FONT_SIZE = /(font-size:\s*)(-?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?)/gi;
+const PATH_DATA = /(\sd=")([^"]*)"/g;
+const STYLE_ATTRIBUTE = /(\sstyle=")([^"]*)"/g;
+const STYLE_BLOCK = /(<style>)([\s\S]*?)(<\/style>)/;
+const CDATA = /(<!\[CDATA\[[\s\S]*?\]\]>)/;
+const EMPTY_GROUP = /<g(\s[^>]*)?>\s*<\/g>|<defs>\s*<\/defs>/g;
+
+function roundNumber(value: string, precision: number): string {
+  const rounded = Number(Number(value).toFixed(precision));
+  return String(rounded === 0 ? 0 : rounded); // Also turns -0 into 0
+}
+
+/**
+ * Round every number in geometric attributes (coordinates, radii, path data,
+ * transforms, sizes) and every `font-size` in inline and `<style>` CSS to
+ * `precision` decimal places, dropping trailing zeros. Text content,
+ * opacities and em line offsets are not touched.
+ */
+export function roundSvgNumbers(svg: string, precision: number): string {
+  const round = (text: string) => text.replace(SVG_NUMBER, (n) => roundNumber(n, precision));
+  const roundFontSizes = (css: string) =>
+    css.replace(FONT_SIZE, (_, prop: string, n: string) => `${prop}${roundNumber(n, precision)}`);
+  return svg
+    .replace(GEOMETRY_ATTRIBUTE, (_, start: string, value: string) => `${start}${round(value)}"`)
+    .replace(STYLE_ATTRIBUTE, (_, start: string, css: string) => `${start}${roundFontSizes(css)}"`)
+    .replace(STYLE_BLOCK, (_, open: string, css: string, close: string) => `${open}${roundFontSizes(css)}${close}`);
+}
+
+/** Collapse whitespace in a style sheet or declaration list. */
+function minifyCss(css: string): string {
+  return css
+    .replace(/\s+/g, ' ')
+    .replace(/\s*([{}:;,])\s*/g, '$1')
+    .replace(/(?<!&#?\w+);(?=}|$)/g, '') // Last semicolons, not those ending `&quot;`
+    .trim();
+}
+
+/**
+ * Minify renderer output:
+ * - whitespace between tags, around path commands and inside CSS is
+ *   removed (the hover tooltip script is kept as written);
+ * - `style` attributes used by more than one element become classes, with
+ *   rules `scope .sN { ... }` appended to the `<style>` block so they still
+ *   override the built-in label rules;
+ * - empty `<g>` and `<defs>` elements are dropped, unless they carry an id
+ *   or ARIA semantics.
+ * @param svg Markup from `SVGRenderer`
+ * @param scope Selector of the root `<svg>` (`#idPrefix`), prefixed to the new rules
+ */
+export function compactSvg(svg: string, scope: string): string {
+  // Split out CDATA so the script's own whitespace and `<`s are left alone
+  const parts = svg.trim().split(CDATA);
+  const markup = (fn: (text: string) => string) => parts.forEach((p, i) => { if (i % 2 === 0) parts[i] = fn(p); });
+
+  markup((text) =>
+    text
+      .replace(/>\s+</g, '><')
+      .replace(/\s+\/>/g, '/>')
+      // Path commands need no spaces around them (`e` is an exponent, not a command)
+      .replace(PATH_DATA, (_, start: string, d: string) => `${start}${d.trim().replace(/\s*([a-df-z])\s*/gi, '$1')}"`)
+  );
+
+  // Shared inline styles → generated classes
+  const counts = new Map<string, number>();
+  markup((text) => {
+    for (const [, , css] of text.matchAll(STYLE_ATTRIBUTE)) counts.set(css, (counts.get(css) ?? 0) + 1);
+    return text;
+  });
+  const classes = new Map<string, string>();
+  for (const [css, count] of counts) {
+    if (count > 1) classes.set(css, `s${classes.size}`);
+  }
+  if (classes.size > 0) {
+    markup((text) =>
+      text.replace(/<[a-zA-Z][^>]*>/g, (tag) => {
+        const css = /\sstyle="([^"]*)"/.exec(tag)?.[1];
+        const name = css === undefined ? undefined : classes.get(css);
+        if (!name) return tag;
+        const bare = tag.replace(/\sstyle="[^"]*"/, '');
+        return /\sclass="/.test(bare)
+          ? bare.replace(/(\sclass="[^"]*)"/, `$1 ${name}"`)
+          : bare.replace(/^(<[a-zA-Z]+)/, `$1 class="${name}"`);
+      })
+    );
+  }
+  const rules = [...classes].map(([css, name]) => `${scope} .${name}{${minifyCss(css)}}`).join('');
+  markup((text) =>
+    text.replace(STYLE_BLOCK, (_, open: string, css: string, close: string) => `${open}${minifyCss(css)}${rules}${close}`)
+  );
+
+  // Compact each inline style that stayed
+  markup((text) => text.replace(STYLE_ATTRIBUTE, (_, start: string, css: string) => `${start}${minifyCss(css)}"`));
+
+  // Empty groups, innermost first, until none are left
+  markup((text) => {
+    let previous: string;
+    do {
+      previous = text;
+      text = text.replace(EMPTY_GROUP, (group, attrs?: string) =>
+        attrs && /\s(?:id|role|aria-[\w-]+)=/.test(attrs) ? group : ''
+      );
+    } while (text !== previous);
+    return text;
+  });
+
+  return parts.join('');
+}
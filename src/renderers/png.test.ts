@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { renderToPng } from './png.js';
+import { DEFAULT_STYLE, DEFAULT_SCALE, DiagramConfig } from '../core/types.js';
+
+const config: DiagramConfig = {
+  size: 200,
+  startAngle: -90,
+  center: { label: 'Hub', radius: 30, color: '#702082' },
+  scale: { ...DEFAULT_SCALE },
+  segments: [
+    { name: 'One', color: '#E6A817', facets: [{ name: 'A', score: 3 }] },
+    { name: 'Two', color: '#C41E3A', facets: [{ name: 'B', score: 4 }] },
+  ],
+  style: { ...DEFAULT_STYLE },
+};
+
+/** Width and height from a PNG's IHDR chunk. */
+function pngSize(png: Buffer): { width: number; height: number } {
+  return { width: png.readUInt32BE(16), height: png.readUInt32BE(20) };
+}
+
+describe('renderToPng', () => {
+  it('returns a PNG at config.size by default', () => {
+    const png = renderToPng(config, { fonts: { loadSystemFonts: false } });
+    expect(png.subarray(0, 8).toString('hex')).toBe('89504e470d0a1a0a');
+    expect(pngSize(png)).toEqual({ width: 200, height: 200 });
+  });
+
+  it('multiplies the pixel size by scale and dpi / 96', () => {
+    const png = renderToPng(config, { scale: 1.5, dpi: 192, fonts: { loadSystemFonts: false } });
+    expect(pngSize(png)).toEqual({ width: 600, height: 600 });
+  });
+
+  it('paints the background colour behind the diagram', () => {
+    const transparent = renderToPng(config, { fonts: { loadSystemFonts: false } });
+    const white = renderToPng(config, { background: '#ffffff', fonts: { loadSystemFonts: false } });
+    expect(white.equals(transparent)).toBe(false);
+  });
+
+  it('throws on a non-positive scale or dpi', () => {
+    expect(() => renderToPng(config, { scale: 0 })).toThrow('scale must be greater than 0');
+    expect(() => renderToPng(config, { dpi: -1 })).toThrow('dpi must be greater than 0');
+  });
+
+  it('validates in strict mode when asked', () => {
+    const brand = { ...config, center: { ...config.center, color: 'var(--brand)' } };
+    expect(() => renderToPng(brand, { strict: true })).toThrow('center.color "var(--brand)" is not an allowed CSS colour');
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * PNG renderer for Node.js — rasterises the SVG output with resvg
+ *
+ * @license MIT
+ * @copyright 2026 CGA Management Ltd
+ * @see https://www.cgamanagement.co.uk/category/tools
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { Resvg } from '@resvg/resvg-js';
+import type { DiagramConfig, ValidateOptions } from '../core/types.js';
+import { renderDiagram } from './svg.js';
+
+/** Font sources for text rendering in `renderToPng`. */
+export interface PngFontOptions {
+  /** Font files (.ttf/.otf/.ttc) to load, e.g. the brand fonts named in `style.fontFamily`. */
+  files?: string[];
+  /** Directories searched recursively for font files. */
+  dirs?: string[];
+  /** Also load the fonts installed on the system. Default true. */
+  loadSystemFonts?: boolean;
+  /**
+   * Family used when none of a label's families is available. Default: the
+   * first family in `style.fontFamily` (e.g. 'Arial').
+   */
+  defaultFamily?: string;
+}
+
+/** Options for `renderToPng`; `strict` validates as in `renderDiagram`. */
+export interface PngOptions extends ValidateOptions {
+  /** Multiplier on `config.size` for the output pixel size. Default 1. */
+  scale?: number;
+  /**
+   * Output resolution in dots per inch. The SVG is laid out at 96 dpi, so
+   * 192 doubles the pixel size (on top of `scale`). Default 96.
+   */
+  dpi?: number;
+  /** Canvas colour behind the diagram (any CSS colour). Default transparent. */
+  background?: string;
+  /** Font loading. */
+  fonts?: PngFontOptions;
+}
+
+/**
+ * Render a diagram straight to PNG. The output is `config.size × scale ×
+ * dpi / 96` pixels square and includes the label padding around the wheel,
+ * exactly like the SVG's viewBox.
+ * @param config The diagram configuration
+ * @param options Size, resolution, background, font and validation options
+ * @returns PNG image data
+ */
+export function renderToPng(config: DiagramConfig, options: PngOptions = {}): Buffer {
+  const { scale = 1, dpi = 96, background, fonts = {}, strict } = options;
+  if (!(scale > 0)) {
+    throw new Error('scale must be greater than 0');
+  }
+  if (!(dpi > 0)) {
+    throw new Error('dpi must be greater than 0');
+  }
+
+  const svg = renderDiagram(config, { strict });
+  const width = Math.round(config.size * scale * (dpi / 96));
+  const resvg = new Resvg(svg, {
+    fitTo: { mode: 'width', value: width },
+    dpi,
+    background,
+    font: {
+      fontFiles: fonts.files,
+      fontDirs: fonts.dirs,
+      loadSystemFonts: fonts.loadSystemFonts ?? true,
+      defaultFontFamily: fonts.defaultFamily ?? firstFontFamily(config.style.fontFamily ?? 'Arial'),
+    },
+  });
+  return resvg.render().asPng();
+}
+
+/** First family of a CSS font-family list, unquoted: `"Open Sans", Arial` → `Open Sans`. */
+function firstFontFamily(fontFamily: string): string {
+  return fontFamily.split(',')[0].trim().replace(/^["']|["']$/g, '');
+}
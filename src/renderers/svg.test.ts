@@ -80,6 +80,44 @@ describe('SVGRenderer', () => {
     expect(svg).not.toMatch(/Test & Hub/); // Should be escaped
   });
 
+  it('escapes markup and quotes in every label and value', () => {
+    const evil = '"><script>x</script>';
+    const config: DiagramConfig = {
+      ...validConfig,
+      series: [{ key: `k${evil}`, style: 'outline', strokeDasharray: '6,3" onload="x' }],
+      center: { ...validConfig.center, label: evil },
+      scale: { ...validConfig.scale, ringLabels: [evil, 'b', 'c', 'd', 'e'] },
+      segments: [
+        {
+          name: evil,
+          subLabel: evil,
+          color: '#E6A817" onload="x',
+          facets: [{ name: evil, figure: evil, description: evil, scores: { [`k${evil}`]: 3 } }],
+        },
+      ],
+      style: {
+        ...validConfig.style,
+        showScoreLabels: true,
+        ringLabelPlacement: 'key',
+        interactive: 'titles',
+        accessibility: 'structured',
+        facetFigureColor: 'red" onload="x',
+      },
+    };
+    const svg = new SVGRenderer(config).render();
+    expect(svg).not.toContain('<script>');
+    expect(svg).not.toContain('" onload="');
+    expect(svg).toContain('&quot;&gt;&lt;script&gt;x&lt;/script&gt;');
+  });
+
+  it('rejects unsafe CSS values, and non-allowlisted ones in strict mode', () => {
+    const style = { ...validConfig.style, fontFamily: 'Arial; } * { display: none' };
+    expect(() => new SVGRenderer({ ...validConfig, style })).toThrow('style.fontFamily');
+    const brand = { ...validConfig, center: { ...validConfig.center, color: 'var(--brand)' } };
+    expect(renderDiagram(brand)).toContain('fill="var(--brand)"');
+    expect(() => renderDiagram(brand, { strict: true })).toThrow('center.color "var(--brand)" is not an allowed CSS colour');
+  });
+
   it('hides center hub when visible is false', () => {
     const config = {
       ...validConfig,
@@ -187,6 +225,22 @@ describe('wheel-redesign options (2b)', () => {
     expect(svg).toContain('font-weight: normal');
   });
 
+  it('fills statistics into sub-labels, figures and the hub subtitle', () => {
+    const config = {
+      ...validConfig,
+      center: { ...validConfig.center, subtitle: '{count} scored' },
+      segments: validConfig.segments.map((s) => ({
+        ...s,
+        subLabel: 'avg {mean:0.0}',
+        facets: s.facets.map((f) => ({ ...f, figure: '{pct}%' })),
+      })),
+    };
+    const svg = new SVGRenderer(config).render();
+    expect(svg).toMatch(/>avg \d\.\d<\/textPath>/);
+    expect(svg).not.toContain('{pct}');
+    expect(svg).toMatch(/class="center-label center-subtitle" style="font-size: \d+px; font-weight: normal" dominant-baseline="middle">\d+ scored<\/text>/);
+  });
+
   it('does not add a facet-figures layer when no facet has a figure', () => {
     const svg = new SVGRenderer(validConfig).render();
     expect(svg).not.toContain('class="facet-figures"');
@@ -287,6 +341,510 @@ describe('wheel-redesign options (2b)', () => {
   });
 });
 
+describe('score series', () => {
+  const seriesConfig: DiagramConfig = {
+    ...validConfig,
+    series: [
+      { key: 'baseline', style: 'outline', color: '#999999', strokeDasharray: '6,3' },
+      { key: 'current' },
+      { key: 'target', style: 'hatched', color: '#123456' },
+    ],
+    segments: [
+      {
+        name: 'Seg',
+        color: '#702082',
+        facets: [
+          { name: 'A', scores: { baseline: 2, current: 3, target: 4.5 } },
+          { name: 'B', scores: { current: 2, target: 4 } },
+        ],
+      },
+    ],
+  };
+
+  it('draws one layer per series in definition order', () => {
+    const svg = new SVGRenderer(seriesConfig).render();
+    const fills = svg.split('<g class="score-fills">')[1];
+    const order = [...fills.matchAll(/data-series="(\w+)"/g)].map((m) => m[1]);
+    expect(order).toEqual(['baseline', 'current', 'target']);
+  });
+
+  it('renders filled, outlined and hatched layers', () => {
+    const svg = new SVGRenderer(seriesConfig).render();
+    expect(svg).toContain('fill="none" stroke="#999999" stroke-width="2" stroke-dasharray="6,3"');
+    expect(svg).toContain('<path d="M');
+    expect(svg).toContain('fill="#702082" />');
+    expect(svg).toMatch(/<pattern id="rd-[0-9a-z]+-series-hatch-2-0"/);
+    expect(svg).toMatch(/fill="url\(#rd-[0-9a-z]+-series-hatch-2-0\)" stroke="#123456"/);
+  });
+
+  it('skips facets without a score for the series', () => {
+    const svg = new SVGRenderer(seriesConfig).render();
+    const baseline = svg.split('data-series="baseline"')[1].split('</g>')[0];
+    expect(baseline.match(/<path/g)?.length).toBe(1);
+  });
+
+  it('ignores facet.score when series are defined', () => {
+    const config: DiagramConfig = {
+      ...seriesConfig,
+      series: [{ key: 'current' }],
+      segments: [{ name: 'Seg', color: '#702082', facets: [{ name: 'A', score: 3 }] }],
+    };
+    const svg = new SVGRenderer(config).render();
+    const layer = svg.split('data-series="current"')[1].split('</g>')[0];
+    expect(layer).not.toContain('<path');
+  });
+});
+
+describe('weighted angular widths', () => {
+  const dividerAngles = (svg: string): number[] => {
+    const group = svg.split('<g class="segment-dividers">')[1].split('</g>')[0];
+    return [...group.matchAll(/x1="([^"]+)" y1="([^"]+)" x2="([^"]+)" y2="([^"]+)"/g)].map((m) => {
+      const angle = Math.atan2(Number(m[4]) - Number(m[2]), Number(m[3]) - Number(m[1]));
+      return Math.round((angle * 180) / Math.PI);
+    });
+  };
+
+  it('sizes segments by segment.weight', () => {
+    const config: DiagramConfig = {
+      ...validConfig,
+      segments: [
+        { ...validConfig.segments[0], weight: 3 },
+        { ...validConfig.segments[1], weight: 1 },
+      ],
+    };
+    const svg = new SVGRenderer(config).render();
+    // -90 start, 3:1 split => boundary at 180
+    expect(dividerAngles(svg)).toEqual([-90, 180]);
+  });
+
+  it('sizes segments by facet count in facetCount mode', () => {
+    const config: DiagramConfig = {
+      ...validConfig,
+      style: { ...DEFAULT_STYLE, segmentSizing: 'facetCount' },
+    };
+    const svg = new SVGRenderer(config).render();
+    // 2 facets + 1 facet => 240 / 120 degrees
+    expect(dividerAngles(svg)).toEqual([-90, 150]);
+  });
+
+  it('renders unweighted configs identically to explicit equal weights', () => {
+    // Same ids on both sides; the default namespace hashes the config
+    const unweighted = { ...validConfig, style: { ...validConfig.style, idPrefix: 'w' } };
+    const weighted: DiagramConfig = {
+      ...unweighted,
+      segments: validConfig.segments.map((s) => ({
+        ...s,
+        weight: 2,
+        facets: s.facets.map((f) => ({ ...f, weight: 5 })),
+      })),
+    };
+    expect(new SVGRenderer(weighted).render()).toBe(new SVGRenderer(unweighted).render());
+  });
+});
+
+describe('ring labels', () => {
+  const levels = ['Initial', 'Managed', 'Defined', 'Quantified', 'Optimising'];
+  const withLevels = (style: Partial<DiagramConfig['style']> = {}): DiagramConfig => ({
+    ...validConfig,
+    scale: { ...DEFAULT_SCALE, ringLabels: levels },
+    style: { ...DEFAULT_STYLE, showScoreLabels: true, ...style },
+  });
+  const scoreLabels = (svg: string) => svg.split('<g class="score-labels">')[1].split('</g>')[0];
+
+  it('shows the numbers when no ringLabels are set', () => {
+    const svg = new SVGRenderer({
+      ...validConfig,
+      style: { ...DEFAULT_STYLE, showScoreLabels: true },
+    }).render();
+    expect(scoreLabels(svg)).toContain('>1</text>');
+    expect(scoreLabels(svg)).toContain('>5</text>');
+  });
+
+  it('replaces the numbers with ring names along the axis by default', () => {
+    const labels = scoreLabels(new SVGRenderer(withLevels()).render());
+    expect(labels).toContain('>Initial</text>');
+    expect(labels).toContain('>Optimising</text>');
+    expect(labels).not.toContain('>1</text>');
+  });
+
+  it('moves the label axis with scoreLabelAngle', () => {
+    const labels = scoreLabels(new SVGRenderer(withLevels({ scoreLabelAngle: 0 })).render());
+    // Axis to the right: every label sits on y = cy (400)
+    const ys = [...labels.matchAll(/ y="([^"]+)"/g)].map((m) => Number(m[1]));
+    ys.forEach((y) => expect(y).toBeCloseTo(400));
+  });
+
+  it('curves ring names along each band', () => {
+    const labels = scoreLabels(new SVGRenderer(withLevels({ ringLabelPlacement: 'curved' })).render());
+    expect(labels).toMatch(/<path id="rd-[0-9a-z]+-ring-label-path-0"/);
+    expect(labels).toMatch(/<textPath href="#rd-[0-9a-z]+-ring-label-path-4" startOffset="50%" text-anchor="middle">Optimising<\/textPath>/);
+  });
+
+  it('keeps the numbers and adds a side key in key mode', () => {
+    const svg = new SVGRenderer(withLevels({ ringLabelPlacement: 'key' })).render();
+    expect(svg).toContain('class="ring-label-key"');
+    expect(svg).toContain('>5 Optimising</text>');
+    expect(svg).toContain('>1 Initial</text>');
+    expect(svg.split('class="ring-label-key"')[0]).toContain('>3</text>');
+  });
+});
+
+describe('radar score shapes', () => {
+  const fills = (svg: string) => svg.split('<g class="score-fills">')[1].split('<g class="segment-dividers">')[0];
+
+  it('draws a closed polygon with vertex markers instead of wedges', () => {
+    const config: DiagramConfig = {
+      ...validConfig,
+      style: { ...DEFAULT_STYLE, scoreShape: 'polygon' },
+    };
+    const layer = fills(new SVGRenderer(config).render());
+    expect(layer).toContain('class="score-shape"');
+    expect(layer.match(/<path/g)).toHaveLength(1);
+    expect(layer).toMatch(/d="M [^"]+ L [^"]+ L [^"]+ Z"/);
+    expect(layer).toContain('fill="#702082" fill-opacity="0.35" stroke="#702082" stroke-width="2"');
+    // one marker per scored facet, in the segment colour
+    expect(layer.match(/<circle/g)).toHaveLength(3);
+    expect(layer).toContain('fill="#C41E3A" stroke="white"');
+  });
+
+  it('draws a smooth closed curve in smooth mode', () => {
+    const config: DiagramConfig = {
+      ...validConfig,
+      style: { ...DEFAULT_STYLE, scoreShape: 'smooth', polygonMarkerRadius: 0 },
+    };
+    const layer = fills(new SVGRenderer(config).render());
+    expect(layer.match(/ C /g)).toHaveLength(3);
+    expect(layer).not.toContain('<circle');
+  });
+
+  it('overlays one shape per series', () => {
+    const config: DiagramConfig = {
+      ...validConfig,
+      series: [{ key: 'current', color: '#111111' }, { key: 'target', style: 'outline', color: '#222222' }],
+      style: { ...DEFAULT_STYLE, scoreShape: 'polygon' },
+      segments: [
+        {
+          name: 'Seg',
+          color: '#702082',
+          facets: [
+            { name: 'A', scores: { current: 2, target: 4 } },
+            { name: 'B', scores: { current: 3, target: 5 } },
+            { name: 'C', scores: { current: 1, target: 3 } },
+          ],
+        },
+      ],
+    };
+    const layer = fills(new SVGRenderer(config).render());
+    expect(layer).toContain('data-series="current"><path');
+    expect(layer).toContain('fill="none" stroke="#222222"');
+  });
+
+  it('keeps segment bands and rings around the shape', () => {
+    const config: DiagramConfig = {
+      ...validConfig,
+      style: { ...DEFAULT_STYLE, scoreShape: 'polygon' },
+    };
+    const svg = new SVGRenderer(config).render();
+    expect(svg).toContain('class="segment-backgrounds"');
+    expect(svg).toContain('class="segment-labels"');
+    expect(svg).toContain('class="rings"');
+  });
+});
+
+describe('score colour scales', () => {
+  const rag: DiagramConfig['style'] = {
+    ...DEFAULT_STYLE,
+    scoreColorScale: {
+      type: 'threshold',
+      stops: [{ score: 2.5, color: '#cc0000' }, { score: 3.5, color: '#ff9900' }],
+      above: '#009900',
+    },
+  };
+  const fills = (svg: string) => svg.split('<g class="score-fills">')[1].split('</g>')[0];
+
+  it('colours fills by threshold band instead of segment colour', () => {
+    const layer = fills(new SVGRenderer({ ...validConfig, style: rag }).render());
+    // scores 3, 4, 2
+    const colours = [...layer.matchAll(/fill="([^"]+)"/g)].map((m) => m[1]);
+    expect(colours).toEqual(['#ff9900', '#009900', '#cc0000']);
+  });
+
+  it('interpolates fills on a gradient', () => {
+    const config: DiagramConfig = {
+      ...validConfig,
+      style: {
+        ...DEFAULT_STYLE,
+        scoreColorScale: {
+          type: 'gradient',
+          stops: [{ score: 1, color: '#000000' }, { score: 5, color: '#ffffff' }],
+        },
+      },
+    };
+    const layer = fills(new SVGRenderer(config).render());
+    expect(layer).toContain('fill="#808080"'); // score 3 is half way
+  });
+
+  it('leaves labels and figures alone unless asked', () => {
+    const svg = new SVGRenderer({ ...validConfig, style: rag }).render();
+    expect(svg).toContain('class="facet-label" text-anchor');
+  });
+
+  it('optionally colours facet labels and figures by score', () => {
+    const config: DiagramConfig = {
+      ...validConfig,
+      segments: [{ name: 'Seg', color: '#702082', facets: [{ name: 'A', score: 2, figure: '2.0' }] }],
+      style: { ...rag, scoreColorLabels: true, scoreColorFigures: true },
+    };
+    const svg = new SVGRenderer(config).render();
+    expect(svg).toContain('class="facet-label" style="fill: #cc0000"');
+    expect(svg).toMatch(/fill: #cc0000;" text-anchor="middle" dominant-baseline="middle">2\.0<\/text>/);
+  });
+});
+
+describe('diverging scales', () => {
+  const config: DiagramConfig = {
+    ...validConfig,
+    scale: { min: -5, max: 5, rings: 10, baseline: 0 },
+    segments: [{ name: 'Seg', color: '#702082', facets: [{ name: 'Up', score: 2 }, { name: 'Down', score: -4 }] }],
+    style: { ...DEFAULT_STYLE, negativeColor: '#cc0000', baselineColor: '#111111', baselineWidth: 3 },
+  };
+
+  it('colours fills by side of the baseline and draws the baseline ring', () => {
+    const svg = new SVGRenderer(config).render();
+    const layer = svg.split('<g class="score-fills">')[1].split('</g>')[0];
+    expect([...layer.matchAll(/fill="([^"]+)"/g)].map((m) => m[1])).toEqual(['#702082', '#cc0000']);
+    expect(svg).toMatch(/<circle class="baseline" cx="400" cy="400" r="[\d.]+" fill="none" stroke="#111111" stroke-width="3" \/>/);
+  });
+
+  it('draws no baseline ring without scale.baseline', () => {
+    expect(new SVGRenderer(validConfig).render()).not.toContain('class="baseline"');
+  });
+});
+
+describe('score ranges', () => {
+  const config: DiagramConfig = {
+    ...validConfig,
+    segments: [
+      { name: 'Seg', color: '#702082', facets: [{ name: 'A', score: 3, range: { low: 2, high: 4.5 } }, { name: 'B', score: 4 }] },
+    ],
+  };
+  const ranges = (svg: string) => svg.split('<g class="score-ranges">')[1].split('</g>')[0];
+
+  it('draws translucent bands over the score fills by default', () => {
+    const svg = new SVGRenderer({ ...config, style: { ...DEFAULT_STYLE, rangeColor: '#123456' } }).render();
+    expect(svg.indexOf('class="score-ranges"')).toBeGreaterThan(svg.indexOf('class="score-fills"'));
+    expect(ranges(svg)).toMatch(/^<path d="M [^"]+ Z" fill="#123456" fill-opacity="0.25" \/>$/);
+  });
+
+  it('draws capped error bars with rangeStyle bar', () => {
+    const style = { ...DEFAULT_STYLE, rangeStyle: 'bar' as const, rangeWidth: 3 };
+    const bar = ranges(new SVGRenderer({ ...config, style }).render());
+    expect(bar).toMatch(/^<path d="[^"]+" fill="none" stroke="#000000" stroke-width="3" stroke-linecap="round" \/>$/);
+    expect(bar.match(/ A /g)?.length).toBe(2);
+  });
+
+  it('lists the range in the facet tooltip', () => {
+    const svg = new SVGRenderer({ ...config, style: { ...DEFAULT_STYLE, interactive: 'titles' } }).render();
+    expect(svg).toContain('<title>A\nScore: 3\nRange: 2–4.5</title>');
+  });
+
+  it('emits no range layer without facet ranges', () => {
+    expect(new SVGRenderer(validConfig).render()).not.toContain('score-ranges');
+  });
+});
+
+describe('insufficient data', () => {
+  const config: DiagramConfig = {
+    ...validConfig,
+    segments: [{ name: 'Seg', color: '#702082', facets: [{ name: 'A', score: 3 }, { name: 'B', insufficient: true }] }],
+  };
+
+  it('hatches the track of an insufficient facet and labels it, under the score fills', () => {
+    const svg = new SVGRenderer({ ...config, style: { ...DEFAULT_STYLE, idPrefix: 'd', insufficientColor: '#123456' } }).render();
+    const marks = svg.split('<g class="insufficient-data">')[1].split('</g>')[0];
+    expect(marks).toContain('<pattern id="d-insufficient-hatch"');
+    expect(marks).toContain('stroke="#123456"');
+    expect(marks).toMatch(/<path d="M [^"]+ Z" fill="url\(#d-insufficient-hatch\)" fill-opacity="0.5" \/>/);
+    expect(marks).toMatch(/<text [^>]*fill: #123456;[^>]* transform="rotate\([^)]+\)">n\/a<\/text>$/);
+    expect(svg.indexOf('class="insufficient-data"')).toBeLessThan(svg.indexOf('class="score-fills"'));
+  });
+
+  it('omits the text when insufficientText is empty', () => {
+    const svg = new SVGRenderer({ ...config, style: { ...DEFAULT_STYLE, insufficientText: '' } }).render();
+    expect(svg.split('<g class="insufficient-data">')[1].split('</g>')[0]).not.toContain('<text');
+  });
+});
+
+describe('targets', () => {
+  const config: DiagramConfig = {
+    ...validConfig,
+    segments: [{ name: 'Seg', color: '#702082', facets: [{ name: 'A', score: 3, target: 4.5 }, { name: 'B', score: 4 }] }],
+  };
+
+  it('draws target ticks above the score fills', () => {
+    const svg = new SVGRenderer({ ...config, style: { ...DEFAULT_STYLE, targetColor: '#123456', targetWidth: 4 } }).render();
+    const targets = svg.split('<g class="targets">')[1].split('</g>')[0];
+    expect(targets).toMatch(/^<path d="M [^"]+ A [^"]+" fill="none" stroke="#123456" stroke-width="4" \/>$/);
+    expect(svg.indexOf('class="targets"')).toBeGreaterThan(svg.indexOf('class="score-fills"'));
+    expect(svg).not.toContain('target-gaps');
+  });
+
+  it('shades the gap between score and target with showTargetGap', () => {
+    const svg = new SVGRenderer({ ...config, style: { ...DEFAULT_STYLE, showTargetGap: true } }).render();
+    const gaps = svg.split('<g class="target-gaps">')[1].split('</g>')[0];
+    expect(gaps).toMatch(/^<path d="M [^"]+ Z" fill="#d32f2f" fill-opacity="0.35" \/>$/);
+  });
+
+  it('lists the target and gap in the facet tooltip', () => {
+    const svg = new SVGRenderer({ ...config, style: { ...DEFAULT_STYLE, interactive: 'titles' } }).render();
+    expect(svg).toContain('<title>A\nScore: 3\nTarget: 4.5 (gap -1.5)</title>');
+  });
+});
+
+describe('segment groups', () => {
+  it('draws a labelled group band after the segment labels', () => {
+    const config: DiagramConfig = {
+      ...validConfig,
+      groups: [{ name: 'Pillar', color: '#123456', subLabel: 'Core' }],
+      segments: validConfig.segments.map((s) => ({ ...s, group: 'Pillar' })),
+    };
+    const svg = new SVGRenderer(config).render();
+    expect(svg.indexOf('class="group-label-backgrounds"')).toBeGreaterThan(svg.indexOf('class="segment-labels"'));
+    expect(svg).toMatch(/<g class="group-label-backgrounds"><path d="[^"]+" fill="#123456" \/><\/g>/);
+    expect(svg).toMatch(/<text class="segment-label" fill="white" style="font-size: \d+px"><textPath href="#[\w-]+-group-path-0-0" startOffset="50%" text-anchor="middle">Pillar<\/textPath>/);
+    expect(svg).toMatch(/href="#[\w-]+-group-path-0-1" startOffset="50%" text-anchor="middle">Core</);
+    expect(new SVGRenderer(validConfig).render()).not.toContain('group-label');
+  });
+});
+
+describe('interactive output', () => {
+  const described: DiagramConfig = {
+    ...validConfig,
+    segments: [
+      {
+        name: 'Segment One',
+        color: '#E6A817',
+        subLabel: '3.5',
+        facets: [
+          { name: 'Facet A', score: 3, figure: '60%', description: 'How well we plan & prioritise' },
+          { name: 'Facet B' },
+        ],
+      },
+    ],
+  };
+
+  it('emits no hover targets by default', () => {
+    const svg = new SVGRenderer(described).render();
+    expect(svg).not.toContain('<title>');
+    expect(svg).not.toContain('class="hotspots"');
+  });
+
+  it('adds a title and desc for every facet in titles mode', () => {
+    const config = { ...described, style: { ...DEFAULT_STYLE, interactive: 'titles' as const } };
+    const svg = new SVGRenderer(config).render();
+    expect(svg).toContain(
+      'data-segment="0" data-facet="0"><title>Facet A\nScore: 3\nFigure: 60%\nHow well we plan &amp; prioritise</title><desc>How well we plan &amp; prioritise</desc></path>'
+    );
+    expect(svg).toContain('data-segment="0" data-facet="1"><title>Facet B</title></path>');
+    expect(svg).not.toContain('<script');
+  });
+
+  it('adds a hover target per sub-facet ring in sunburst mode', () => {
+    const config: DiagramConfig = {
+      ...described,
+      segments: [{ ...described.segments[0], facets: [{ name: 'Facet A', children: [{ name: 'Sub 1', score: 2 }, { name: 'Sub 2', score: 4 }] }] }],
+      style: { ...DEFAULT_STYLE, interactive: 'titles' },
+    };
+    const svg = new SVGRenderer(config).render();
+    expect(svg).toContain('data-segment="0" data-facet="0"><title>Facet A\nAverage: 3</title></path>');
+    expect(svg).toContain('data-segment="0" data-facet="0" data-child-path="1"><title>Sub 2\nScore: 4</title></path>');
+  });
+
+  it('adds a title for every segment label band', () => {
+    const config = { ...described, style: { ...DEFAULT_STYLE, interactive: 'titles' as const } };
+    const svg = new SVGRenderer(config).render();
+    expect(svg).toContain('class="segment-hotspot"');
+    expect(svg).toContain('<title>Segment One\n3.5</title>');
+  });
+
+  it('lists each series score in the tooltip', () => {
+    const config: DiagramConfig = {
+      ...described,
+      series: [{ key: 'current', label: 'Current' }, { key: 'target' }],
+      segments: [{ name: 'Seg', color: '#000', facets: [{ name: 'A', scores: { current: 2, target: 4 } }] }],
+      style: { ...DEFAULT_STYLE, interactive: 'titles' },
+    };
+    const svg = new SVGRenderer(config).render();
+    expect(svg).toContain('<title>A\nCurrent: 2\ntarget: 4</title>');
+  });
+
+  it('adds hover CSS, a tooltip group and a script in hover mode', () => {
+    const config = { ...described, style: { ...DEFAULT_STYLE, interactive: 'hover' as const, idPrefix: 'w' } };
+    const svg = new SVGRenderer(config).render();
+    expect(svg).toContain('#w .facet-hotspot:hover, #w .segment-hotspot:hover { fill: #ffffff; fill-opacity: 0.25; }');
+    expect(svg).toContain('<g class="rd-tooltip" visibility="hidden" pointer-events="none">');
+    const script = svg.split('<![CDATA[')[1].split(']]>')[0];
+    expect(() => new Function(script)).not.toThrow();
+  });
+});
+
+describe('accessible output', () => {
+  it('emits no ARIA attributes by default', () => {
+    const svg = new SVGRenderer(validConfig).render();
+    expect(svg).not.toContain('role=');
+    expect(svg).not.toContain('<desc');
+  });
+
+  it('labels the root image with a title and auto-generated summary', () => {
+    const config = { ...validConfig, style: { ...DEFAULT_STYLE, accessibility: 'summary' as const, idPrefix: 'rd' } };
+    const svg = new SVGRenderer(config).render();
+    expect(svg).toContain('height="800" role="img" aria-labelledby="rd-title rd-desc">');
+    expect(svg).toContain('<title id="rd-title">Test Hub</title>');
+    expect(svg).toContain(
+      '<desc id="rd-desc">2 dimensions, overall average 3.0, highest: Segment One 3.5, lowest: Segment Two 2.0</desc>'
+    );
+    expect(svg).not.toContain('a11y-structure');
+  });
+
+  it('prefers config.title and escapes markup', () => {
+    const config = {
+      ...validConfig,
+      title: 'Q3 <draft> & "final"',
+      style: { ...DEFAULT_STYLE, accessibility: 'summary' as const, idPrefix: 'rd' },
+    };
+    const svg = new SVGRenderer(config).render();
+    expect(svg).toContain('<title id="rd-title">Q3 &lt;draft&gt; &amp; &quot;final&quot;</title>');
+  });
+
+  it('exposes labelled segment and facet lists in structured mode', () => {
+    const config = { ...validConfig, style: { ...DEFAULT_STYLE, accessibility: 'structured' as const } };
+    const svg = new SVGRenderer(config).render();
+    expect(svg).toMatch(/role="group" aria-labelledby="(rd-[0-9a-z]+)-title \1-desc"/);
+    expect(svg).toContain('<g aria-hidden="true">');
+    expect(svg).toContain('<g class="a11y-structure" role="list" aria-label="Dimensions">');
+    expect(svg).toContain('<g role="listitem" aria-label="Segment One, average 3.5, 2 facets"><g role="list">');
+    expect(svg).toContain('<path role="listitem" aria-label="Facet C: 2 of 5"');
+    expect(svg.match(/<path role="listitem"/g)).toHaveLength(3);
+  });
+
+  it('nests sub-facets in the structured lists', () => {
+    const config: DiagramConfig = {
+      ...validConfig,
+      segments: [
+        { ...validConfig.segments[0], facets: [{ name: 'Facet A', children: [{ name: 'Sub 1', score: 2 }, { name: 'Sub 2', score: 4 }] }] },
+        validConfig.segments[1],
+      ],
+      style: { ...DEFAULT_STYLE, accessibility: 'structured' },
+    };
+    const svg = new SVGRenderer(config).render();
+    const structure = svg.slice(svg.indexOf('class="a11y-structure"'));
+    expect(structure).toMatch(
+      /<g role="listitem" aria-label="Facet A: average 3 of 5"><path d="[^"]+" fill="#000000" fill-opacity="0" pointer-events="none" \/><g role="list"><path role="listitem" aria-label="Sub 1: 2 of 5"[^>]*\/>\n<path role="listitem" aria-label="Sub 2: 4 of 5"[^>]*\/><\/g><\/g>/
+    );
+    expect(structure.match(/role="listitem" aria-label="(Facet|Sub)/g)).toHaveLength(4);
+  });
+});
+
 describe('renderDiagram', () => {
   it('is a convenience function that returns SVG', () => {
     const svg = renderDiagram(validConfig);
@@ -299,3 +857,55 @@ describe('renderDiagram', () => {
     expect(() => renderDiagram(invalidConfig)).toThrow();
   });
 });
+
+describe('id namespacing', () => {
+  const ids = (svg: string) => [...svg.matchAll(/ id="([^"]+)"/g)].map((m) => m[1]);
+  const refs = (svg: string) => [...svg.matchAll(/(?:href="#|url\(#|aria-labelledby=")([^")]+)/g)].flatMap((m) => m[1].split(' '));
+  const everything: DiagramConfig = {
+    ...validConfig,
+    series: [{ key: 'now', style: 'hatched' }],
+    segments: validConfig.segments.map((s) => ({ ...s, facets: s.facets.map((f) => ({ ...f, scores: { now: 2 } })) })),
+    scale: { ...validConfig.scale, ringLabels: ['A', 'B', 'C', 'D', 'E'] },
+    style: {
+      ...DEFAULT_STYLE,
+      showScoreLabels: true,
+      ringLabelPlacement: 'curved',
+      accessibility: 'summary',
+      interactive: 'hover',
+      idPrefix: 'wheel_1',
+    },
+  };
+
+  it('prefixes every id and reference, and scopes the CSS to the root svg', () => {
+    const svg = new SVGRenderer(everything).render();
+    expect(svg).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg" id="wheel_1" /);
+    expect(ids(svg).length).toBeGreaterThan(5);
+    ids(svg).slice(1).forEach((id) => expect(id).toMatch(/^wheel_1-/));
+    refs(svg).forEach((ref) => expect(ids(svg)).toContain(ref));
+    const rules = svg.split('<style>')[1].split('</style>')[0].split('\n').filter((l) => l.includes('{'));
+    rules.forEach((rule) => expect(rule.trim()).toMatch(/^#wheel_1 /));
+  });
+
+  it('defaults to a namespace unique to each diagram', () => {
+    const renderer = new SVGRenderer(validConfig);
+    const a = renderer.render();
+    const b = new SVGRenderer({ ...validConfig, center: { ...validConfig.center, label: 'Other' } }).render();
+    expect(renderer.render()).toBe(a);
+    expect(ids(a)[0]).toMatch(/^rd-[0-9a-z]+$/);
+    expect(ids(a).filter((id) => ids(b).includes(id))).toEqual([]);
+  });
+
+  it('gives the same config the same ids on every render', () => {
+    const config = { ...everything, style: { ...everything.style, idPrefix: undefined } };
+    const first = new SVGRenderer(config).render();
+    expect(new SVGRenderer(config).render()).toBe(first);
+    const second = new SVGRenderer({ ...config, style: { ...config.style, idPrefix: 'second' } }).render();
+    expect(ids(first).filter((id) => ids(second).includes(id))).toEqual([]);
+  });
+
+  it('rejects prefixes that are not valid ids', () => {
+    expect(() => new SVGRenderer({ ...validConfig, style: { ...DEFAULT_STYLE, idPrefix: '1 wheel' } })).toThrow(
+      'style.idPrefix "1 wheel" must start with a letter'
+    );
+  });
+});
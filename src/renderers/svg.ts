@@ -9,57 +9,95 @@
  * LICENSE file in the root directory of this source tree.
  */
 
-import type { DiagramConfig, Segment } from '../core/types.js';
-import { validateConfig } from '../core/types.js';
-import {
-  polarToCartesian,
-  segmentPath,
-  facetAngles,
-  scoreToRadius,
-  ringRadii,
-  segmentAngle,
-} from '../core/geometry.js';
+import type { DiagramConfig, Facet, ValidateOptions } from '../core/types.js';
+import { escapeXml } from '../core/escape.js';
+import { diagramSummary, segmentSummary, facetSummary, primaryScore, targetGap, formatGap } from '../core/summary.js';
+import { segmentSubLabel, facetFigure } from '../core/aggregate.js';
+import type { NestedAngleSpan } from '../core/geometry.js';
+import { polarToCartesian, describeArc, segmentPath, polygonPath, smoothClosedPath } from '../core/geometry.js';
+import { computeLayout } from '../core/layout.js';
+import { roundSvgNumbers, compactSvg } from './compact.js';
+import type { DiagramLayout, SegmentSpan, Wedge, LineMark, RingMark, RangeLayout, TargetLayout, InsufficientLayout, TextLines, SegmentLabelLayout, GroupLabelLayout } from '../core/layout.js';
+
+/** 32-bit FNV-1a hash of the config's JSON, in base 36: the default id namespace. */
+function configHash(config: DiagramConfig): string {
+  const json = JSON.stringify(config);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < json.length; i++) {
+    hash ^= json.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
 
+/**
+ * Serialises the layout from `computeLayout` to an SVG string. All geometry
+ * lives in the layout; this class only turns it into markup, escaping every
+ * text and attribute value. Pass `{ strict: true }` for untrusted configs.
+ */
 export class SVGRenderer {
   private config: DiagramConfig;
+  private layout: DiagramLayout;
   private cx: number;
   private cy: number;
   private outerRadius: number;
-  private padding = 70; // Extra space for labels outside the wheel
-
-  constructor(config: DiagramConfig) {
-    // Validate config before using
-    const validation = validateConfig(config);
-    if (!validation.valid) {
-      throw new Error(`Invalid diagram configuration:\n- ${validation.errors.join('\n- ')}`);
-    }
+  private padding: number; // Extra space for labels outside the wheel
+  private spans: SegmentSpan[];
+  private idPrefix: string; // Root <svg> id; namespaces every other id and the CSS
 
+  constructor(config: DiagramConfig, options?: ValidateOptions) {
+    // Validates the config, throwing on errors
+    this.layout = computeLayout(config, options);
     this.config = config;
-    this.cx = config.size / 2;
-    this.cy = config.size / 2;
-    this.outerRadius = (config.size / 2) * 0.9; // 90% of half-size for padding
+    this.cx = this.layout.center.x;
+    this.cy = this.layout.center.y;
+    this.outerRadius = this.layout.outerRadius;
+    this.padding = this.layout.padding;
+    this.spans = this.layout.spans;
+    this.idPrefix = config.style.idPrefix ?? `rd-${configHash(config)}`;
   }
 
   /**
    * Generate complete SVG string
    */
   render(): string {
+    const layout = this.layout;
     const elements: string[] = [];
 
     // Background
-    if (this.config.style.backgroundColor) {
-      elements.push(this.renderBackground());
+    if (layout.background) {
+      elements.push(this.renderBackground(layout.background));
     }
 
     // Segment backgrounds
     elements.push(this.renderSegmentBackgrounds());
 
+    // Hatched tracks of facets without enough responses — opt-in via facet.insufficient
+    if (layout.insufficient) {
+      elements.push(this.renderInsufficient(layout.insufficient));
+    }
+
     // Score fills for each facet
     elements.push(this.renderScoreFills());
 
+    // Score-to-target gap shading — opt-in via style.showTargetGap
+    if (layout.targets?.gaps) {
+      elements.push(this.renderTargetGaps(layout.targets));
+    }
+
+    // Score ranges over the fills — opt-in via facet.range
+    if (layout.ranges) {
+      elements.push(this.renderRanges(layout.ranges));
+    }
+
+    // Target ticks — opt-in via facet.target
+    if (layout.targets) {
+      elements.push(this.renderTargets(layout.targets));
+    }
+
     // Segment divider lines
-    if (this.config.style.showSegmentDividers) {
-      elements.push(this.renderSegmentDividers());
+    if (layout.segmentDividers) {
+      elements.push(`<g class="segment-dividers">${layout.segmentDividers.map((l) => this.line(l)).join('\n')}</g>`);
     }
 
     // Facet divider lines and points
@@ -71,873 +109,704 @@ export class SVGRenderer {
     // Facet labels
     elements.push(this.renderFacetLabels());
 
-    // Per-facet figures in a ring just outside the hub, opt-in: only pushed
+    // Per-facet figures in a ring just outside the hub, opt-in: only present
     // when at least one facet supplies a `figure`, so configs that don't use
     // the feature keep byte-identical output.
-    if (this.config.segments.some((s) => s.facets.some((f) => f.figure))) {
+    if (layout.figures) {
       elements.push(this.renderFacetFigures());
     }
 
     // Segment labels (on outer ring)
     elements.push(this.renderSegmentLabels());
 
+    // Group labels outside the segment labels — opt-in via config.groups
+    if (layout.groupLabels) {
+      elements.push(this.renderGroupLabels(layout.groupLabels));
+    }
+
     // Rings and score labels render on top of everything
-    if (this.config.style.showRings !== false) {
+    if (layout.rings) {
       elements.push(this.renderRings());
     }
 
-    if (this.config.style.showScoreLabels) {
+    // Baseline ring of a diverging scale — opt-in via scale.baseline.
+    if (layout.baseline) {
+      elements.push(this.renderBaseline(layout.baseline));
+    }
+
+    if (layout.scoreLabels) {
       elements.push(this.renderScoreLabels());
     }
 
     // Flow arrows on top — opt-in via style.flowDirection.
-    if (this.config.style.flowDirection) {
+    if (layout.flow) {
       elements.push(this.renderFlowArrows());
     }
 
-    return this.wrapSVG(elements.join('\n'));
+    // Invisible hover targets carrying <title>/<desc>, above everything so
+    // they catch the pointer — opt-in via style.interactive.
+    if (this.config.style.interactive) {
+      elements.push(this.renderHotspots());
+      if (this.config.style.interactive === 'hover') {
+        elements.push(this.renderTooltip());
+      }
+    }
+
+    // Accessible structure: visual layers hidden from assistive technology,
+    // replaced by labelled segment/facet lists — opt-in via style.accessibility.
+    const svg =
+      this.config.style.accessibility === 'structured'
+        ? this.wrapSVG(`<g aria-hidden="true">${elements.join('\n')}</g>\n${this.renderA11yStructure()}`)
+        : this.wrapSVG(elements.join('\n'));
+
+    // Output size options — opt-in via style.precision / style.compact
+    const { precision, compact } = this.config.style;
+    const rounded = precision === undefined ? svg : roundSvgNumbers(svg, precision);
+    return compact ? compactSvg(rounded, `#${this.idPrefix}`) : rounded;
   }
 
   private wrapSVG(content: string): string {
     const { size, style, center } = this.config;
-    const viewSize = size + this.padding * 2;
+    const { viewSize } = this.layout;
+    // Config values below are written into the <style> block: escaped here,
+    // and kept inside their declarations by validateConfig
     // Support both center.fontSize/fontColor and style.hubFontSize/hubFontColor
-    const hubFontSize = center.fontSize || style.hubFontSize || 14;
-    const hubFontColor = center.fontColor || style.hubFontColor || '#ffffff';
-    const segmentFontSize = style.segmentFontSize || 28;
-    const facetFontSize = style.facetFontSize || 11;
-    const facetFontColor = style.facetFontColor || '#000000';
-    const segmentFontFamily = style.segmentFontFamily || style.fontFamily;
-    const segmentLetterSpacing = style.segmentLetterSpacing ? ` letter-spacing: ${style.segmentLetterSpacing};` : '';
-    const hubFontFamily = center.fontFamily || style.fontFamily;
-    return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${-this.padding} ${-this.padding} ${viewSize} ${viewSize}" width="${size}" height="${size}">
-  <style>
-    .segment-label { font-family: ${segmentFontFamily}; font-weight: bold; font-size: ${segmentFontSize}px; fill: white; dominant-baseline: middle;${segmentLetterSpacing} }
-    .facet-label { font-family: ${style.fontFamily}; font-size: ${facetFontSize}px; font-style: italic; fill: ${facetFontColor}; }
-    .center-label { font-family: ${hubFontFamily}; font-weight: bold; font-size: ${hubFontSize}px; fill: ${hubFontColor}; text-anchor: middle; }
-    .ring-label { font-family: ${style.fontFamily}; font-size: 10px; fill: #666; }
+    const hubFontSize = escapeXml(center.fontSize || style.hubFontSize || 14);
+    const hubFontColor = escapeXml(center.fontColor || style.hubFontColor || '#ffffff');
+    const segmentFontSize = escapeXml(style.segmentFontSize || 28);
+    const facetFontSize = escapeXml(style.facetFontSize || 11);
+    const facetFontColor = escapeXml(style.facetFontColor || '#000000');
+    const fontFamily = escapeXml(style.fontFamily);
+    const segmentFontFamily = escapeXml(style.segmentFontFamily || style.fontFamily);
+    const segmentLetterSpacing = style.segmentLetterSpacing ? ` letter-spacing: ${escapeXml(style.segmentLetterSpacing)};` : '';
+    const hubFontFamily = escapeXml(center.fontFamily || style.fontFamily);
+    const a11y = this.a11yRoot();
+    const scope = `#${this.idPrefix}`;
+    return `<svg xmlns="http://www.w3.org/2000/svg" id="${this.idPrefix}" viewBox="${-this.padding} ${-this.padding} ${viewSize} ${viewSize}" width="${escapeXml(size)}" height="${escapeXml(size)}"${a11y.attrs}>
+${a11y.head}  <style>
+    ${scope} .segment-label { font-family: ${segmentFontFamily}; font-weight: bold; font-size: ${segmentFontSize}px; fill: white; dominant-baseline: middle;${segmentLetterSpacing} }
+    ${scope} .facet-label { font-family: ${fontFamily}; font-size: ${facetFontSize}px; font-style: italic; fill: ${facetFontColor}; }
+    ${scope} .center-label { font-family: ${hubFontFamily}; font-weight: bold; font-size: ${hubFontSize}px; fill: ${hubFontColor}; text-anchor: middle; }
+    ${scope} .ring-label { font-family: ${fontFamily}; font-size: 10px; fill: #666; }${style.interactive === 'hover' ? this.hoverCss(scope) : ''}
   </style>
   ${content}
 </svg>`;
   }
 
-  private renderBackground(): string {
-    const viewSize = this.config.size + this.padding * 2;
-    return `<rect x="${-this.padding}" y="${-this.padding}" width="${viewSize}" height="${viewSize}" fill="${this.config.style.backgroundColor}" />`;
+  /**
+   * Root ARIA attributes plus `<title>`/`<desc>` for `style.accessibility`:
+   * the title is `config.title` (falling back to the hub label) and the desc
+   * is the auto-generated `diagramSummary`. `'summary'` exposes the diagram
+   * as a single image; `'structured'` as a group whose segments and facets
+   * can be walked. Both parts are empty when accessibility is off.
+   */
+  private a11yRoot(): { attrs: string; head: string } {
+    const mode = this.config.style.accessibility;
+    if (!mode) return { attrs: '', head: '' };
+    const title = (this.config.title ?? this.config.center.label).replace(/\n/g, ' ');
+    const role = mode === 'structured' ? 'group' : 'img';
+    return {
+      attrs: ` role="${role}" aria-labelledby="${this.id('title')} ${this.id('desc')}"`,
+      head: `  <title id="${this.id('title')}">${escapeXml(title)}</title>
+  <desc id="${this.id('desc')}">${escapeXml(diagramSummary(this.config))}</desc>
+`,
+    };
   }
 
-  private renderRings(): string {
-    const { scale, center, style } = this.config;
-    const rings = ringRadii(scale.rings, center.radius, this.outerRadius);
-    const elements: string[] = [];
+  /**
+   * Screen-reader structure for `style.accessibility: 'structured'`: a list of
+   * segments, each labelled with its `segmentSummary` and holding a list of
+   * invisible facet wedges labelled with their `facetSummary`. A facet with
+   * `children` is a list item holding its wedge and a nested list of its
+   * sub-facets, each across its own ring.
+   */
+  private renderA11yStructure(): string {
+    const { segments, center } = this.config;
+    const levels = this.layout.levels ?? [center.radius, this.outerRadius];
+
+    const facetItem = (facet: Facet, span: NestedAngleSpan, depth: number): string => {
+      const d = segmentPath(this.cx, this.cy, levels[depth], levels[depth + 1], span.startAngle, span.endAngle);
+      const label = `aria-label="${escapeXml(facetSummary(this.config, facet))}"`;
+      const wedge = `d="${d}" fill="#000000" fill-opacity="0" pointer-events="none"`;
+      if (!facet.children?.length) return `<path role="listitem" ${label} ${wedge} />`;
+      const children = facet.children.map((child, k) => facetItem(child, span.children[k], depth + 1));
+      return `<g role="listitem" ${label}><path ${wedge} /><g role="list">${children.join('\n')}</g></g>`;
+    };
+
+    const items = segments.map((segment, segIndex) => {
+      const span = this.spans[segIndex];
+      const facets = segment.facets.map((facet, facetIndex) => facetItem(facet, span.facets[facetIndex], 0));
+      return `<g role="listitem" aria-label="${escapeXml(segmentSummary(this.config, segIndex))}"><g role="list">${facets.join('\n')}</g></g>`;
+    });
+    return `<g class="a11y-structure" role="list" aria-label="Dimensions">${items.join('\n')}</g>`;
+  }
 
-    const ringColor = style.ringColor || '#cccccc';
-    const ringWidth = style.ringWidth || 1;
-    const ringStyle = style.ringStyle || 'dashed';
-    const dashArray = ringStyle === 'dashed' ? 'stroke-dasharray="4,4"' : '';
+  /** Hover highlight and tooltip rules, only emitted for `style.interactive: 'hover'`. */
+  private hoverCss(scope: string): string {
+    const { style } = this.config;
+    return `
+    ${scope} .facet-hotspot, ${scope} .segment-hotspot { cursor: pointer; }
+    ${scope} .facet-hotspot:hover, ${scope} .segment-hotspot:hover { fill: ${escapeXml(style.hoverHighlightColor ?? '#ffffff')}; fill-opacity: 0.25; }
+    ${scope} .rd-tooltip rect { fill: ${escapeXml(style.tooltipBackground ?? 'rgba(33,33,33,0.92)')}; }
+    ${scope} .rd-tooltip text { font-family: ${escapeXml(style.fontFamily)}; font-size: 12px; fill: ${escapeXml(style.tooltipColor ?? '#ffffff')}; }
+    ${scope} .rd-tooltip .rd-tooltip-title { font-weight: bold; }`;
+  }
 
-    // Draw ring circles
-    rings.forEach((radius, i) => {
-      if (i === 0) return; // Skip innermost (center hub boundary)
-      elements.push(
-        `<circle cx="${this.cx}" cy="${this.cy}" r="${radius}" fill="none" stroke="${ringColor}" stroke-width="${ringWidth}" ${dashArray} />`
-      );
-    });
 
-    return `<g class="rings">${elements.join('\n')}</g>`;
+  // ---------- markup primitives ----------
+
+  /** Document-unique id for an element of this diagram. */
+  private id(name: string): string {
+    return `${this.idPrefix}-${name}`;
   }
 
-  private renderScoreLabels(): string {
-    const { scale, center, style } = this.config;
-    const elements: string[] = [];
+  private wedgePath({ innerRadius, outerRadius, startAngle, endAngle }: Wedge): string {
+    return segmentPath(this.cx, this.cy, innerRadius, outerRadius, startAngle, endAngle);
+  }
 
-    const fontSize = style.scoreLabelFontSize || 14;
-    const fillColor = style.scoreLabelColor || '#ffffff';
-    const strokeColor = style.scoreLabelStrokeColor || '#333333';
+  private line({ from, to, color, width, opacity }: LineMark): string {
+    const faded = opacity !== undefined ? ` opacity="${escapeXml(opacity)}"` : '';
+    return `<line x1="${from.x}" y1="${from.y}" x2="${to.x}" y2="${to.y}" stroke="${escapeXml(color)}" stroke-width="${escapeXml(width)}"${faded} />`;
+  }
 
-    // Add scale labels (1-5) at each ring level, positioned at top
-    const ringStep = (this.outerRadius - center.radius) / scale.rings;
-    for (let i = 0; i < scale.rings; i++) {
-      const label = scale.min + i;
-      const labelRadius = center.radius + ((i + 0.5) * ringStep); // Middle of each band
-      const y = this.cy - labelRadius;
-      // Text with outline for visibility on any background
-      elements.push(
-        `<text x="${this.cx}" y="${y}" font-family="${style.fontFamily}" font-size="${fontSize}px" font-weight="bold" text-anchor="middle" dominant-baseline="middle" fill="${fillColor}" stroke="${strokeColor}" stroke-width="3" paint-order="stroke">${label}</text>`
-      );
-    }
+  private ring({ radius, color, width }: RingMark): string {
+    return `<circle cx="${this.cx}" cy="${this.cy}" r="${radius}" fill="none" stroke="${escapeXml(color)}" stroke-width="${escapeXml(width)}" />`;
+  }
 
-    return `<g class="score-labels">${elements.join('\n')}</g>`;
+  /**
+   * Text content for a label block: the escaped text for one line, or one
+   * `<tspan>` per line, vertically centred on the label position.
+   */
+  private textLines({ lines, position }: TextLines): string {
+    const safeLines = lines.map(escapeXml);
+    if (safeLines.length === 1) return safeLines[0];
+    // First line offset up by half the block height
+    const firstDy = -((safeLines.length - 1) * 0.6);
+    return safeLines
+      .map((line, i) => {
+        const dy = i === 0 ? `${firstDy}em` : '1.2em';
+        return `<tspan x="${position.x}" dy="${dy}">${line}</tspan>`;
+      })
+      .join('');
   }
 
-  private renderSegmentBackgrounds(): string {
-    const { segments, center, startAngle, style } = this.config;
-    const segAngle = segmentAngle(segments.length);
-    const elements: string[] = [];
-    const trackOpacity = style.trackOpacity ?? 0.3;
-    const padded = style.facetPadding !== undefined && style.facetPadding !== null;
-
-    segments.forEach((segment, i) => {
-      const sStart = startAngle + i * segAngle;
-      const sEnd = sStart + segAngle;
-
-      if (padded) {
-        // Per-facet track so the angular gaps show up in the unscored area too.
-        const facetAngleData = facetAngles(sStart, sEnd, segment.facets.length);
-        facetAngleData.forEach(({ startAngle: fStart, endAngle: fEnd }) => {
-          const pad = this.facetPad(fEnd - fStart);
-          const a0 = fStart + pad;
-          const a1 = fEnd - pad;
-          if (a1 <= a0) return;
-          const trackPath = segmentPath(this.cx, this.cy, center.radius, this.outerRadius, a0, a1);
-          elements.push(
-            `<path d="${trackPath}" fill="${segment.color}" opacity="${trackOpacity}" />`
-          );
-        });
-        return;
-      }
+  // ---------- layers ----------
 
-      // Full segment background (lighter shade)
-      const bgPath = segmentPath(
-        this.cx,
-        this.cy,
-        center.radius,
-        this.outerRadius,
-        sStart,
-        sEnd
-      );
-      elements.push(
-        `<path d="${bgPath}" fill="${segment.color}" opacity="${trackOpacity}" />`
-      );
-    });
+  private renderBackground(color: string): string {
+    const { padding, viewSize } = this.layout;
+    return `<rect x="${-padding}" y="${-padding}" width="${viewSize}" height="${viewSize}" fill="${escapeXml(color)}" />`;
+  }
 
-    return `<g class="segment-backgrounds">${elements.join('\n')}</g>`;
+  private renderRings(): string {
+    const rings = this.layout.rings;
+    if (!rings) return '';
+    const dashArray = rings.dashed ? 'stroke-dasharray="4,4"' : '';
+    const elements = rings.radii.map(
+      (radius) =>
+        `<circle cx="${this.cx}" cy="${this.cy}" r="${radius}" fill="none" stroke="${escapeXml(rings.color)}" stroke-width="${escapeXml(rings.width)}" ${dashArray} />`
+    );
+    return `<g class="rings">${elements.join('\n')}</g>`;
   }
 
-  private renderScoreFills(): string {
-    const { segments, center, scale, startAngle, style } = this.config;
-    const segAngle = segmentAngle(segments.length);
-    const elements: string[] = [];
+  private renderBaseline({ radius, color, width }: RingMark): string {
+    return `<circle class="baseline" cx="${this.cx}" cy="${this.cy}" r="${radius}" fill="none" stroke="${escapeXml(color)}" stroke-width="${escapeXml(width)}" />`;
+  }
 
-    segments.forEach((segment, segIndex) => {
-      const segStart = startAngle + segIndex * segAngle;
-      const segEnd = segStart + segAngle;
-      const facetAngleData = facetAngles(segStart, segEnd, segment.facets.length);
-
-      segment.facets.forEach((facet, facetIndex) => {
-        if (facet.score === undefined || facet.score === null) return;
-
-        const { startAngle: rawStart, endAngle: rawEnd } = facetAngleData[facetIndex];
-        const pad = this.facetPad(rawEnd - rawStart);
-        const fStart = rawStart + pad;
-        const fEnd = rawEnd - pad;
-        if (fEnd <= fStart) return;
-        const scoreRadius = scoreToRadius(
-          facet.score,
-          scale.min,
-          scale.max,
-          center.radius,
-          this.outerRadius
-        );
+  private renderScoreLabels(): string {
+    const scoreLabels = this.layout.scoreLabels;
+    if (!scoreLabels) return '';
+    const { placement, fontSize, fontFamily, color, strokeColor } = scoreLabels;
+    const paint = `font-family="${escapeXml(fontFamily)}" font-size="${escapeXml(fontSize)}px" font-weight="bold"`;
+    const outline = `fill="${escapeXml(color)}" stroke="${escapeXml(strokeColor)}" stroke-width="3" paint-order="stroke"`;
+    const defs: string[] = [];
+    const elements: string[] = [];
 
-        const fillPath = segmentPath(
-          this.cx,
-          this.cy,
-          center.radius,
-          scoreRadius,
-          fStart,
-          fEnd
+    scoreLabels.labels.forEach(({ text, radius, position, arc }, i) => {
+      const label = escapeXml(text);
+      if (arc) {
+        const from = polarToCartesian(this.cx, this.cy, radius, arc.fromAngle);
+        const to = polarToCartesian(this.cx, this.cy, radius, arc.toAngle);
+        const pathId = this.id(`ring-label-path-${i}`);
+        defs.push(
+          `<path id="${pathId}" d="M ${from.x} ${from.y} A ${radius} ${radius} 0 0 ${arc.clockwise ? 1 : 0} ${to.x} ${to.y}" fill="none" />`
         );
-
         elements.push(
-          `<path d="${fillPath}" fill="${segment.color}" opacity="${style.facetOpacity}" />`
+          `<text ${paint} dominant-baseline="middle" ${outline}><textPath href="#${pathId}" startOffset="50%" text-anchor="middle">${label}</textPath></text>`
         );
-      });
+        return;
+      }
+      // Text with outline for visibility on any background
+      elements.push(
+        `<text x="${position.x}" y="${position.y}" ${paint} text-anchor="middle" dominant-baseline="middle" ${outline}>${label}</text>`
+      );
     });
 
-    return `<g class="score-fills">${elements.join('\n')}</g>`;
+    if (placement === 'key') {
+      // Side key mapping each ring number to its name, outside the round wheel
+      const rows = scoreLabels.key.map(
+        ({ text, position }) =>
+          `<text x="${position.x}" y="${position.y}" class="ring-label">${escapeXml(text)}</text>`
+      );
+      elements.push(`<g class="ring-label-key">${rows.join('\n')}</g>`);
+    }
+
+    const defsBlock = defs.length > 0 ? `<defs>${defs.join('\n')}</defs>\n` : '';
+    return `<g class="score-labels">${defsBlock}${elements.join('\n')}</g>`;
   }
 
-  private renderSegmentDividers(): string {
-    const { segments, center, startAngle, style } = this.config;
-    const segAngle = segmentAngle(segments.length);
-    const elements: string[] = [];
+  private renderSegmentBackgrounds(): string {
+    const elements = this.layout.tracks.map(
+      (track) => `<path d="${this.wedgePath(track)}" fill="${escapeXml(track.color)}" opacity="${escapeXml(track.opacity)}" />`
+    );
+    return `<g class="segment-backgrounds">${elements.join('\n')}</g>`;
+  }
 
-    segments.forEach((_, i) => {
-      // Suppress the divider at boundaries where a flow arrow already
-      // sits on the band — the line previously appeared to "go through"
-      // the arrow because it kept extending into the wedge area.
-      if (this.hasFlowArrowAt(i, segments.length)) return;
+  /**
+   * `facet.range` marks: translucent bands across the facet span, or error
+   * bars whose end caps span the middle half of it.
+   */
+  private renderRanges({ style, color, opacity, strokeWidth, marks }: RangeLayout): string {
+    const paint = escapeXml(color);
+    const elements = marks.map(({ innerRadius, outerRadius, startAngle, endAngle, midAngle }) => {
+      if (style !== 'bar') {
+        const d = segmentPath(this.cx, this.cy, innerRadius, outerRadius, startAngle, endAngle);
+        return `<path d="${d}" fill="${paint}" fill-opacity="${escapeXml(opacity)}" />`;
+      }
+      const cap = (endAngle - startAngle) / 4;
+      const from = polarToCartesian(this.cx, this.cy, innerRadius, midAngle);
+      const to = polarToCartesian(this.cx, this.cy, outerRadius, midAngle);
+      const d = [
+        describeArc(this.cx, this.cy, innerRadius, midAngle - cap, midAngle + cap),
+        describeArc(this.cx, this.cy, outerRadius, midAngle - cap, midAngle + cap),
+        `M ${from.x} ${from.y} L ${to.x} ${to.y}`,
+      ].join(' ');
+      return `<path d="${d}" fill="none" stroke="${paint}" stroke-width="${escapeXml(strokeWidth)}" stroke-linecap="round" />`;
+    });
+    return `<g class="score-ranges">${elements.join('\n')}</g>`;
+  }
 
-      const angle = startAngle + i * segAngle;
-      const inner = polarToCartesian(this.cx, this.cy, center.radius, angle);
-      const outer = polarToCartesian(this.cx, this.cy, this.outerRadius, angle);
+  /** Hatched tracks of `insufficient` facets, each with its text along the facet. */
+  private renderInsufficient({ color, text, fontSize, fontFamily, marks }: InsufficientLayout): string {
+    const paint = escapeXml(color);
+    const patternId = this.id('insufficient-hatch');
+    const look = `style="font-family: ${escapeXml(fontFamily)}; font-size: ${escapeXml(fontSize)}px; fill: ${paint};"`;
+    const elements = marks.map((mark) => {
+      const d = segmentPath(this.cx, this.cy, mark.innerRadius, mark.outerRadius, mark.startAngle, mark.endAngle);
+      const { position: pos, rotation } = mark;
+      const note = text
+        ? `<text x="${pos.x}" y="${pos.y}" ${look} text-anchor="middle" dominant-baseline="middle" transform="rotate(${rotation}, ${pos.x}, ${pos.y})">${escapeXml(text)}</text>`
+        : '';
+      return `<path d="${d}" fill="url(#${patternId})" fill-opacity="0.5" />${note}`;
+    });
+    return `<g class="insufficient-data"><defs>${this.hatchPattern(patternId, paint)}</defs>\n${elements.join('\n')}</g>`;
+  }
 
-      elements.push(
-        `<line x1="${inner.x}" y1="${inner.y}" x2="${outer.x}" y2="${outer.y}" stroke="${style.segmentDividerColor}" stroke-width="${style.segmentDividerWidth}" />`
-      );
+  /** Wedges between each facet's score and target, in the under / over colour. */
+  private renderTargetGaps({ gaps = [], gapOpacity }: TargetLayout): string {
+    const elements = gaps.map((gap) => {
+      const d = segmentPath(this.cx, this.cy, gap.innerRadius, gap.outerRadius, gap.startAngle, gap.endAngle);
+      return `<path d="${d}" fill="${escapeXml(gap.color)}" fill-opacity="${escapeXml(gapOpacity)}" />`;
     });
+    return `<g class="target-gaps">${elements.join('\n')}</g>`;
+  }
 
-    return `<g class="segment-dividers">${elements.join('\n')}</g>`;
+  /** `facet.target` ticks: arcs across the facet span at the target radius. */
+  private renderTargets({ color, width, marks }: TargetLayout): string {
+    const stroke = `fill="none" stroke="${escapeXml(color)}" stroke-width="${escapeXml(width)}"`;
+    const elements = marks.map(({ radius, startAngle, endAngle }) =>
+      `<path d="${describeArc(this.cx, this.cy, radius, startAngle, endAngle)}" ${stroke} />`
+    );
+    return `<g class="targets">${elements.join('\n')}</g>`;
+  }
+
+  private renderScoreFills(): string {
+    const scores = this.layout.scores;
+    if (scores.shape !== 'wedge') {
+      return this.renderScoreShapes();
+    }
+    const plain = scores.layers[0];
+    if (plain && !plain.series) {
+      const elements = plain.wedges.map(
+        (wedge) => `<path d="${this.wedgePath(wedge)}" fill="${escapeXml(wedge.color)}" opacity="${escapeXml(plain.opacity)}" />`
+      );
+      return `<g class="score-fills">${elements.join('\n')}</g>`;
+    }
+    return this.renderSeriesFills();
   }
 
   /**
-   * True when a flow arrow is rendered at the given segment boundary index.
-   * Boundary 0 is the wrap-around (between segment n-1 and segment 0); the
-   * arrow there is opt-in via `style.flowCloseLoop`. Boundaries 1..n-1 are
-   * the in-between divisions and always carry an arrow when flow is enabled.
-   */
-  /**
-   * Angular inset (degrees per side) for a facet's fill/track, driven by
-   * `style.facetPadding`. Returns 0 when padding is off. `'auto'` mirrors the
-   * mockup formula `min(0.9, facetStepDegrees * 0.06)`; a number is used as-is.
+   * One group per score series, painted in `config.series` order (first at
+   * the bottom), drawn filled, outlined or hatched; hatch patterns are
+   * emitted once per series/colour pair.
    */
-  private facetPad(stepDegrees: number): number {
-    const fp = this.config.style.facetPadding;
-    if (fp === undefined || fp === null) return 0;
-    if (fp === 'auto') return Math.min(0.9, stepDegrees * 0.06);
-    return fp;
+  private renderSeriesFills(): string {
+    const defs: string[] = [];
+    const layers: string[] = [];
+
+    this.layout.scores.layers.forEach((layer, seriesIndex) => {
+      const { mode } = layer;
+      const strokeWidth = escapeXml(layer.strokeWidth);
+      const dash = layer.strokeDasharray ? ` stroke-dasharray="${escapeXml(layer.strokeDasharray)}"` : '';
+      const patternIds = new Map<string, string>();
+
+      const elements = layer.wedges.map((wedge) => {
+        const color = escapeXml(wedge.color);
+        const fillPath = this.wedgePath(wedge);
+        if (mode === 'outline') {
+          return `<path d="${fillPath}" fill="none" stroke="${color}" stroke-width="${strokeWidth}"${dash} stroke-linejoin="round" />`;
+        }
+        if (mode === 'hatched') {
+          let patternId = patternIds.get(color);
+          if (!patternId) {
+            patternId = this.id(`series-hatch-${seriesIndex}-${patternIds.size}`);
+            patternIds.set(color, patternId);
+            defs.push(this.hatchPattern(patternId, color));
+          }
+          return `<path d="${fillPath}" fill="url(#${patternId})" stroke="${color}" stroke-width="${strokeWidth}"${dash} stroke-linejoin="round" />`;
+        }
+        return `<path d="${fillPath}" fill="${color}" />`;
+      });
+
+      const seriesKey = escapeXml(layer.series?.key ?? '');
+      layers.push(
+        `<g class="score-series" data-series="${seriesKey}" opacity="${escapeXml(layer.opacity)}">${elements.join('\n')}</g>`
+      );
+    });
+
+    const defsBlock = defs.length > 0 ? `<defs>${defs.join('\n')}</defs>\n` : '';
+    return `<g class="score-fills">${defsBlock}${layers.join('\n')}</g>`;
   }
 
-  private hasFlowArrowAt(boundaryIndex: number, totalSegments: number): boolean {
-    const style = this.config.style;
-    if (!style.flowDirection) return false;
-    if (boundaryIndex === 0) return !!style.flowCloseLoop;
-    return boundaryIndex >= 1 && boundaryIndex < totalSegments;
+  /** Diagonal hatch `<pattern>` used by `'hatched'` series and `insufficient` facets. */
+  private hatchPattern(id: string, color: string): string {
+    return `<pattern id="${id}" patternUnits="userSpaceOnUse" width="8" height="8" patternTransform="rotate(45)"><line x1="0" y1="0" x2="0" y2="8" stroke="${color}" stroke-width="3" /></pattern>`;
   }
 
-  /**
-   * When flow arrows are enabled, each segment's label is shifted in the flow
-   * direction by half the arrow's tip extent so the label sits centred over
-   * the segment-plus-arrow combined extent. Returns shift in degrees (signed).
-   */
-  private flowLabelShiftDeg(bandMid: number, segAngleDeg: number, arcThickness: number): number {
-    const style = this.config.style;
-    if (!style.flowDirection) return 0;
-    const arrowSize = style.flowArrowSize ?? arcThickness;
-    const rawAngular = (arrowSize / bandMid) * (180 / Math.PI);
-    const tipAngularOffset = Math.min(rawAngular, segAngleDeg * 0.3);
-    const sign = style.flowDirection === 'clockwise' ? 1 : -1;
-    return (tipAngularOffset / 2) * sign;
+  /** Radar shapes for `style.scoreShape` `'polygon'` / `'smooth'`, with vertex markers. */
+  private renderScoreShapes(): string {
+    const defs: string[] = [];
+    const groups: string[] = [];
+
+    this.layout.scores.shapes.forEach((shape, layerIndex) => {
+      const { series, points } = shape;
+      if (points.length === 0) return;
+      const color = escapeXml(shape.color);
+      const dash = shape.strokeDasharray ? ` stroke-dasharray="${escapeXml(shape.strokeDasharray)}"` : '';
+      const markers = shape.markers.map(
+        ({ point, radius, color: markerColor }) =>
+          `<circle cx="${point.x}" cy="${point.y}" r="${escapeXml(radius)}" fill="${escapeXml(markerColor)}" stroke="white" stroke-width="1" />`
+      );
+
+      const d = shape.smooth ? smoothClosedPath(points) : polygonPath(points);
+      let fill = `fill="${color}" fill-opacity="${escapeXml(shape.fillOpacity)}"`;
+      if (shape.mode === 'outline') {
+        fill = 'fill="none"';
+      } else if (shape.mode === 'hatched') {
+        const patternId = this.id(`shape-hatch-${layerIndex}`);
+        defs.push(this.hatchPattern(patternId, color));
+        fill = `fill="url(#${patternId})" fill-opacity="${escapeXml(shape.fillOpacity)}"`;
+      }
+      const seriesAttr = series ? ` data-series="${escapeXml(series.key)}"` : '';
+      groups.push(
+        `<g class="score-shape"${seriesAttr}><path d="${d}" ${fill} stroke="${color}" stroke-width="${escapeXml(shape.strokeWidth)}"${dash} stroke-linejoin="round" />${markers.join('\n')}</g>`
+      );
+    });
+
+    const defsBlock = defs.length > 0 ? `<defs>${defs.join('\n')}</defs>\n` : '';
+    return `<g class="score-fills">${defsBlock}${groups.join('\n')}</g>`;
   }
 
   /**
-   * Draw a chunky wedge-shaped arrow on each segment-to-segment boundary,
-   * indicating flow around the wheel. The arrow lives on the dimension
-   * label band (whichever side `style.segmentLabelPosition` puts it),
-   * coloured to match the source segment by default. Wrap-around
-   * (last → first) is opt-in via `style.flowCloseLoop`. Triggered by
-   * `style.flowDirection` being set.
+   * Chunky wedge-shaped arrows on the segment boundaries of the label band,
+   * indicating flow around the wheel.
    */
   private renderFlowArrows(): string {
-    const { segments, startAngle, style, center } = this.config;
-    const direction = style.flowDirection;
-    if (!direction) return '';
-    const segAngleDeg = segmentAngle(segments.length);
-
-    // Place the arrow on the same band as the dimension labels so it
-    // visually attaches to the source segment. Computed exactly the same
-    // way as renderSegmentLabelsInner / renderSegmentLabelsOuter.
-    const labelPosition = style.segmentLabelPosition || 'outer';
-    const baseFontSize = style.segmentFontSize || 28;
-    const phi = 1.618;
-    const maxLines = Math.max(...segments.map((s) => s.name.split('\n').length));
-    const arcThickness = (baseFontSize * phi) + baseFontSize + (maxLines - 1) * baseFontSize * 1.2;
-    const dividerWidth = style.segmentDividerWidth || 4;
-
-    const bandInner = labelPosition === 'outer'
-      ? this.outerRadius + dividerWidth / 2
-      : center.radius + dividerWidth / 2;
-    const bandOuter = bandInner + arcThickness;
-    const bandMid = (bandInner + bandOuter) / 2;
-
-    // Default: tip extends tangentially by the band's radial thickness, so
-    // the arrow is roughly as long as the segment is "tall".
-    const arrowSize = style.flowArrowSize ?? arcThickness;
-    // Convert pixel length into angular degrees at bandMid; cap so the arrow
-    // never spills more than 30 % of a segment into the neighbour.
-    const rawAngular = (arrowSize / bandMid) * (180 / Math.PI);
-    const tipAngularOffset = Math.min(rawAngular, segAngleDeg * 0.3);
-
-    const closeLoop = !!style.flowCloseLoop;
-    const stroke = style.segmentDividerColor || '#ffffff';
+    const flow = this.layout.flow;
+    if (!flow) return '';
 
     const elements: string[] = [];
-    for (let i = 0; i < segments.length; i++) {
-      if (i === segments.length - 1 && !closeLoop) break;
-      const sourceSeg = segments[i];
-      const fill = style.flowArrowColor || sourceSeg.labelColor || sourceSeg.color;
-
-      const boundaryAngle = startAngle + (i + 1) * segAngleDeg;
-      const sign = direction === 'clockwise' ? 1 : -1;
-      const tipAngle = boundaryAngle + tipAngularOffset * sign;
-
-      const tip       = polarToCartesian(this.cx, this.cy, bandMid, tipAngle);
-      const baseInner = polarToCartesian(this.cx, this.cy, bandInner, boundaryAngle);
-      const baseOuter = polarToCartesian(this.cx, this.cy, bandOuter, boundaryAngle);
-
+    flow.arrows.forEach(({ tip, baseInner, baseOuter, fill }) => {
       // Filled triangle (no stroke — strokes centred on a polygon edge bleed
       // half-width into the interior, which would draw a visible line down
       // the base side of the arrow on top of the fill).
       elements.push(
-        `<polygon points="${tip.x.toFixed(2)},${tip.y.toFixed(2)} ${baseInner.x.toFixed(2)},${baseInner.y.toFixed(2)} ${baseOuter.x.toFixed(2)},${baseOuter.y.toFixed(2)}" fill="${fill}" />`
+        `<polygon points="${tip.x.toFixed(2)},${tip.y.toFixed(2)} ${baseInner.x.toFixed(2)},${baseInner.y.toFixed(2)} ${baseOuter.x.toFixed(2)},${baseOuter.y.toFixed(2)}" fill="${escapeXml(fill)}" />`
       );
       // Outline on the two slanted sides only (baseInner → tip → baseOuter,
       // open polyline so the base edge stays unstroked).
       elements.push(
-        `<polyline points="${baseInner.x.toFixed(2)},${baseInner.y.toFixed(2)} ${tip.x.toFixed(2)},${tip.y.toFixed(2)} ${baseOuter.x.toFixed(2)},${baseOuter.y.toFixed(2)}" fill="none" stroke="${stroke}" stroke-width="${dividerWidth}" stroke-linejoin="round" />`
+        `<polyline points="${baseInner.x.toFixed(2)},${baseInner.y.toFixed(2)} ${tip.x.toFixed(2)},${tip.y.toFixed(2)} ${baseOuter.x.toFixed(2)},${baseOuter.y.toFixed(2)}" fill="none" stroke="${escapeXml(flow.strokeColor)}" stroke-width="${escapeXml(flow.strokeWidth)}" stroke-linejoin="round" />`
       );
-    }
+    });
 
     return `<g class="flow-arrows">${elements.join('\n')}</g>`;
   }
 
   private renderFacetDividers(): string {
-    const { segments, center, startAngle, style } = this.config;
-    const segAngle = segmentAngle(segments.length);
     const elements: string[] = [];
-
-    segments.forEach((segment, segIndex) => {
-      const segStart = startAngle + segIndex * segAngle;
-      const segEnd = segStart + segAngle;
-      const facetAngleData = facetAngles(segStart, segEnd, segment.facets.length);
-
-      // Draw dividers between facets (skip first one which is segment divider).
-      // `showFacetDividers` opts into a configurable style; false hides them;
-      // unset keeps the original faint separators for backward compatibility.
-      if (style.showFacetDividers !== false) {
-        const useConfigured = style.showFacetDividers === true;
-        const dividerAttrs = useConfigured
-          ? `stroke="${style.facetDividerColor ?? 'rgba(255,255,255,0.7)'}" stroke-width="${style.facetDividerWidth ?? 1.4}"`
-          : `stroke="${style.segmentDividerColor}" stroke-width="1" opacity="0.5"`;
-        facetAngleData.forEach((facet, facetIndex) => {
-          if (facetIndex === 0) return; // First facet starts at segment boundary
-
-          const inner = polarToCartesian(this.cx, this.cy, center.radius, facet.startAngle);
-          const outer = polarToCartesian(this.cx, this.cy, this.outerRadius, facet.startAngle);
-
-          elements.push(
-            `<line x1="${inner.x}" y1="${inner.y}" x2="${outer.x}" y2="${outer.y}" ${dividerAttrs} />`
-          );
-        });
-      }
-
-      // Draw facet points if enabled
-      if (style.showFacetPoints && style.facetPointStyle !== 'none') {
-        facetAngleData.forEach((facetData) => {
-          const pointRadius = style.facetPointStyle === 'circle' ? 6 : 3;
-          const arcRadius = this.outerRadius - 20; // Position points near outer edge
-
-          const point = polarToCartesian(this.cx, this.cy, arcRadius, facetData.midAngle);
-
-          elements.push(
-            `<circle cx="${point.x}" cy="${point.y}" r="${pointRadius}" fill="white" stroke="${style.segmentDividerColor}" stroke-width="1" />`
-          );
-        });
-      }
+    this.layout.facetDividers.forEach(({ lines, points }) => {
+      lines.forEach((l) => elements.push(this.line(l)));
+      points.forEach(({ center, radius, stroke }) => {
+        elements.push(
+          `<circle cx="${center.x}" cy="${center.y}" r="${escapeXml(radius)}" fill="white" stroke="${escapeXml(stroke)}" stroke-width="1" />`
+        );
+      });
     });
-
     return `<g class="facet-dividers">${elements.join('\n')}</g>`;
   }
 
   private renderCenterHub(): string {
-    const { center, style } = this.config;
-
-    // Check if hub should be visible (default true)
-    if (center.visible === false) {
-      return '';
-    }
+    const hub = this.layout.hub;
+    if (!hub) return '';
 
     const elements: string[] = [];
-    const borderWidth = center.borderWidth || 0;
-    const borderColor = center.borderColor || '#ffffff';
-
     // Hub circle with optional border
-    if (borderWidth > 0) {
+    const border = hub.borderWidth > 0 ? ` stroke="${escapeXml(hub.borderColor)}" stroke-width="${escapeXml(hub.borderWidth)}"` : '';
+    elements.push(`<circle cx="${this.cx}" cy="${this.cy}" r="${escapeXml(hub.radius)}" fill="${escapeXml(hub.color)}"${border} />`);
+
+    hub.lines.forEach(({ text, position }) => {
       elements.push(
-        `<circle cx="${this.cx}" cy="${this.cy}" r="${center.radius}" fill="${center.color}" stroke="${borderColor}" stroke-width="${borderWidth}" />`
+        `<text x="${position.x}" y="${position.y}" class="center-label" style="font-size: ${escapeXml(hub.fontSize)}px" dominant-baseline="middle">${escapeXml(text)}</text>`
       );
-    } else {
+    });
+    if (hub.subtitle) {
+      const { text, position, fontSize } = hub.subtitle;
       elements.push(
-        `<circle cx="${this.cx}" cy="${this.cy}" r="${center.radius}" fill="${center.color}" />`
+        `<text x="${position.x}" y="${position.y}" class="center-label center-subtitle" style="font-size: ${escapeXml(fontSize)}px; font-weight: normal" dominant-baseline="middle">${escapeXml(text)}</text>`
       );
     }
 
-    // Hub label (split on \n for multiple lines)
-    const lines = center.label.split('\n').map((s) => s.trim());
-
-    // Auto-scale font to fit hub (scales up or down)
-    const availableWidth = center.radius * 1.6; // Use 80% of diameter
-    const maxLineLength = Math.max(...lines.map((l) => l.length));
-    const scaledFontSize = Math.floor(availableWidth / (maxLineLength * 0.6));
-    const lineHeight = scaledFontSize * 1.2;
-
-    const startY = this.cy - ((lines.length - 1) * lineHeight) / 2;
-    lines.forEach((line, i) => {
-      const safe = line.replace(/&/g, '&amp;');
-      const y = startY + i * lineHeight;
-      elements.push(
-        `<text x="${this.cx}" y="${y}" class="center-label" style="font-size: ${scaledFontSize}px" dominant-baseline="middle">${safe}</text>`
-      );
-    });
-
     return `<g class="center-hub">${elements.join('\n')}</g>`;
   }
 
+  /**
+   * Radial facet labels. Default labels take their look from the
+   * `.facet-label` class (score-coloured ones override the fill inline);
+   * outer-edge labels carry their full text style inline.
+   */
   private renderFacetLabels(): string {
-    if (this.config.style.facetLabelPlacement === 'outer-edge') {
-      return this.renderFacetLabelsOuterEdge();
-    }
-    const { segments, center, startAngle } = this.config;
-    const segAngle = segmentAngle(segments.length);
-    const elements: string[] = [];
-    const labelRadius = this.outerRadius - 20;
-
-    segments.forEach((segment, segIndex) => {
-      const segStart = startAngle + segIndex * segAngle;
-      const segEnd = segStart + segAngle;
-      const segMid = (segStart + segEnd) / 2;
-      const facetAngleData = facetAngles(segStart, segEnd, segment.facets.length);
-
-      // Determine orientation based on SEGMENT mid-angle (same for all facets in segment)
-      const normalizedSegMid = ((segMid % 360) + 360) % 360;
-
-      // Flip for readability in bottom half (90, 270]
-      const needsFlip = normalizedSegMid > 90 && normalizedSegMid <= 270;
-      const rotationOffset = needsFlip ? 180 : 0;
-
-      // Anchor: 'end' for top half (text reads inner to outer)
-      //         'start' for bottom half (text reads outer to inner)
-      const isTopHalf = normalizedSegMid <= 90 || normalizedSegMid > 270;
-      const anchor = isTopHalf ? 'end' : 'start';
-
-      segment.facets.forEach((facet, facetIndex) => {
-        const { midAngle } = facetAngleData[facetIndex];
-        const rotation = midAngle + rotationOffset;
-        const pos = polarToCartesian(this.cx, this.cy, labelRadius, midAngle);
-
-        // Escape & for valid XML, then split on \n for multi-line labels
-        const safeName = facet.name.replace(/&/g, '&amp;');
-        const lines = safeName.split('\n');
-        let inner: string;
-        if (lines.length === 1) {
-          inner = safeName;
-        } else {
-          // Vertically centre the block: first line offset up by half the block height
-          const firstDy = -((lines.length - 1) * 0.6);
-          inner = lines
-            .map((line, i) => {
-              const dy = i === 0 ? `${firstDy}em` : '1.2em';
-              return `<tspan x="${pos.x}" dy="${dy}">${line}</tspan>`;
-            })
-            .join('');
-        }
-        elements.push(
-          `<text x="${pos.x}" y="${pos.y}" class="facet-label" text-anchor="${anchor}" dominant-baseline="middle" transform="rotate(${rotation}, ${pos.x}, ${pos.y})">${inner}</text>`
-        );
-      });
+    const { placement, labels } = this.layout.facetLabels;
+    const fontSize = escapeXml(this.layout.facetLabels.fontSize);
+    const fontFamily = escapeXml(this.layout.facetLabels.fontFamily);
+    const fontWeight = escapeXml(this.layout.facetLabels.fontWeight);
+    const letterSpacing = escapeXml(this.layout.facetLabels.letterSpacing);
+    const elements = labels.map((label) => {
+      const { position: pos, rotation, anchor } = label;
+      let look: string;
+      if (placement === 'outer-edge') {
+        look = ` style="font-family: ${fontFamily}; font-size: ${fontSize}px; font-weight: ${fontWeight}; letter-spacing: ${letterSpacing}; fill: ${escapeXml(label.color)};"`;
+      } else {
+        look = ` class="facet-label"${label.scoreColored ? ` style="fill: ${escapeXml(label.color)}"` : ''}`;
+      }
+      return `<text x="${pos.x}" y="${pos.y}"${look} text-anchor="${anchor}" dominant-baseline="middle" transform="rotate(${rotation}, ${pos.x}, ${pos.y})">${this.textLines(label)}</text>`;
     });
-
     return `<g class="facet-labels">${elements.join('\n')}</g>`;
   }
 
   /**
-   * Split a facet label into at most two balanced lines. An explicit `\n`
-   * always wins. Otherwise a multi-word label is split at the point that makes
-   * the two lines' character counts as even as possible, with one rule: a lone
-   * "&" never starts the second line, so a trailing "&" stays with the word
-   * before it (e.g. "DIRECTION &" / "PURPOSE"). Single-word labels stay on one
-   * line.
+   * Tooltip text for a facet, one entry per line: name, score (or one line
+   * per series score), range, target, figure and description. Lines are unescaped.
    */
-  private wrapFacetLabel(name: string): string[] {
-    if (name.includes('\n')) return name.split('\n');
-    const words = name.split(' ').filter((w) => w.length > 0);
-    if (words.length <= 1) return [name];
-
-    let bestSplit = -1;
-    let bestDiff = Infinity;
-    for (let k = 1; k < words.length; k++) {
-      if (words[k] === '&') continue; // "&" must not begin line two
-      const line1 = words.slice(0, k).join(' ');
-      const line2 = words.slice(k).join(' ');
-      const diff = Math.abs(line1.length - line2.length);
-      if (diff < bestDiff) {
-        bestDiff = diff;
-        bestSplit = k;
-      }
+  private facetTooltipLines(facet: Facet): string[] {
+    const lines = [facet.name.replace(/\n/g, ' ')];
+    const series = this.config.series;
+    if (series && series.length > 0) {
+      series.forEach((s) => {
+        const value = facet.scores?.[s.key];
+        if (value !== undefined && value !== null) lines.push(`${s.label ?? s.key}: ${value}`);
+      });
+    } else if (facet.score !== undefined && facet.score !== null) {
+      lines.push(`Score: ${facet.score}`);
+    } else {
+      const rolled = primaryScore(facet, undefined, this.config.scale.rollup);
+      if (rolled !== undefined) lines.push(`Average: ${Number(rolled.toFixed(2))}`);
     }
-    if (bestSplit === -1) return [name];
-    return [words.slice(0, bestSplit).join(' '), words.slice(bestSplit).join(' ')];
+    if (facet.range) lines.push(`Range: ${facet.range.low}–${facet.range.high}`);
+    if (facet.target !== undefined && facet.target !== null) {
+      const gap = targetGap(facet, this.config.series, this.config.scale.rollup);
+      lines.push(`Target: ${facet.target}` + (gap === undefined ? '' : ` (gap ${formatGap(gap)})`));
+    }
+    if (facet.figure) lines.push(`Figure: ${facetFigure(this.config, facet)}`);
+    if (facet.description) lines.push(facet.description);
+    return lines;
   }
 
   /**
-   * Facet labels read radially along the outer edge of each petal,
-   * right-aligned to the coloured band and kept upright on every side.
-   * Uppercase / weight / letter-spacing / two-line balanced wrap are all
-   * driven by `style.facetLabel*`. Triggered by
-   * `style.facetLabelPlacement === 'outer-edge'`.
+   * Transparent hover targets for every facet wedge (hub edge to outer edge;
+   * in sunburst mode, one per facet and sub-facet across its ring) and every
+   * segment label band, each carrying a `<title>` (all tooltip lines, so
+   * native browser tooltips show everything) and, when there is one, a
+   * `<desc>` with the description. `data-segment` / `data-facet` (plus
+   * `data-child-path`, e.g. `"0.2"`, for sub-facets) identify the target for
+   * scripts.
    */
-  private renderFacetLabelsOuterEdge(): string {
-    const { segments, startAngle, style } = this.config;
-    const segAngle = segmentAngle(segments.length);
-    const elements: string[] = [];
-
-    const gap = 10;
-    const labelRadius = this.outerRadius - gap;
-    const fontSize = style.facetFontSize || 11;
-    const fontFamily = style.fontFamily;
-    const color = style.facetFontColor || '#555555';
-    const weight = style.facetLabelWeight ?? 700;
-    const letterSpacing = style.facetLabelLetterSpacing ?? '0.04em';
-    const uppercase = style.facetLabelUppercase ?? true;
-    const wrap = style.facetLabelWrap ?? true;
-    const textStyle =
-      `font-family: ${fontFamily}; font-size: ${fontSize}px; ` +
-      `font-weight: ${weight}; letter-spacing: ${letterSpacing}; fill: ${color};`;
+  private renderHotspots(): string {
+    const { segments, center } = this.config;
+    const esc = escapeXml;
+    const facetTargets: string[] = [];
+    const segmentTargets: string[] = [];
+    const band = this.layout.segmentLabels;
+    const levels = this.layout.levels ?? [center.radius, this.outerRadius];
+
+    const facetTarget = (segIndex: number, facetIndex: number, path: number[], facet: Facet, span: NestedAngleSpan): void => {
+      const d = segmentPath(this.cx, this.cy, levels[path.length], levels[path.length + 1], span.startAngle, span.endAngle);
+      const desc = facet.description ? `<desc>${esc(facet.description)}</desc>` : '';
+      const childPath = path.length > 0 ? ` data-child-path="${path.join('.')}"` : '';
+      facetTargets.push(
+        `<path class="facet-hotspot" d="${d}" fill="#000000" fill-opacity="0" data-segment="${segIndex}" data-facet="${facetIndex}"${childPath}><title>${esc(this.facetTooltipLines(facet).join('\n'))}</title>${desc}</path>`
+      );
+      facet.children?.forEach((child, k) => facetTarget(segIndex, facetIndex, [...path, k], child, span.children[k]));
+    };
 
     segments.forEach((segment, segIndex) => {
-      const segStart = startAngle + segIndex * segAngle;
-      const segEnd = segStart + segAngle;
-      const segMid = (segStart + segEnd) / 2;
-      const facetAngleData = facetAngles(segStart, segEnd, segment.facets.length);
-
-      const normalizedSegMid = ((segMid % 360) + 360) % 360;
-      const needsFlip = normalizedSegMid > 90 && normalizedSegMid <= 270;
-      const rotationOffset = needsFlip ? 180 : 0;
-      const isTopHalf = normalizedSegMid <= 90 || normalizedSegMid > 270;
-      const anchor = isTopHalf ? 'end' : 'start';
-
-      segment.facets.forEach((facet, facetIndex) => {
-        const { midAngle } = facetAngleData[facetIndex];
-        const rotation = midAngle + rotationOffset;
-        const pos = polarToCartesian(this.cx, this.cy, labelRadius, midAngle);
-
-        const displayName = uppercase ? facet.name.toUpperCase() : facet.name;
-        const lines = wrap
-          ? this.wrapFacetLabel(displayName)
-          : displayName.split('\n');
-        const safeLines = lines.map((l) => l.replace(/&/g, '&amp;'));
-
-        let inner: string;
-        if (safeLines.length === 1) {
-          inner = safeLines[0];
-        } else {
-          const firstDy = -((safeLines.length - 1) * 0.6);
-          inner = safeLines
-            .map((line, i) => {
-              const dy = i === 0 ? `${firstDy}em` : '1.2em';
-              return `<tspan x="${pos.x}" dy="${dy}">${line}</tspan>`;
-            })
-            .join('');
-        }
-
-        elements.push(
-          `<text x="${pos.x}" y="${pos.y}" style="${textStyle}" text-anchor="${anchor}" dominant-baseline="middle" transform="rotate(${rotation}, ${pos.x}, ${pos.y})">${inner}</text>`
-        );
-      });
+      const span = this.spans[segIndex];
+      segment.facets.forEach((facet, facetIndex) => facetTarget(segIndex, facetIndex, [], facet, span.facets[facetIndex]));
+
+      const segLines = [segment.name.replace(/\n/g, ' ')];
+      if (segment.subLabel) segLines.push(segmentSubLabel(this.config, segIndex) as string);
+      const d = segmentPath(this.cx, this.cy, band.innerRadius, band.outerRadius, span.startAngle, span.endAngle);
+      segmentTargets.push(
+        `<path class="segment-hotspot" d="${d}" fill="#000000" fill-opacity="0" data-segment="${segIndex}"><title>${esc(segLines.join('\n'))}</title></path>`
+      );
     });
 
-    return `<g class="facet-labels">${elements.join('\n')}</g>`;
+    return `<g class="hotspots">${facetTargets.join('\n')}\n${segmentTargets.join('\n')}</g>`;
   }
 
   /**
-   * Small figure per facet (raw score or percentage) in a tidy ring just
-   * outside the centre hub, at each facet's mid-angle. Regular weight, no
-   * circle/ring/background. Optionally rotated to follow the spoke.
-   * Only invoked when at least one facet supplies a `figure`.
+   * Styled tooltip for `style.interactive: 'hover'`: a hidden group plus a
+   * small inline script that fills it from the hovered target's `<title>`
+   * lines and follows the pointer. The script moves each `<title>` into an
+   * `aria-label` so the native tooltip does not double up. Scripts only run
+   * when the SVG is part of the page, opened directly or in an `<object>`,
+   * not via `<img>`, `innerHTML` or a shadow root (use `bindTooltip` there);
+   * the `<title>` tooltips still work everywhere.
    */
-  private renderFacetFigures(): string {
-    const { segments, center, startAngle, style } = this.config;
-    const segAngle = segmentAngle(segments.length);
-    const elements: string[] = [];
-
-    const fontSize = style.facetFigureFontSize ?? 12;
-    const color = style.facetFigureColor ?? '#555555';
-    const fontFamily = style.fontFamily;
-    const gap = style.facetFigureGap ?? fontSize;
-    const figureRadius = center.radius + gap;
-    const rotate = style.facetFigureRotate ?? false;
+  private renderTooltip(): string {
+    const script = `(function () {
+  var svg = document.currentScript && document.currentScript.ownerSVGElement;
+  if (!svg) return;
+  var ns = 'http://www.w3.org/2000/svg';
+  var tip = svg.querySelector('.rd-tooltip');
+  var box = tip.querySelector('rect');
+  var text = tip.querySelector('text');
+  function show(lines, evt) {
+    while (text.firstChild) text.removeChild(text.firstChild);
+    lines.forEach(function (line, i) {
+      var t = document.createElementNS(ns, 'tspan');
+      t.setAttribute('x', '8');
+      t.setAttribute('dy', i === 0 ? '1.1em' : '1.3em');
+      if (i === 0) t.setAttribute('class', 'rd-tooltip-title');
+      t.textContent = line;
+      text.appendChild(t);
+    });
+    tip.setAttribute('visibility', 'visible');
+    var bb = text.getBBox();
+    box.setAttribute('width', String(bb.width + 16));
+    box.setAttribute('height', String(bb.height + 10));
+    var pt = svg.createSVGPoint();
+    pt.x = evt.clientX;
+    pt.y = evt.clientY;
+    var p = pt.matrixTransform(svg.getScreenCTM().inverse());
+    tip.setAttribute('transform', 'translate(' + (p.x + 14) + ',' + (p.y + 14) + ')');
+  }
+  svg.querySelectorAll('.facet-hotspot, .segment-hotspot').forEach(function (el) {
+    var title = el.querySelector('title');
+    if (!title) return;
+    var lines = title.textContent.split('\\n');
+    el.setAttribute('aria-label', lines.join('. '));
+    el.removeChild(title);
+    el.addEventListener('mousemove', function (evt) { show(lines, evt); });
+    el.addEventListener('mouseleave', function () { tip.setAttribute('visibility', 'hidden'); });
+  });
+})();`;
+    return `<g class="rd-tooltip" visibility="hidden" pointer-events="none"><rect rx="4" ry="4" /><text y="2"></text></g>
+<script type="text/javascript"><![CDATA[
+${script}
+]]></script>`;
+  }
 
-    segments.forEach((segment, segIndex) => {
-      const segStart = startAngle + segIndex * segAngle;
-      const segEnd = segStart + segAngle;
-      const facetAngleData = facetAngles(segStart, segEnd, segment.facets.length);
-
-      segment.facets.forEach((facet, facetIndex) => {
-        if (facet.figure === undefined || facet.figure === null || facet.figure === '') return;
-        const { midAngle } = facetAngleData[facetIndex];
-        const pos = polarToCartesian(this.cx, this.cy, figureRadius, midAngle);
-        const safe = String(facet.figure).replace(/&/g, '&amp;');
-
-        let transform = '';
-        if (rotate) {
-          const norm = ((midAngle % 360) + 360) % 360;
-          const rotation = midAngle + (norm > 90 && norm <= 270 ? 180 : 0);
-          transform = ` transform="rotate(${rotation}, ${pos.x}, ${pos.y})"`;
-        }
 
-        elements.push(
-          `<text x="${pos.x}" y="${pos.y}" style="font-family: ${fontFamily}; font-size: ${fontSize}px; font-weight: normal; fill: ${color};" text-anchor="middle" dominant-baseline="middle"${transform}>${safe}</text>`
-        );
-      });
+  /** Small figure per facet in a ring just outside the centre hub. */
+  private renderFacetFigures(): string {
+    const figures = this.layout.figures;
+    if (!figures) return '';
+    const fontSize = escapeXml(figures.fontSize);
+    const fontFamily = escapeXml(figures.fontFamily);
+
+    const elements = figures.figures.map(({ text, position: pos, rotation, color }) => {
+      const transform = rotation !== undefined ? ` transform="rotate(${rotation}, ${pos.x}, ${pos.y})"` : '';
+      return `<text x="${pos.x}" y="${pos.y}" style="font-family: ${fontFamily}; font-size: ${fontSize}px; font-weight: normal; fill: ${escapeXml(color)};" text-anchor="middle" dominant-baseline="middle"${transform}>${escapeXml(text)}</text>`;
     });
 
     return `<g class="facet-figures">${elements.join('\n')}</g>`;
   }
 
+  /** The curved segment-label band (see `renderLabelBand`). */
   private renderSegmentLabels(): string {
-    if ((this.config.style.segmentLabelPosition || 'outer') === 'inner') {
-      return this.renderSegmentLabelsInner();
-    }
-    return this.renderSegmentLabelsOuter();
+    return this.renderLabelBand(this.layout.segmentLabels, 'segment');
   }
 
-  private renderSegmentLabelsInner(): string {
-    const { segments, startAngle, style, center } = this.config;
-    const segAngle = segmentAngle(segments.length);
-    const defs: string[] = [];
-    const backgrounds: string[] = [];
-    const dividers: string[] = [];
-    const texts: string[] = [];
-
-    // Same band sizing as the outer mode (golden-ratio thickness), but anchored
-    // to the centre hub edge instead of the outer wheel edge.
-    const baseFontSize = style.segmentFontSize || 28;
-    const phi = 1.618;
-    const maxLines = Math.max(...segments.map((s) => s.name.split('\n').length));
-    // When any segment carries a sub-label, reserve one sub-line-height of
-    // extra band so the name block plus sub-label stays inside the band.
-    const anySub = segments.some((s) => s.subLabel);
-    const subFontScale = style.segmentSubLabelFontScale ?? 0.62;
-    const subBand = anySub ? baseFontSize * subFontScale * 1.2 : 0;
-    // Single-line band uses golden-ratio padding around the line.
-    // Each extra line adds one line-height (1.2× fontSize).
-    const arcThickness = (baseFontSize * phi) + baseFontSize + (maxLines - 1) * baseFontSize * 1.2 + subBand;
-    const dividerWidth = style.segmentDividerWidth || 4;
-
-    const innerLabelRadius = center.radius + (dividerWidth / 2);
-    const outerLabelRadius = innerLabelRadius + arcThickness;
-    const textRadius = innerLabelRadius + (arcThickness / 2);
-
-    const scaledFontSize = this.scaleSegmentFontSize(segments, segAngle, textRadius, baseFontSize);
-    const subFontSize = anySub ? Math.floor(scaledFontSize * subFontScale) : 0;
-    const flowShiftDeg = this.flowLabelShiftDeg(textRadius, segAngle, arcThickness);
-
-    segments.forEach((segment, i) => {
-      const segStart = startAngle + i * segAngle;
-      const segEnd = segStart + segAngle;
-      const midAngle = (segStart + segEnd) / 2;
-      const pathId = `segment-path-${i}`;
-
-      // Solid coloured arc band sitting on the wedge's inner edge
-      const bgPath = segmentPath(
-        this.cx, this.cy,
-        innerLabelRadius, outerLabelRadius,
-        segStart, segEnd
-      );
-      backgrounds.push(`<path d="${bgPath}" fill="${segment.labelColor || segment.color}" />`);
-
-      // Radial dividers between segments along the band — skipped where a
-      // flow arrow already sits, so it doesn't re-introduce the line that
-      // appears to cut through the arrow.
-      if (style.showSegmentDividers && !this.hasFlowArrowAt(i, segments.length)) {
-        const inner = polarToCartesian(this.cx, this.cy, innerLabelRadius, segStart);
-        const outer = polarToCartesian(this.cx, this.cy, outerLabelRadius, segStart);
-        dividers.push(
-          `<line x1="${inner.x}" y1="${inner.y}" x2="${outer.x}" y2="${outer.y}" stroke="${style.segmentDividerColor}" stroke-width="${style.segmentDividerWidth}" />`
-        );
-      }
-
-      this.emitSegmentLabelLines(defs, texts, pathId, segStart, segEnd, midAngle, textRadius, scaledFontSize, segment.name, flowShiftDeg, segment.subLabel, subFontSize);
-    });
-
-    // Ring dividers on both edges of the inner band: one between the band and
-    // the centre hub, one between the band and the facet area.
-    const ringDividers = style.showSegmentDividers
-      ? [
-          `<circle cx="${this.cx}" cy="${this.cy}" r="${innerLabelRadius}" fill="none" stroke="${style.segmentDividerColor}" stroke-width="${dividerWidth}" />`,
-          `<circle cx="${this.cx}" cy="${this.cy}" r="${outerLabelRadius}" fill="none" stroke="${style.segmentDividerColor}" stroke-width="${dividerWidth}" />`,
-        ].join('\n')
-      : '';
-
-    return `<defs>${defs.join('\n')}</defs>\n<g class="segment-label-backgrounds">${backgrounds.join('\n')}</g>\n${ringDividers}\n<g class="segment-label-dividers">${dividers.join('\n')}</g>\n<g class="segment-labels">${texts.join('\n')}</g>`;
-  }
-
-  /** Scale segment font size to fit the longest single line within a segment's arc. */
-  private scaleSegmentFontSize(
-    segments: Segment[],
-    segAngle: number,
-    textRadius: number,
-    baseFontSize: number
-  ): number {
-    const arcLength = textRadius * (segAngle - 6) * (Math.PI / 180);
-    const longestLineLength = Math.max(
-      ...segments.flatMap((s) => s.name.split('\n').map((l) => l.length))
-    );
-    const estTextWidth = (longestLineLength + 1) * baseFontSize * 0.6;
-    return estTextWidth > arcLength
-      ? Math.floor(baseFontSize * (arcLength / estTextWidth))
-      : baseFontSize;
+  /** The group-label band (`config.groups`), drawn like the segment-label band. */
+  private renderGroupLabels(groupLabels: GroupLabelLayout): string {
+    return this.renderLabelBand({ ...groupLabels, position: 'outer' }, 'group');
   }
 
   /**
-   * Emit one or more textPath rows for a segment label. When `name` contains
-   * `\n`, each line is rendered on its own arc at a different radius within
-   * the band, stacked along the radial axis.
+   * A curved label band, segment or group: coloured arcs, ring and radial
+   * dividers, then one textPath row per label line (see `SegmentLabelLayout`),
+   * each following its own arc path in `defs`. The outer band's ring divider
+   * sits under the arcs; the inner band's two rings sit above them. `kind`
+   * prefixes the class names and path ids.
    */
-  private emitSegmentLabelLines(
-    defs: string[],
-    texts: string[],
-    pathIdBase: string,
-    segStart: number,
-    segEnd: number,
-    midAngle: number,
-    textRadius: number,
-    fontSize: number,
-    rawName: string,
-    flowShiftDeg = 0,
-    subLabel?: string,
-    subFontSize = 0
-  ): void {
-    const segAngle = segEnd - segStart;
-    const normalizedMid = ((midAngle % 360) + 360) % 360;
-    const useClockwise = normalizedMid < 15 || normalizedMid > 165;
-    // Top-half segments (clockwise arcs) read with the visually-first line at
-    // the larger radius (outer edge); bottom-half segments (counter-clockwise
-    // arcs) read with it at the smaller radius (closer to the hub).
-    const sign = useClockwise ? -1 : 1;
-    const largeArc = segAngle - 6 > 180 ? 1 : 0;
-    // Shift the path's start/end by the same amount so the textPath midpoint
-    // (and therefore the rendered text) moves in the flow direction.
-    const startAng = segStart + 3 + flowShiftDeg;
-    const endAng = segEnd - 3 + flowShiftDeg;
-
-    // Build the ordered rows: name lines first (reading top to bottom), then
-    // the optional sub-label directly below. Each row keeps its own font size.
-    const displayName = this.config.style.segmentUppercase ? rawName.toUpperCase() : rawName;
-    const nameLines = displayName.replace(/&/g, '&amp;').split('\n');
-    const nameLineHeight = fontSize * 1.2;
-    const hasSub = subLabel !== undefined && subLabel !== null && subLabel !== '';
-    const rows: Array<{ text: string; size: number; isSub: boolean }> = nameLines.map(
-      (t) => ({ text: t, size: fontSize, isSub: false })
-    );
-    if (hasSub) {
-      rows.push({ text: String(subLabel).replace(/&/g, '&amp;'), size: subFontSize, isSub: true });
-    }
-
-    // Lay the rows out centred on textRadius. `u` runs in the reading-down
-    // direction; the (signed) radial offset keeps the block centred and
-    // reduces to the original single-name formula when there is no sub-label.
-    const totalHeight = nameLines.length * nameLineHeight + (hasSub ? subFontSize * 1.2 : 0);
-    const subColor = this.config.style.segmentSubLabelColor ?? '#ffffff';
-    const fontFamily = this.config.style.fontFamily;
-    let uCursor = 0;
-
-    rows.forEach((row, idx) => {
-      const rowHeight = row.size * 1.2;
-      const uCenter = uCursor + rowHeight / 2;
-      uCursor += rowHeight;
-      const offset = sign * (uCenter - totalHeight / 2);
-      const lineRadius = textRadius + offset;
-      const linePathId = `${pathIdBase}-${idx}`;
-
-      if (useClockwise) {
-        const s = polarToCartesian(this.cx, this.cy, lineRadius, startAng);
-        const e = polarToCartesian(this.cx, this.cy, lineRadius, endAng);
-        defs.push(
-          `<path id="${linePathId}" d="M ${s.x} ${s.y} A ${lineRadius} ${lineRadius} 0 ${largeArc} 1 ${e.x} ${e.y}" fill="none" />`
-        );
-      } else {
-        const s = polarToCartesian(this.cx, this.cy, lineRadius, endAng);
-        const e = polarToCartesian(this.cx, this.cy, lineRadius, startAng);
-        defs.push(
-          `<path id="${linePathId}" d="M ${s.x} ${s.y} A ${lineRadius} ${lineRadius} 0 ${largeArc} 0 ${e.x} ${e.y}" fill="none" />`
-        );
-      }
-
-      if (row.isSub) {
-        texts.push(
-          `<text fill="${subColor}" style="font-family: ${fontFamily}; font-weight: normal; font-size: ${row.size}px; dominant-baseline: middle;"><textPath href="#${linePathId}" startOffset="50%" text-anchor="middle">${row.text}</textPath></text>`
-        );
-      } else {
-        texts.push(
-          `<text class="segment-label" fill="white" style="font-size: ${row.size}px"><textPath href="#${linePathId}" startOffset="50%" text-anchor="middle">${row.text}</textPath></text>`
-        );
-      }
-    });
-  }
-
-  private renderSegmentLabelsOuter(): string {
-    const { segments, startAngle, style } = this.config;
-    const segAngle = segmentAngle(segments.length);
+  private renderLabelBand(
+    layout: SegmentLabelLayout | (GroupLabelLayout & { position: 'outer' }),
+    kind: 'segment' | 'group'
+  ): string {
+    const { position, bands, rings, dividers, labels } = layout;
+    const subColor = escapeXml(layout.subColor);
+    const subFontFamily = escapeXml(layout.subFontFamily);
     const defs: string[] = [];
-    const backgrounds: string[] = [];
-    const dividers: string[] = [];
     const texts: string[] = [];
 
-    // Calculate arc thickness using golden ratio: fontSize * phi + fontSize.
-    // Each extra line of text adds one line-height (1.2× fontSize).
-    const baseFontSize = style.segmentFontSize || 28;
-    const phi = 1.618;
-    const maxLines = Math.max(...segments.map((s) => s.name.split('\n').length));
-    // When any segment carries a sub-label, reserve one sub-line-height of
-    // extra band so the name block plus sub-label stays inside the band.
-    const anySub = segments.some((s) => s.subLabel);
-    const subFontScale = style.segmentSubLabelFontScale ?? 0.62;
-    const subBand = anySub ? baseFontSize * subFontScale * 1.2 : 0;
-    const arcThickness = (baseFontSize * phi) + baseFontSize + (maxLines - 1) * baseFontSize * 1.2 + subBand;
-    const dividerWidth = style.segmentDividerWidth || 4;
-
-    // Position arc with divider gap, vertically center text
-    const innerLabelRadius = this.outerRadius + (dividerWidth / 2);
-    const outerLabelRadius = innerLabelRadius + arcThickness;
-    const textRadius = innerLabelRadius + (arcThickness / 2); // Vertically centered
-
-    const scaledFontSize = this.scaleSegmentFontSize(segments, segAngle, textRadius, baseFontSize);
-    const subFontSize = anySub ? Math.floor(scaledFontSize * subFontScale) : 0;
-    const flowShiftDeg = this.flowLabelShiftDeg(textRadius, segAngle, arcThickness);
-
-    segments.forEach((segment, i) => {
-      const segStart = startAngle + i * segAngle;
-      const segEnd = segStart + segAngle;
-      const midAngle = (segStart + segEnd) / 2;
-      const pathId = `segment-path-${i}`;
-
-      // Background arc segment
-      const bgPath = segmentPath(
-        this.cx, this.cy,
-        innerLabelRadius, outerLabelRadius,
-        segStart, segEnd
-      );
-      backgrounds.push(
-        `<path d="${bgPath}" fill="${segment.labelColor || segment.color}" />`
-      );
-
-      // Segment divider line (same as main segments) — skipped at flow-arrow boundaries.
-      if (style.showSegmentDividers && !this.hasFlowArrowAt(i, segments.length)) {
-        const inner = polarToCartesian(this.cx, this.cy, innerLabelRadius, segStart);
-        const outer = polarToCartesian(this.cx, this.cy, outerLabelRadius, segStart);
-        dividers.push(
-          `<line x1="${inner.x}" y1="${inner.y}" x2="${outer.x}" y2="${outer.y}" stroke="${style.segmentDividerColor}" stroke-width="${style.segmentDividerWidth}" />`
+    labels.forEach(({ rows }, labelIndex) => {
+      rows.forEach((row, idx) => {
+        const linePathId = this.id(`${kind}-path-${labelIndex}-${idx}`);
+        const s = polarToCartesian(this.cx, this.cy, row.radius, row.fromAngle);
+        const e = polarToCartesian(this.cx, this.cy, row.radius, row.toAngle);
+        defs.push(
+          `<path id="${linePathId}" d="M ${s.x} ${s.y} A ${row.radius} ${row.radius} 0 ${row.largeArc} ${row.clockwise ? 1 : 0} ${e.x} ${e.y}" fill="none" />`
         );
-      }
 
-      this.emitSegmentLabelLines(defs, texts, pathId, segStart, segEnd, midAngle, textRadius, scaledFontSize, segment.name, flowShiftDeg, segment.subLabel, subFontSize);
+        const text = escapeXml(row.text);
+        if (row.isSub) {
+          texts.push(
+            `<text fill="${subColor}" style="font-family: ${subFontFamily}; font-weight: normal; font-size: ${escapeXml(row.size)}px; dominant-baseline: middle;"><textPath href="#${linePathId}" startOffset="50%" text-anchor="middle">${text}</textPath></text>`
+          );
+        } else {
+          texts.push(
+            `<text class="segment-label" fill="white" style="font-size: ${escapeXml(row.size)}px"><textPath href="#${linePathId}" startOffset="50%" text-anchor="middle">${text}</textPath></text>`
+          );
+        }
+      });
     });
 
-    // Add divider ring between main segments and label arc
-    const ringDivider = style.showSegmentDividers
-      ? `<circle cx="${this.cx}" cy="${this.cy}" r="${this.outerRadius}" fill="none" stroke="${style.segmentDividerColor}" stroke-width="${dividerWidth}" />`
-      : '';
+    const backgrounds = `<g class="${kind}-label-backgrounds">${bands.map((band) => `<path d="${this.wedgePath(band)}" fill="${escapeXml(band.color)}" />`).join('\n')}</g>`;
+    const ringDividers = rings.map((r) => this.ring(r)).join('\n');
+    const dividerLines = `<g class="${kind}-label-dividers">${dividers.map((l) => this.line(l)).join('\n')}</g>`;
+    const layers = position === 'inner'
+      ? [backgrounds, ringDividers, dividerLines]
+      : [ringDividers, backgrounds, dividerLines];
 
-    return `<defs>${defs.join('\n')}</defs>\n${ringDivider}\n<g class="segment-label-backgrounds">${backgrounds.join('\n')}</g>\n<g class="segment-label-dividers">${dividers.join('\n')}</g>\n<g class="segment-labels">${texts.join('\n')}</g>`;
+    return `<defs>${defs.join('\n')}</defs>\n${layers.join('\n')}\n<g class="${kind}-labels">${texts.join('\n')}</g>`;
   }
 }
 
 /**
  * Convenience function to render a diagram from config
+ * @param options `{ strict: true }` to allow only allowlisted CSS values
  */
-export function renderDiagram(config: DiagramConfig): string {
-  const renderer = new SVGRenderer(config);
+export function renderDiagram(config: DiagramConfig, options?: ValidateOptions): string {
+  const renderer = new SVGRenderer(config, options);
   return renderer.render();
 }
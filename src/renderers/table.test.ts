@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { renderDataTable } from './table.js';
+import { DEFAULT_STYLE, DEFAULT_SCALE, DiagramConfig } from '../core/types.js';
+
+const config: DiagramConfig = {
+  size: 800,
+  startAngle: -90,
+  center: { label: 'Test Hub', radius: 100, color: '#702082' },
+  scale: { ...DEFAULT_SCALE },
+  segments: [
+    {
+      name: 'Segment One',
+      color: '#E6A817',
+      facets: [
+        { name: 'Facet A', score: 3 },
+        { name: 'Facet B', score: 4 },
+      ],
+    },
+    { name: 'Segment Two', color: '#C41E3A', facets: [{ name: 'Facet C', score: 2 }] },
+  ],
+  style: { ...DEFAULT_STYLE },
+};
+
+describe('renderDataTable', () => {
+  it('renders a captioned table with one row per facet grouped by segment', () => {
+    const html = renderDataTable(config);
+    expect(html).toContain(
+      '<caption>Test Hub: 2 dimensions, overall average 3.0, highest: Segment One 3.5, lowest: Segment Two 2.0</caption>'
+    );
+    expect(html).toContain('<tr><th scope="col">Dimension</th><th scope="col">Facet</th><th scope="col">Score</th></tr>');
+    expect(html).toContain(
+      '<tr><th scope="rowgroup" rowspan="2">Segment One</th><th scope="row">Facet A</th><td>3</td></tr>'
+    );
+    expect(html).toContain('<tr><th scope="row">Facet B</th><td>4</td></tr>');
+    expect(html.match(/<tbody>/g)).toHaveLength(2);
+  });
+
+  it('adds series, figure and description columns when used', () => {
+    const html = renderDataTable({
+      ...config,
+      series: [{ key: 'current', label: 'Current' }, { key: 'target' }],
+      segments: [
+        {
+          name: 'Seg',
+          color: '#000',
+          facets: [{ name: 'A', scores: { current: 2 }, figure: '40%', description: 'Plan & <act>' }],
+        },
+      ],
+    });
+    expect(html).toContain('<th scope="col">Current</th><th scope="col">target</th><th scope="col">Figure</th><th scope="col">Description</th>');
+    expect(html).toContain('<td>2</td><td></td><td>40%</td><td>Plan &amp; &lt;act&gt;</td>');
+  });
+
+  it('fills statistics into figure templates', () => {
+    const html = renderDataTable({ ...config, segments: [{ ...config.segments[1], facets: [{ name: 'C', score: 2, figure: '{pct}%' }] }] });
+    expect(html).toContain('<td>2</td><td>25%</td>');
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * HTML data table renderer — a text alternative to the SVG diagram
+ *
+ * @license MIT
+ * @copyright 2026 CGA Management Ltd
+ * @see https://www.cgamanagement.co.uk/category/tools
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import type { DiagramConfig, Facet } from '../core/types.js';
+import { escapeXml } from '../core/escape.js';
+import { diagramSummary } from '../core/summary.js';
+import { facetFigure } from '../core/aggregate.js';
+
+/**
+ * Render the diagram's data as an accessible HTML `<table>`: one row per
+ * facet, grouped under a row header per segment, with a Score column (or one
+ * column per score series), plus Figure and Description columns when any
+ * facet uses them. The caption is `config.title` (or the hub label) followed
+ * by the `diagramSummary`. All text is HTML-escaped.
+ * @param config The diagram configuration
+ */
+export function renderDataTable(config: DiagramConfig): string {
+  const { segments, series } = config;
+  const facets = segments.flatMap((s) => s.facets);
+  const hasFigures = facets.some((f) => f.figure !== undefined && f.figure !== '');
+  const hasDescriptions = facets.some((f) => !!f.description);
+  const text = (value: string) => escapeXml(value.replace(/\n/g, ' '));
+
+  const scoreColumns: Array<{ label: string; scoreOf: (facet: Facet) => number | undefined }> =
+    series && series.length > 0
+      ? series.map((s) => ({ label: s.label ?? s.key, scoreOf: (f: Facet) => f.scores?.[s.key] }))
+      : [{ label: 'Score', scoreOf: (f: Facet) => f.score }];
+
+  const headers = ['Dimension', 'Facet', ...scoreColumns.map((c) => c.label)];
+  if (hasFigures) headers.push('Figure');
+  if (hasDescriptions) headers.push('Description');
+
+  const bodies = segments.map((segment) => {
+    const rows = segment.facets.map((facet, facetIndex) => {
+      const cells: string[] = [];
+      if (facetIndex === 0) {
+        cells.push(`<th scope="rowgroup" rowspan="${segment.facets.length}">${text(segment.name)}</th>`);
+      }
+      cells.push(`<th scope="row">${text(facet.name)}</th>`);
+      for (const column of scoreColumns) {
+        const score = column.scoreOf(facet);
+        cells.push(`<td>${score !== undefined && score !== null ? escapeXml(score) : ''}</td>`);
+      }
+      if (hasFigures) cells.push(`<td>${text(facetFigure(config, facet) ?? '')}</td>`);
+      if (hasDescriptions) cells.push(`<td>${text(facet.description ?? '')}</td>`);
+      return `    <tr>${cells.join('')}</tr>`;
+    });
+    return `  <tbody>\n${rows.join('\n')}\n  </tbody>`;
+  });
+
+  const caption = `${text(config.title ?? config.center.label)}: ${escapeXml(diagramSummary(config))}`;
+  return `<table class="radial-diagram-data">
+  <caption>${caption}</caption>
+  <thead>
+    <tr>${headers.map((h) => `<th scope="col">${escapeXml(h)}</th>`).join('')}</tr>
+  </thead>
+${bodies.join('\n')}
+</table>`;
+}
@@ -4,7 +4,10 @@
  *
  * For each tests/shared/configs/tier-NN-*.json:
  *   1. Render via the TS package; rasterise via shared svg-to-png-lib; write
- *      tests/shared/goldens/ts/<tier>.{svg,png}.
+ *      tests/shared/goldens/ts/<tier>.{svg,png}. Also render with
+ *      `style.compact` and `style.precision: 2` to
+ *      tests/shared/goldens/ts-compact/<tier>.svg (src/renderers/compact.test.ts
+ *      checks these still match the full-precision goldens pixel for pixel).
  *   2. Shell out to python/.venv/bin/python tests/shared/build-py-renders.py
  *      which renders + rasterises with the Python implementation and writes
  *      tests/shared/goldens/py/<tier>.{svg,png} plus a diff heatmap at
@@ -25,11 +28,12 @@ const repoRoot = resolve(__dirname, "..", "..");
 const configsDir = join(__dirname, "configs");
 const goldensRoot = join(__dirname, "goldens");
 const tsDir = join(goldensRoot, "ts");
+const tsCompactDir = join(goldensRoot, "ts-compact");
 const pyDir = join(goldensRoot, "py");
 const diffDir = join(goldensRoot, "diff");
 const targetPngWidth = 1200;
 
-for (const d of [tsDir, pyDir, diffDir]) {
+for (const d of [tsDir, tsCompactDir, pyDir, diffDir]) {
   if (!existsSync(d)) mkdirSync(d, { recursive: true });
 }
 
@@ -62,10 +66,14 @@ for (const filename of tierFiles) {
   }
 
   writeFileSync(join(tsDir, `${tierName}.svg`), svg, "utf-8");
+  const compactSvg = renderDiagram({ ...raw, style: { ...raw.style, compact: true, precision: 2 } });
+  writeFileSync(join(tsCompactDir, `${tierName}.svg`), compactSvg, "utf-8");
   const pngData = svgToPng(svg, { width: targetPngWidth });
   writeFileSync(join(tsDir, `${tierName}.png`), pngData);
 
-  console.log(`  ✓ ${tierName} → ${svg.length} chars SVG / ${pngData.length} bytes PNG`);
+  console.log(
+    `  ✓ ${tierName} → ${svg.length} chars SVG (${compactSvg.length} compact) / ${pngData.length} bytes PNG`
+  );
   sheetRows.push({ tierName, comment });
 }
 